@@ -1,5 +1,6 @@
-import { PrismaClient, UserRole, PlanType, CoinEarnReason, RewardCategory } from '@prisma/client'
+import { PrismaClient, UserRole, PlanType, RiderType, WaitingPeriodType, CoinEarnReason, RewardCategory } from '@prisma/client'
 import { hash } from 'bcryptjs'
+import { hospitalService } from '../src/lib/services/hospital-service'
 
 const prisma = new PrismaClient()
 
@@ -428,9 +429,165 @@ async function main() {
             },
           })
         }
+
+        // Create add-on riders for the plan
+        const riders = [
+          {
+            type: RiderType.CRITICAL_ILLNESS,
+            name: 'Critical Illness Cover',
+            description: 'Lump sum payout on diagnosis of a listed critical illness',
+            coverageAmount: 1000000,
+            pricingType: 'PER_MEMBER',
+            rate: 1500,
+            minAge: 18,
+            maxAge: 65,
+            genders: [],
+          },
+          {
+            type: RiderType.OPD,
+            name: 'OPD Cover',
+            description: 'Covers doctor consultations, diagnostics and pharmacy bills',
+            coverageAmount: 25000,
+            pricingType: 'PER_MEMBER',
+            rate: 2500,
+            minAge: null,
+            maxAge: null,
+            genders: [],
+          },
+          {
+            type: RiderType.MATERNITY,
+            name: 'Maternity Cover',
+            description: 'Covers delivery expenses and newborn care',
+            coverageAmount: 75000,
+            pricingType: 'FLAT',
+            rate: 6000,
+            minAge: 18,
+            maxAge: 45,
+            genders: ['FEMALE'],
+          },
+          {
+            type: RiderType.ROOM_RENT_WAIVER,
+            name: 'Room Rent Waiver',
+            description: 'Removes the room rent sub-limit on hospitalization',
+            coverageAmount: null,
+            pricingType: 'PREMIUM_PERCENT',
+            rate: 0.08,
+            minAge: null,
+            maxAge: null,
+            genders: [],
+          },
+        ]
+
+        for (const rider of riders) {
+          await prisma.planRider.upsert({
+            where: { planId_type: { planId: plan.id, type: rider.type } },
+            update: {},
+            create: {
+              ...rider,
+              planId: plan.id,
+            },
+          })
+        }
+
+        // Create waiting periods matching the plan's features
+        const waitingPeriods = [
+          {
+            type: WaitingPeriodType.INITIAL,
+            days: 30,
+            conditions: [],
+            description: 'No illness claims in the first 30 days; accidents are covered from day one',
+          },
+          {
+            type: WaitingPeriodType.SPECIFIC_DISEASE,
+            days: 365,
+            conditions: ['cataract', 'hernia', 'jointReplacement', 'kidneyStones', 'sinusitis'],
+            description: 'Listed conditions are covered after 12 months',
+          },
+          {
+            type: WaitingPeriodType.PRE_EXISTING,
+            days: 730,
+            conditions: [],
+            description: 'Conditions declared at purchase are covered after 24 months',
+          },
+        ]
+
+        for (const waitingPeriod of waitingPeriods) {
+          await prisma.waitingPeriod.upsert({
+            where: { id: `${plan.id}_${waitingPeriod.type}` },
+            update: {},
+            create: {
+              ...waitingPeriod,
+              id: `${plan.id}_${waitingPeriod.type}`,
+              planId: plan.id,
+            },
+          })
+        }
       }
     }
 
+    // Create the initial global rating table
+    await prisma.ratingTable.upsert({
+      where: { id: 'GLOBAL_v1' },
+      update: {},
+      create: {
+        id: 'GLOBAL_v1',
+        scopeKey: 'GLOBAL',
+        version: 1,
+        effectiveFrom: new Date('2024-01-01'),
+        cityTiers: [
+          { tier: 'TIER_1', multiplier: 1.2, cities: ['Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Kolkata', 'Hyderabad'] },
+          { tier: 'TIER_2', multiplier: 1.1, cities: ['Pune', 'Ahmedabad', 'Jaipur', 'Lucknow', 'Chandigarh', 'Kochi'] },
+        ],
+        defaultCityMultiplier: 1.0,
+        medicalConditionRisks: {
+          diabetes: 1.3,
+          hypertension: 1.2,
+          heartDisease: 1.5,
+          asthma: 1.15,
+          cancer: 2.0,
+          none: 1.0,
+        },
+        ageBands: [
+          { maxAge: 25, factor: 1.0 },
+          { maxAge: 35, factor: 1.1 },
+          { maxAge: 45, factor: 1.2 },
+          { maxAge: 55, factor: 1.3 },
+          { maxAge: 65, factor: 1.5 },
+          { maxAge: null, factor: 1.8 },
+        ],
+        familyDiscounts: [
+          { minSize: 4, discount: 0.15 },
+          { minSize: 2, discount: 0.10 },
+        ],
+        notes: 'Initial rating table',
+      },
+    })
+
+    // City and pincode centres for placing addresses without coordinates
+    const centroids = [
+      { city: 'Mumbai', state: 'Maharashtra', latitude: 19.0760, longitude: 72.8777 },
+      { city: 'Delhi', state: 'Delhi', latitude: 28.6139, longitude: 77.2090 },
+      { city: 'Bangalore', state: 'Karnataka', latitude: 12.9716, longitude: 77.5946 },
+      { city: 'Bengaluru', state: 'Karnataka', latitude: 12.9716, longitude: 77.5946 },
+      { city: 'Chennai', state: 'Tamil Nadu', latitude: 13.0827, longitude: 80.2707 },
+      { city: 'Kolkata', state: 'West Bengal', latitude: 22.5726, longitude: 88.3639 },
+      { city: 'Hyderabad', state: 'Telangana', latitude: 17.3850, longitude: 78.4867 },
+      { city: 'Pune', state: 'Maharashtra', latitude: 18.5204, longitude: 73.8567 },
+      { city: 'Ahmedabad', state: 'Gujarat', latitude: 23.0225, longitude: 72.5714 },
+      { city: 'Jaipur', state: 'Rajasthan', latitude: 26.9124, longitude: 75.7873 },
+      { city: 'Lucknow', state: 'Uttar Pradesh', latitude: 26.8467, longitude: 80.9462 },
+      { city: 'Chandigarh', state: 'Chandigarh', latitude: 30.7333, longitude: 76.7794 },
+      { city: 'Kochi', state: 'Kerala', latitude: 9.9312, longitude: 76.2673 },
+      { city: 'Mumbai', state: 'Maharashtra', pincode: '400001', latitude: 18.9388, longitude: 72.8354 },
+      { city: 'Mumbai', state: 'Maharashtra', pincode: '400069', latitude: 19.1136, longitude: 72.8697 },
+      { city: 'Delhi', state: 'Delhi', pincode: '110001', latitude: 28.6315, longitude: 77.2167 },
+      { city: 'Bangalore', state: 'Karnataka', pincode: '560001', latitude: 12.9762, longitude: 77.6033 },
+      { city: 'Bangalore', state: 'Karnataka', pincode: '560038', latitude: 12.9784, longitude: 77.6408 },
+    ]
+
+    await prisma.locationCentroid.deleteMany({})
+    await prisma.locationCentroid.createMany({ data: centroids })
+
     // Create sample hospitals
     const hospitals = [
       {
@@ -439,8 +596,6 @@ async function main() {
           street: '123 Healthcare Ave',
           area: 'Andheri East',
           landmark: 'Near Metro Station',
-        },
-        location: {
           city: 'Mumbai',
           state: 'Maharashtra',
           pincode: '400001',
@@ -449,9 +604,10 @@ async function main() {
             longitude: 72.8777,
           },
         },
+        latitude: 19.0760,
+        longitude: 72.8777,
+        locationSource: 'ADDRESS',
         specialties: ['Cardiology', 'Orthopedics', 'Neurology'],
-        facilities: ['24x7 Emergency', 'ICU', 'Operation Theatre', 'Pharmacy'],
-        emergencyServices: true,
         rating: 4.5,
       },
       {
@@ -460,8 +616,6 @@ async function main() {
           street: '456 Wellness Road',
           area: 'Connaught Place',
           landmark: 'Near Central Park',
-        },
-        location: {
           city: 'Delhi',
           state: 'Delhi',
           pincode: '110001',
@@ -470,9 +624,10 @@ async function main() {
             longitude: 77.2090,
           },
         },
+        latitude: 28.6139,
+        longitude: 77.2090,
+        locationSource: 'ADDRESS',
         specialties: ['Oncology', 'Pediatrics', 'General Surgery'],
-        facilities: ['24x7 Emergency', 'Blood Bank', 'Diagnostic Center'],
-        emergencyServices: true,
         rating: 4.8,
       },
       {
@@ -481,8 +636,6 @@ async function main() {
           street: '789 Care Street',
           area: 'Indiranagar',
           landmark: 'Near Metro Station',
-        },
-        location: {
           city: 'Bangalore',
           state: 'Karnataka',
           pincode: '560001',
@@ -491,9 +644,10 @@ async function main() {
             longitude: 77.5946,
           },
         },
+        latitude: 12.9716,
+        longitude: 77.5946,
+        locationSource: 'ADDRESS',
         specialties: ['Gynecology', 'Dermatology', 'ENT'],
-        facilities: ['24x7 Emergency', 'Maternity Ward', 'NICU'],
-        emergencyServices: true,
         rating: 4.3,
       },
     ]
@@ -506,6 +660,13 @@ async function main() {
       })
     }
 
+    // Hospitals seeded before coordinates were stored keep their old rows
+    const { geocoded, unresolved } = await hospitalService.geocodeMissingCoordinates()
+    console.log(`Geocoded ${geocoded} hospitals`)
+    if (unresolved.length) {
+      console.warn(`Could not place: ${unresolved.map(h => h.name).join(', ')}`)
+    }
+
     console.log('Database seeded successfully')
   } catch (error) {
     console.error('Error seeding database:', error)
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hospitalService } from '@/lib/services/hospital-service';
+
+// Place hospitals saved without coordinates so radius searches can find them
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const result = await hospitalService.geocodeMissingCoordinates();
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Hospital geocoding error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { planCatalogueService } from '@/lib/services/plan-catalogue-service';
+
+// Withdraw a plan from sale; existing policies keep it
+export async function POST(
+  req: Request,
+  { params }: { params: { planId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const plan = await planCatalogueService.archive(params.planId);
+
+    return NextResponse.json({ success: true, data: plan });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Plan not found') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === 'Only active plans can be archived') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+
+    console.error('Catalogue plan archive error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
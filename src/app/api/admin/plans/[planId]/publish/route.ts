@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { planCatalogueService } from '@/lib/services/plan-catalogue-service';
+
+// Publish a draft, archiving the version it replaces
+export async function POST(
+  req: Request,
+  { params }: { params: { planId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { plan, issues } = await planCatalogueService.publish(params.planId, session.user.id);
+    if (issues.length) {
+      return NextResponse.json(
+        { success: false, error: 'Plan failed validation', details: issues },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: plan });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Plan not found') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === 'Only draft plans can be published') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 409 });
+    }
+
+    console.error('Catalogue plan publish error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { PlanDraftUpdateSchema } from '@/lib/plan-catalogue';
+import { planCatalogueService } from '@/lib/services/plan-catalogue-service';
+
+// Maps catalogue errors to their HTTP status
+function catalogueErrorStatus(message: string): number | null {
+  if (message === 'Plan not found') return 404;
+  if (message.startsWith('Only draft plans')) return 409;
+  if (message.startsWith('Waiting period refers to unknown benefit')) return 400;
+  return null;
+}
+
+export async function GET(
+  req: Request,
+  { params }: { params: { planId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const plan = await planCatalogueService.getPlan(params.planId);
+    if (!plan) {
+      return NextResponse.json({ success: false, error: 'Plan not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: plan });
+  } catch (error) {
+    console.error('Catalogue plan fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Edit a draft; benefits, hospitals and waiting periods are replaced when given
+export async function PATCH(
+  req: Request,
+  { params }: { params: { planId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = PlanDraftUpdateSchema.parse(body);
+
+    const plan = await planCatalogueService.updateDraft(params.planId, input);
+
+    return NextResponse.json({ success: true, data: plan });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+    const status = error instanceof Error ? catalogueErrorStatus(error.message) : null;
+    if (status && error instanceof Error) {
+      return NextResponse.json({ success: false, error: error.message }, { status });
+    }
+
+    console.error('Catalogue plan update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Discard a draft that was never published
+export async function DELETE(
+  req: Request,
+  { params }: { params: { planId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    await planCatalogueService.deleteDraft(params.planId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const status = error instanceof Error ? catalogueErrorStatus(error.message) : null;
+    if (status && error instanceof Error) {
+      return NextResponse.json({ success: false, error: error.message }, { status });
+    }
+
+    console.error('Catalogue plan delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
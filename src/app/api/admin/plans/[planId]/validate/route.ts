@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { planCatalogueService } from '@/lib/services/plan-catalogue-service';
+
+// Check a draft against the publishing rules without publishing it
+export async function POST(
+  req: Request,
+  { params }: { params: { planId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const issues = await planCatalogueService.validate(params.planId);
+
+    return NextResponse.json({ success: true, data: { valid: !issues.length, issues } });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Plan not found') {
+      return NextResponse.json({ success: false, error: error.message }, { status: 404 });
+    }
+
+    console.error('Catalogue plan validation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { toCatalogueCsv, toCatalogueJson } from '@/lib/plan-catalogue-io';
+import { planCatalogueService } from '@/lib/services/plan-catalogue-service';
+
+const exportOptionsSchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+  status: z.enum(['DRAFT', 'ACTIVE', 'ARCHIVED']).default('ACTIVE'),
+});
+
+export const dynamic = 'force-dynamic';
+
+// Download the catalogue in the format the import endpoint reads
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { format, status } = exportOptionsSchema.parse({
+      format: searchParams.get('format') ?? undefined,
+      status: searchParams.get('status') ?? undefined,
+    });
+
+    const plans = await planCatalogueService.exportPlans(status);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(format === 'csv' ? toCatalogueCsv(plans) : toCatalogueJson(plans), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="plan-catalogue-${status.toLowerCase()}-${date}.${format}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Catalogue export error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { CatalogueFormat, parseCatalogue } from '@/lib/plan-catalogue-io';
+import { planCatalogueService } from '@/lib/services/plan-catalogue-service';
+
+const importOptionsSchema = z.object({
+  format: z.enum(['json', 'csv']).optional(),
+  dryRun: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
+// Reads the file from a multipart upload (field "file") or the raw request body
+async function readCatalogueFile(req: Request, format?: CatalogueFormat) {
+  const contentType = req.headers.get('content-type') ?? '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const file = (await req.formData()).get('file');
+    if (!(file instanceof File)) return null;
+    return {
+      text: await file.text(),
+      format: format ?? (file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json') as CatalogueFormat,
+    };
+  }
+
+  return {
+    text: await req.text(),
+    format: format ?? (contentType.includes('csv') ? 'csv' : 'json') as CatalogueFormat,
+  };
+}
+
+// Import plans, benefits, waiting periods and network hospitals as drafts
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const options = importOptionsSchema.parse({
+      format: searchParams.get('format') ?? undefined,
+      dryRun: searchParams.get('dryRun') ?? undefined,
+    });
+
+    const file = await readCatalogueFile(req, options.format);
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: 'Upload a catalogue file in the "file" field' },
+        { status: 400 }
+      );
+    }
+
+    const { records, errors } = parseCatalogue(file.text, file.format);
+    if (errors.length) {
+      return NextResponse.json(
+        { success: false, error: 'Catalogue file has invalid rows', data: { dryRun: options.dryRun, plans: [], errors } },
+        { status: 422 }
+      );
+    }
+
+    const result = await planCatalogueService.importPlans(records, { dryRun: options.dryRun });
+    if (result.errors.length) {
+      return NextResponse.json(
+        { success: false, error: 'Catalogue file has invalid rows', data: result },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: result },
+      { status: options.dryRun ? 200 : 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Catalogue import error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
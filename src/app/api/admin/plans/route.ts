@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { PlanDraftSchema } from '@/lib/plan-catalogue';
+import { planCatalogueService } from '@/lib/services/plan-catalogue-service';
+
+const listPlansSchema = z.object({
+  status: z.enum(['DRAFT', 'ACTIVE', 'ARCHIVED']).optional(),
+  planCode: z.string().optional(),
+});
+
+// List catalogue plans in every status, each version separately
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const filters = listPlansSchema.parse({
+      status: searchParams.get('status') ?? undefined,
+      planCode: searchParams.get('planCode') ?? undefined,
+    });
+
+    const plans = await planCatalogueService.getPlans(filters);
+
+    return NextResponse.json({ success: true, data: plans });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Catalogue plan list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a new plan as a draft
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json();
+    const input = PlanDraftSchema.parse(body);
+
+    const plan = await planCatalogueService.createDraft(input);
+
+    return NextResponse.json({ success: true, data: plan }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof Error && error.message.startsWith('Waiting period refers to unknown benefit')) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('Catalogue plan create error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
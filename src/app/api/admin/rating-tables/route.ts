@@ -0,0 +1,132 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getRatingTableScopeKey, RatingTableDataSchema } from '@/lib/rating-tables';
+
+// How far before the request an effective date may be and still count as now,
+// for clients that send the time they pressed publish
+const EFFECTIVE_FROM_TOLERANCE_MS = 60 * 1000;
+
+// Saved quotes are re-run with the tables active when they were priced, so
+// a table may not take effect before the request; it defaults to now
+const createRatingTableSchema = (receivedAt: Date) => RatingTableDataSchema.extend({
+  insurerId: z.string().optional(),
+  planId: z.string().optional(),
+  effectiveFrom: z.coerce.date()
+    .refine(
+      date => date.getTime() >= receivedAt.getTime() - EFFECTIVE_FROM_TOLERANCE_MS,
+      'Rating tables cannot take effect in the past'
+    )
+    .optional(),
+  notes: z.string().optional(),
+});
+
+// Publish a new rating table version for a plan, an insurer or globally
+export async function POST(req: Request) {
+  const receivedAt = new Date();
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json();
+    const { insurerId, planId, effectiveFrom, notes, ...tableData } =
+      createRatingTableSchema(receivedAt).parse(body);
+
+    if (planId) {
+      const plan = await prisma.productPlan.findUnique({ where: { id: planId } });
+      if (!plan) {
+        return NextResponse.json(
+          { success: false, error: 'Plan not found' },
+          { status: 404 }
+        );
+      }
+      if (insurerId && plan.insurerId !== insurerId) {
+        return NextResponse.json(
+          { success: false, error: 'Plan does not belong to the given insurer' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // A plan-scoped table is keyed on the plan alone
+    const scope = {
+      insurerId: planId ? null : insurerId ?? null,
+      planId: planId ?? null,
+    };
+    const scopeKey = getRatingTableScopeKey(scope);
+
+    const ratingTable = await prisma.$transaction(async (tx) => {
+      // Publishes to the same scope wait for each other, so each gets the next version
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${scopeKey}))`;
+
+      const latest = await tx.ratingTable.findFirst({
+        where: { scopeKey },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      return tx.ratingTable.create({
+        data: {
+          ...scope,
+          scopeKey,
+          ...tableData,
+          version: (latest?.version ?? 0) + 1,
+          // A date within the tolerance is taken as the time of the request
+          effectiveFrom: effectiveFrom && effectiveFrom > receivedAt ? effectiveFrom : receivedAt,
+          notes,
+          createdById: session.user.id,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true, data: ratingTable }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Rating table publish error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// List rating table versions, newest first
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const insurerId = searchParams.get('insurerId');
+    const planId = searchParams.get('planId');
+
+    const ratingTables = await prisma.ratingTable.findMany({
+      where: {
+        ...(insurerId && { insurerId }),
+        ...(planId && { planId }),
+      },
+      orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+    });
+
+    return NextResponse.json({ success: true, data: ratingTables });
+  } catch (error) {
+    console.error('Rating table list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
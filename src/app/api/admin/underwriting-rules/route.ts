@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { UnderwritingRulesSchema } from '@/lib/underwriting';
+
+const createRuleSetSchema = z.object({
+  rules: UnderwritingRulesSchema,
+  effectiveFrom: z.coerce.date(),
+  notes: z.string().optional(),
+});
+
+// Publish a new underwriting rule set version
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json();
+    const { rules, effectiveFrom, notes } = createRuleSetSchema.parse(body);
+
+    const ruleSet = await prisma.$transaction(async (tx) => {
+      const latest = await tx.underwritingRuleSet.findFirst({
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      return tx.underwritingRuleSet.create({
+        data: {
+          rules,
+          version: (latest?.version ?? 0) + 1,
+          effectiveFrom,
+          notes,
+          createdById: session.user.id,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true, data: ruleSet }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Underwriting rule set publish error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// List underwriting rule set versions, newest first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const ruleSets = await prisma.underwritingRuleSet.findMany({
+      orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+    });
+
+    return NextResponse.json({ success: true, data: ruleSets });
+  } catch (error) {
+    console.error('Underwriting rule set list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,17 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { createCheckoutSession } from '@/lib/payment';
+import { PAYMENT_FREQUENCIES } from '@/lib/quote-engine';
+import { PolicyRider } from '@/lib/riders';
+import { quoteService, QuoteDetails } from '@/lib/services/quote-service';
+import { instalmentService } from '@/lib/services/instalment-service';
+import { underwritingService } from '@/lib/services/underwriting-service';
+import { waitingPeriodService } from '@/lib/services/waiting-period-service';
 import { z } from 'zod';
-import Stripe from 'stripe';
-
-// Initialize Stripe
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2023-10-16',
-});
 
 // Input validation schema
 const CheckoutInputSchema = z.object({
-  quoteItemId: z.string(),
+  quoteNumber: z.string(),
   familyMembers: z.array(z.object({
     firstName: z.string(),
     lastName: z.string(),
@@ -61,83 +62,167 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get quote item details
-    const quoteItem = await prisma.quoteItem.findUnique({
-      where: { id: input.quoteItemId },
-      include: {
-        quote: true,
-        plan: {
-          include: {
-            insurer: true,
-          },
-        },
-      },
-    });
+    // Get the saved quote the customer is buying
+    const quote = await quoteService.getQuoteByNumber(input.quoteNumber);
 
-    if (!quoteItem) {
+    if (!quote || quote.customerId !== customer.id) {
       return NextResponse.json(
         { error: 'Quote not found' },
         { status: 404 }
       );
     }
 
-    if (quoteItem.quote.status === 'EXPIRED') {
+    if (quoteService.isExpired(quote)) {
       return NextResponse.json(
         { error: 'Quote has expired. Please generate a new quote.' },
         { status: 400 }
       );
     }
 
-    // Create policy record (pending status)
-    const policy = await prisma.policy.create({
-      data: {
-        customerId: customer.id,
-        planId: quoteItem.plan.id,
-        policyNumber: generatePolicyNumber(),
-        status: 'PENDING',
-        effectiveDate: new Date(), // Will be updated after payment
-        expirationDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
-        premiumAmount: quoteItem.finalPremium,
-        deductible: 0, // TODO: Handle deductible from plan
-        coverageDetails: {
-          familyMembers: input.familyMembers || [],
-          nominee: input.nominee,
+    // Referred quotes can only be bought once an agent has approved them
+    const underwritingBlock = underwritingService.getCheckoutBlock(quote);
+    if (underwritingBlock) {
+      return NextResponse.json(
+        {
+          error: underwritingBlock,
+          underwritingDecision: quote.underwritingDecision,
+          reviewStatus: quote.underwritingReview?.status ?? null,
         },
+        { status: 403 }
+      );
+    }
+
+    const plan = await prisma.productPlan.findUnique({
+      where: { id: quote.planId },
+      include: {
+        insurer: true,
       },
     });
 
-    // Create payment record
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Plan not found' },
+        { status: 404 }
+      );
+    }
+
+    // A plan withdrawn or republished since quoting can no longer be sold
+    if (plan.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { error: 'This plan is no longer available. Please generate a new quote.' },
+        { status: 409 }
+      );
+    }
+
+    // Riders and the payment frequency were priced with the quote, so carry
+    // them over as quoted
+    const { breakdown, input: quoteInput } = quote.details as unknown as QuoteDetails;
+    const riders = breakdown.riders ?? [];
+    const riderPremium = riders.reduce((sum, rider) => sum + rider.premium, 0);
+    const planPremium = breakdown.planPremium ?? Number(quote.premiumAmount) - riderPremium;
+    const paymentFrequency = breakdown.paymentFrequency ?? 'ANNUAL';
+    const instalmentAmount = breakdown.instalmentAmount ?? Number(quote.premiumAmount);
+    const instalmentCount = breakdown.instalmentCount ?? 1;
+    const policyTerm = breakdown.policyTerm ?? 1;
+
+    const effectiveDate = new Date(); // Will be updated after payment, with the instalment due dates
+    const expirationDate = new Date(effectiveDate);
+    expirationDate.setFullYear(expirationDate.getFullYear() + policyTerm);
+
+    // Create policy record (pending status) with its instalment schedule
+    const policy = await prisma.$transaction(async (tx) => {
+      const created = await tx.policy.create({
+        data: {
+          customerId: customer.id,
+          planId: plan.id,
+          policyNumber: generatePolicyNumber(),
+          status: 'PENDING',
+          effectiveDate,
+          expirationDate,
+          premiumAmount: quote.premiumAmount,
+          deductible: plan.deductible,
+          policyTerm,
+          paymentFrequency,
+          coverageDetails: {
+            quoteNumber: quote.quoteNumber,
+            coverageAmount: Number(quote.coverageAmount),
+            planPremium,
+            yearlyPremiums: (breakdown.yearlyPremiums ?? [{ year: 1, premium: Number(quote.premiumAmount) }])
+              .map(({ year, premium }) => ({ year, premium })),
+            riders: riders.map((rider): PolicyRider => ({
+              riderId: rider.riderId,
+              type: rider.type,
+              name: rider.name,
+              coverageAmount: rider.coverageAmount,
+              premium: rider.premium,
+            })),
+            familyMembers: input.familyMembers || [],
+            nominee: input.nominee,
+          },
+        },
+      });
+
+      await instalmentService.createSchedule(
+        tx,
+        created.id,
+        instalmentAmount,
+        paymentFrequency,
+        policyTerm,
+        effectiveDate
+      );
+
+      // Waiting periods follow the conditions declared on the quote
+      await waitingPeriodService.createForPolicy(tx, created.id, plan.id, quoteInput);
+
+      return created;
+    });
+
+    // Create payment record for the first charge; later instalments are
+    // recorded as their invoices are paid
     const payment = await prisma.payment.create({
       data: {
         policyId: policy.id,
         customerId: customer.id,
-        amount: quoteItem.finalPremium,
+        amount: instalmentAmount,
         status: 'PENDING',
         paymentMethod: 'STRIPE',
       },
     });
 
+    // A one-year annual premium is charged once, itemised; instalments and
+    // multi-year terms are billed as a recurring charge of the same amount
+    const isRecurring = instalmentCount > 1;
+    const planLineItem = {
+      name: `${plan.name} - Health Insurance Policy`,
+      description: `Coverage: ₹${plan.coverageAmount}`,
+      images: plan.insurer.logo ? [plan.insurer.logo] : [],
+    };
+
     // Create Stripe checkout session
-    const stripeSession = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'inr',
-            product_data: {
-              name: `${quoteItem.plan.name} - Health Insurance Policy`,
-              description: `Coverage: ₹${quoteItem.plan.coverageAmount}`,
-              images: [quoteItem.plan.insurer.logo],
-            },
-            unit_amount: Math.round(Number(quoteItem.finalPremium) * 100), // Convert to paise
-          },
-          quantity: 1,
-        },
-      ],
-      mode: 'payment',
-      success_url: `${process.env.NEXT_PUBLIC_BASE_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${process.env.NEXT_PUBLIC_BASE_URL}/checkout/cancel`,
-      customer_email: customer.user.email,
+    const checkoutUrl = await createCheckoutSession({
+      lineItems: isRecurring
+        ? [{
+            ...planLineItem,
+            name: `${plan.name} - ${policyTerm}-year term, ${paymentFrequency.replace('_', '-').toLowerCase()} instalment`,
+            description: riders.length
+              ? `Coverage: ₹${plan.coverageAmount}, riders: ${riders.map(rider => rider.name).join(', ')}`
+              : planLineItem.description,
+            amount: Math.round(instalmentAmount * 100), // Convert to paise
+          }]
+        : [
+            { ...planLineItem, amount: Math.round(planPremium * 100) }, // Convert to paise
+            ...riders.map(rider => ({
+              name: `${rider.name} (rider)`,
+              amount: Math.round(rider.premium * 100),
+            })),
+          ],
+      currency: 'inr',
+      recurring: isRecurring
+        ? { intervalMonths: PAYMENT_FREQUENCIES[paymentFrequency].intervalMonths }
+        : undefined,
+      successUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${process.env.NEXT_PUBLIC_BASE_URL}/checkout/cancel`,
+      customerEmail: customer.user.email,
       metadata: {
         policyId: policy.id,
         paymentId: payment.id,
@@ -145,14 +230,8 @@ export async function POST(req: NextRequest) {
       },
     });
 
-    // Update quote status
-    await prisma.quote.update({
-      where: { id: quoteItem.quote.id },
-      data: { status: 'CONVERTED' },
-    });
-
     return NextResponse.json({
-      checkoutUrl: stripeSession.url,
+      checkoutUrl,
       policyId: policy.id,
     });
   } catch (error: any) {
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/rate-limit';
+import { CompareRequestSchema, compareRequestedPlans } from '@/lib/comparison';
+import { generateComparisonPDF } from '@/lib/documents/comparison-pdf';
+import { QuoteInput, QuoteInputSchema } from '@/lib/quote-engine';
+import { comparisonService } from '@/lib/services/comparison-service';
+import { quoteService, QuoteDetails } from '@/lib/services/quote-service';
+
+// The compare request, optionally priced from one of the customer's saved quotes
+const ComparisonPdfInputSchema = CompareRequestSchema.extend({
+  quoteNumber: z.string().optional(),
+});
+
+// Rate limit configuration
+const RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'compare-pdf:',
+};
+
+export const runtime = 'nodejs';
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const identifier = session?.user?.id || req.ip || 'anonymous';
+    const { success } = await rateLimit(identifier, RATE_LIMIT);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await req.json();
+    const { quoteNumber, ...input } = ComparisonPdfInputSchema.parse(body);
+
+    let quoteInput: QuoteInput | null = null;
+    let pricedAt: Date | undefined;
+    if (quoteNumber) {
+      if (!session?.user) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        );
+      }
+
+      // Agents and admins price comparisons on a customer's quote for them
+      const quote = await quoteService.getQuoteByNumber(quoteNumber);
+      const customer = quote
+        ? await prisma.customer.findUnique({ where: { id: quote.customerId }, select: { userId: true } })
+        : null;
+      const canUseQuote = session.user.role === 'ADMIN' ||
+        session.user.role === 'AGENT' ||
+        customer?.userId === session.user.id;
+      if (!quote || !canUseQuote) {
+        return NextResponse.json(
+          { error: 'Quote not found' },
+          { status: 404 }
+        );
+      }
+      quoteInput = QuoteInputSchema.parse((quote.details as unknown as QuoteDetails).input);
+      pricedAt = quoteService.getPricedAt(quote);
+    }
+
+    const result = await compareRequestedPlans(input, quoteInput?.city ?? null);
+    if ('error' in result) {
+      const { status, ...error } = result.error;
+      return NextResponse.json(error, { status });
+    }
+
+    const generatedAt = new Date();
+    const pricing = quoteInput
+      ? await comparisonService.priceComparison(input.planIds, quoteInput, { asOf: pricedAt })
+      : null;
+
+    const pdfBuffer = await generateComparisonPDF({
+      comparison: result.comparison,
+      premiums: pricing?.premiums,
+      quoteInput,
+      generatedAt,
+    });
+
+    const filename = `plan-comparison-${generatedAt.toISOString().slice(0, 10)}.pdf`;
+    return new NextResponse(pdfBuffer, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Comparison PDF error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate comparison PDF' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { rateLimit } from '@/lib/rate-limit';
+import { ComparePlanIdsSchema, getComparisonError, loadComparablePlans } from '@/lib/comparison';
+import { QuoteInput, QuoteInputSchema } from '@/lib/quote-engine';
+import { comparisonService, ComparisonSnapshot } from '@/lib/services/comparison-service';
+import { quoteService, QuoteDetails } from '@/lib/services/quote-service';
+
+// Input validation schema: price the snapshot from explicit quote inputs or
+// from one of the customer's saved quotes
+const SnapshotInputSchema = z.object({
+  planIds: ComparePlanIdsSchema,
+  quoteInput: QuoteInputSchema.optional(),
+  quoteNumber: z.string().optional(),
+}).refine(
+  (input) => Boolean(input.quoteInput) !== Boolean(input.quoteNumber),
+  'Provide either quoteInput or quoteNumber'
+);
+
+// Rate limit configuration
+const RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'compare-snapshot:',
+};
+
+const withShareUrl = (snapshot: ComparisonSnapshot) => ({
+  ...snapshot,
+  shareUrl: comparisonService.getShareUrl(snapshot),
+});
+
+async function getCustomerId(userId: string): Promise<string | null> {
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  return customer?.id ?? null;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { success } = await rateLimit(session.user.id, RATE_LIMIT);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const customerId = await getCustomerId(session.user.id);
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'Customer profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const input = SnapshotInputSchema.parse(body);
+
+    let quoteInput: QuoteInput;
+    let pricedAt: Date | undefined;
+    if (input.quoteNumber) {
+      const quote = await quoteService.getQuoteByNumber(input.quoteNumber);
+      if (!quote || quote.customerId !== customerId) {
+        return NextResponse.json(
+          { error: 'Quote not found' },
+          { status: 404 }
+        );
+      }
+      quoteInput = QuoteInputSchema.parse((quote.details as unknown as QuoteDetails).input);
+      // Priced as the quote was, so the snapshot shows the premium it names
+      pricedAt = quoteService.getPricedAt(quote);
+    } else {
+      quoteInput = input.quoteInput!;
+    }
+
+    const plans = await loadComparablePlans(input.planIds);
+
+    // Verify all plans exist and are comparable (same type)
+    const comparisonError = getComparisonError(input.planIds, plans);
+    if (comparisonError) {
+      const { status, ...error } = comparisonError;
+      return NextResponse.json(error, { status });
+    }
+
+    const snapshot = await comparisonService.createSnapshot(customerId, plans, quoteInput, { asOf: pricedAt });
+
+    return NextResponse.json(withShareUrl(snapshot), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Comparison snapshot error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save comparison' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const customerId = await getCustomerId(session.user.id);
+    if (!customerId) {
+      return NextResponse.json(
+        { error: 'Customer profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const snapshots = await comparisonService.getSnapshots(customerId);
+
+    return NextResponse.json({ snapshots: snapshots.map(withShareUrl) });
+  } catch (error) {
+    console.error('Comparison snapshots fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved comparisons' },
+      { status: 500 }
+    );
+  }
+}
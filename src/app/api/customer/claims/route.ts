@@ -3,6 +3,8 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { NextResponse } from 'next/server'
 import { UserRole, ClaimStatus } from '@prisma/client'
+import { claimService } from '@/lib/services/claims-service'
+import { z } from 'zod'
 
 // Mark this route as dynamic
 export const dynamic = 'force-dynamic'
@@ -107,4 +109,49 @@ export async function GET(request: Request) {
     console.error('Claims fetch error:', error)
     return new NextResponse('Internal Server Error', { status: 500 })
   }
-} 
\ No newline at end of file
+}
+
+// Submit a claim; one inside a waiting period comes back rejected with the reasons
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    if (session.user.role !== UserRole.CUSTOMER) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const body = await request.json()
+    const { claim, rejectionReasons } = await claimService.submitClaim(session.user.id, body)
+
+    return NextResponse.json({ claim, rejectionReasons }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Policy not found or unauthorized') {
+      return NextResponse.json({ error: 'Policy not found' }, { status: 404 })
+    }
+
+    if (error instanceof Error && error.message === 'Document not found or unauthorized') {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === 'Policy is not in force' || error.message === 'Incident date is outside the policy period')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Claim submission error:', error)
+    return new NextResponse('Internal Server Error', { status: 500 })
+  }
+}
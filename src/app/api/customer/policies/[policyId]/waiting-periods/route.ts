@@ -0,0 +1,46 @@
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { NextResponse } from 'next/server'
+import { UserRole } from '@prisma/client'
+import { waitingPeriodService } from '@/lib/services/waiting-period-service'
+
+// Mark this route as dynamic
+export const dynamic = 'force-dynamic'
+
+// When each waiting period on the policy ends and each benefit becomes claimable
+export async function GET(
+  request: Request,
+  { params }: { params: { policyId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    if (session.user.role !== UserRole.CUSTOMER) {
+      return new NextResponse('Forbidden', { status: 403 })
+    }
+
+    const policy = await prisma.policy.findFirst({
+      where: {
+        id: params.policyId,
+        customer: { userId: session.user.id },
+      },
+      select: { id: true },
+    })
+
+    if (!policy) {
+      return new NextResponse('Policy not found', { status: 404 })
+    }
+
+    const schedule = await waitingPeriodService.getSchedule(policy.id)
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    console.error('Waiting periods fetch error:', error)
+    return new NextResponse('Internal Server Error', { status: 500 })
+  }
+}
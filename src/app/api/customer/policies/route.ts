@@ -82,6 +82,18 @@ export async function GET(request: Request) {
               approvedAmount: true,
             },
           },
+          instalments: {
+            select: {
+              sequence: true,
+              dueDate: true,
+              amount: true,
+              status: true,
+              paidAt: true,
+            },
+            orderBy: {
+              sequence: 'asc',
+            },
+          },
           plan: {
             select: {
               name: true,
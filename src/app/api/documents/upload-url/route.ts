@@ -8,6 +8,7 @@ import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import crypto from 'crypto';
 import { rateLimit } from '@/lib/rate-limit';
 import { DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { Prisma, UserRole } from '@prisma/client';
 
 // Initialize S3 client
 const s3Client = new S3Client({
@@ -117,11 +118,59 @@ const uploadRequestSchema = z.object({
   mimeType: z.enum(Object.keys(ALLOWED_FILE_TYPES) as [string, ...string[]], {
     errorMap: () => ({ message: 'Unsupported file type' }),
   }),
-  entityType: z.enum(['CLAIM', 'POLICY', 'TICKET']),
+  entityType: z.enum(['CLAIM', 'POLICY', 'TICKET', 'PRE_AUTHORIZATION']),
   entityId: z.string().uuid(),
   hash: z.string().optional(), // File hash for deduplication
 });
 
+type DocumentOwner = Pick<Prisma.DocumentUncheckedCreateInput, 'claimId' | 'ticketId' | 'preAuthorizationId'>;
+
+type UploadEntityType = z.infer<typeof uploadRequestSchema>['entityType'];
+
+// Find the record a document is for, if the user may attach to it. Customers
+// may only attach to their own records; agents and admins to any, and only
+// they work pre-authorizations. Null when missing or not allowed.
+async function findDocumentOwner(
+  user: { id: string; role: UserRole },
+  entityType: UploadEntityType,
+  entityId: string
+): Promise<DocumentOwner | null> {
+  const isAgent = user.role === 'AGENT' || user.role === 'ADMIN';
+  const ownedBy = isAgent ? {} : { customer: { userId: user.id } };
+
+  switch (entityType) {
+    case 'CLAIM': {
+      const claim = await prisma.claim.findFirst({
+        where: { id: entityId, policy: ownedBy },
+        select: { id: true },
+      });
+      return claim && { claimId: claim.id };
+    }
+    case 'POLICY': {
+      const policy = await prisma.policy.findFirst({
+        where: { id: entityId, ...ownedBy },
+        select: { id: true },
+      });
+      return policy && {};
+    }
+    case 'TICKET': {
+      const ticket = await prisma.supportTicket.findFirst({
+        where: { id: entityId, ...ownedBy },
+        select: { id: true },
+      });
+      return ticket && { ticketId: ticket.id };
+    }
+    case 'PRE_AUTHORIZATION': {
+      if (!isAgent) return null;
+      const preAuthorization = await prisma.preAuthorization.findUnique({
+        where: { id: entityId },
+        select: { id: true },
+      });
+      return preAuthorization && { preAuthorizationId: preAuthorization.id };
+    }
+  }
+}
+
 export async function POST(request: Request) {
   try {
     // Check authentication
@@ -145,6 +194,11 @@ export async function POST(request: Request) {
       return new NextResponse('File type does not match extension', { status: 400 });
     }
 
+    const owner = await findDocumentOwner(session.user, body.entityType, body.entityId);
+    if (!owner) {
+      return new NextResponse('Not found', { status: 404 });
+    }
+
     // Check for duplicate file if hash provided
     if (body.hash) {
       const existingDocument = await prisma.document.findFirst({
@@ -172,6 +226,7 @@ export async function POST(request: Request) {
       data: {
         entityType: body.entityType,
         entityId: body.entityId,
+        ...owner,
         fileName: body.fileName,
         fileSize: body.fileSize,
         mimeType: body.mimeType,
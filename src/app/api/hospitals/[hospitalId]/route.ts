@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { UserRole } from '@prisma/client';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { hospitalService } from '@/lib/services/hospital-service';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { hospitalId: string } }
+) {
+  try {
+    // Signed-in customers also see whether their policies are cashless here
+    const session = await getServerSession(authOptions);
+    const customer = session?.user?.role === UserRole.CUSTOMER
+      ? await prisma.customer.findUnique({
+          where: { userId: session.user.id },
+          select: { id: true },
+        })
+      : null;
+
+    const hospital = await hospitalService.getHospitalProfile(params.hospitalId, customer?.id);
+    if (!hospital) {
+      return NextResponse.json({ error: 'Hospital not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(hospital);
+  } catch (error) {
+    console.error('Hospital details fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch hospital details' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { searchHospitals } from '@/lib/search';
 
 // Input validation schema
 const FilterSchema = z.object({
   city: z.string().optional(),
   state: z.string().optional(),
+  pincode: z.string().optional(), // Searches around its centre when lat/lng are not given
   specialties: z.array(z.string()).optional(),
   planId: z.string().optional(),
   cashless: z.boolean().optional(),
   search: z.string().optional(),
-  lat: z.number().optional(),
-  lng: z.number().optional(),
-  radius: z.number().optional(), // in kilometers
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  radius: z.number().positive().max(100).optional(), // in kilometers
   cursor: z.string().optional(),
   limit: z.number().min(1).max(50).default(10),
 });
@@ -35,156 +36,12 @@ export async function GET(req: NextRequest) {
       specialties: params.specialties ? JSON.parse(params.specialties) : undefined,
     });
 
-    // Build where clause for filtering
-    const where: any = {
-      AND: [],
-    };
-
-    // Location-based filtering
-    if (filters.city) {
-      where.AND.push({
-        address: {
-          path: ['city'],
-          equals: filters.city,
-        },
-      });
-    }
-
-    if (filters.state) {
-      where.AND.push({
-        address: {
-          path: ['state'],
-          equals: filters.state,
-        },
-      });
-    }
-
-    // Specialty filtering
-    if (filters.specialties?.length) {
-      where.AND.push({
-        specialties: {
-          hasSome: filters.specialties,
-        },
-      });
-    }
-
-    // Plan and cashless filtering
-    if (filters.planId) {
-      where.AND.push({
-        networkPlans: {
-          some: {
-            planId: filters.planId,
-            ...(filters.cashless !== undefined && { cashless: filters.cashless }),
-          },
-        },
-      });
-    }
-
-    // Search filtering
-    if (filters.search) {
-      where.AND.push({
-        OR: [
-          { name: { contains: filters.search, mode: 'insensitive' } },
-          {
-            specialties: {
-              hasSome: [filters.search],
-            },
-          },
-        ],
-      });
-    }
-
-    // Location-based radius search using Haversine formula
-    if (filters.lat && filters.lng && filters.radius) {
-      // Calculate bounding box for rough filtering
-      const latRange = filters.radius / 111; // Approximate km per degree latitude
-      const lngRange = filters.radius / (111 * Math.cos(filters.lat * Math.PI / 180));
-      
-      where.AND.push({
-        AND: [
-          {
-            location: {
-              path: ['lat'],
-              gte: filters.lat - latRange,
-            },
-          },
-          {
-            location: {
-              path: ['lat'],
-              lte: filters.lat + latRange,
-            },
-          },
-          {
-            location: {
-              path: ['lng'],
-              gte: filters.lng - lngRange,
-            },
-          },
-          {
-            location: {
-              path: ['lng'],
-              lte: filters.lng + lngRange,
-            },
-          },
-        ],
-      });
-    }
-
-    // Fetch hospitals with pagination
-    const hospitals = await prisma.hospital.findMany({
-      where,
-      take: filters.limit + 1, // Take one extra to determine if there are more results
-      cursor: filters.cursor ? { id: filters.cursor } : undefined,
-      include: {
-        networkPlans: {
-          where: filters.planId ? { planId: filters.planId } : undefined,
-          include: {
-            plan: {
-              select: {
-                id: true,
-                name: true,
-                insurer: {
-                  select: {
-                    id: true,
-                    name: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
+    const { lat, lng, ...options } = filters;
+    const response = await searchHospitals({
+      ...options,
+      location: lat !== undefined && lng !== undefined ? { lat, lng } : undefined,
     });
 
-    // Check if there are more results
-    const hasMore = hospitals.length > filters.limit;
-    const results = hasMore ? hospitals.slice(0, -1) : hospitals;
-
-    // Format response
-    const response = {
-      hospitals: results.map(hospital => ({
-        id: hospital.id,
-        name: hospital.name,
-        address: hospital.address,
-        location: hospital.location,
-        specialties: hospital.specialties,
-        facilities: hospital.facilities,
-        emergencyServices: hospital.emergencyServices,
-        rating: hospital.rating,
-        networkPlans: hospital.networkPlans.map(np => ({
-          planId: np.plan.id,
-          planName: np.plan.name,
-          insurerId: np.plan.insurer.id,
-          insurerName: np.plan.insurer.name,
-          cashless: np.cashless,
-        })),
-      })),
-      pagination: {
-        hasMore,
-        nextCursor: hasMore ? results[results.length - 1].id : null,
-      },
-    };
-
     return NextResponse.json(response);
   } catch (error: any) {
     console.error('Hospitals fetch error:', error);
@@ -204,10 +61,9 @@ export async function GET(req: NextRequest) {
             id: '1',
             name: 'City General Hospital',
             address: { city: 'Mumbai', state: 'Maharashtra', pincode: '400001' },
-            location: { lat: 19.0760, lng: 72.8777 },
+            latitude: 19.0760,
+            longitude: 72.8777,
             specialties: ['Cardiology', 'Orthopedics', 'Emergency Medicine', 'General Surgery'],
-            facilities: ['ICU', 'Emergency Room', '24/7 Pharmacy', 'Ambulance Service'],
-            emergencyServices: true,
             rating: 4.3,
             networkPlans: [
               {
@@ -230,10 +86,9 @@ export async function GET(req: NextRequest) {
             id: '2',
             name: 'Metro Medical Center',
             address: { city: 'Delhi', state: 'Delhi', pincode: '110001' },
-            location: { lat: 28.7041, lng: 77.1025 },
+            latitude: 28.7041,
+            longitude: 77.1025,
             specialties: ['Neurology', 'Oncology', 'Radiology', 'Pediatrics'],
-            facilities: ['MRI', 'CT Scan', 'Blood Bank', 'Dialysis Unit'],
-            emergencyServices: true,
             rating: 4.6,
             networkPlans: [
               {
@@ -256,10 +111,9 @@ export async function GET(req: NextRequest) {
             id: '3',
             name: 'Advanced Care Hospital',
             address: { city: 'Bangalore', state: 'Karnataka', pincode: '560001' },
-            location: { lat: 12.9716, lng: 77.5946 },
+            latitude: 12.9716,
+            longitude: 77.5946,
             specialties: ['Gastroenterology', 'Pulmonology', 'Dermatology', 'ENT'],
-            facilities: ['Operation Theater', 'NICU', 'Physiotherapy', 'Laboratory'],
-            emergencyServices: false,
             rating: 4.1,
             networkPlans: [
               {
@@ -279,6 +133,7 @@ export async function GET(req: NextRequest) {
             ]
           }
         ],
+        center: null,
         pagination: {
           hasMore: false,
           nextCursor: null
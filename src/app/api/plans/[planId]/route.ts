@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { notFound } from 'next/navigation';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
 
 export async function GET(
   req: NextRequest,
@@ -33,6 +35,23 @@ export async function GET(
             waitingPeriod: true,
           },
         },
+        waitingPeriods: {
+          select: {
+            id: true,
+            type: true,
+            days: true,
+            conditions: true,
+            description: true,
+            benefit: {
+              select: {
+                name: true,
+              },
+            },
+          },
+          orderBy: {
+            days: 'asc',
+          },
+        },
         networkHospitals: {
           select: {
             hospital: {
@@ -40,10 +59,9 @@ export async function GET(
                 id: true,
                 name: true,
                 address: true,
-                location: true,
+                latitude: true,
+                longitude: true,
                 specialties: true,
-                facilities: true,
-                emergencyServices: true,
                 rating: true,
               },
             },
@@ -64,11 +82,20 @@ export async function GET(
       return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
     }
 
+    // Archived plans stay readable for existing policyholders; drafts are admin-only
+    if (plan.status === 'DRAFT') {
+      const session = await getServerSession(authOptions);
+      if (session?.user?.role !== 'ADMIN') {
+        return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+      }
+    }
+
     // Get related plans from same insurer
     const relatedPlans = await prisma.productPlan.findMany({
       where: {
         insurerId: plan.insurerId,
         id: { not: planId },
+        status: 'ACTIVE',
       },
       take: 3,
       include: {
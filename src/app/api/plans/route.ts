@@ -1,20 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { rateLimit } from '@/lib/rate-limit';
-
-// Input validation schema
-const FilterSchema = z.object({
-  insurerId: z.string().optional(),
-  planType: z.enum(['INDIVIDUAL', 'FAMILY', 'GROUP', 'MEDICARE', 'SENIOR_CITIZEN']).optional(),
-  minCoverage: z.number().optional(),
-  maxCoverage: z.number().optional(),
-  minPremium: z.number().optional(),
-  maxPremium: z.number().optional(),
-  search: z.string().optional(),
-  limit: z.number().min(1).max(50).default(10),
-  page: z.number().min(1).default(1),
-});
+import { parsePlanQuery, queryPlans } from '@/lib/plan-query';
 
 // Rate limit configuration
 const RATE_LIMIT = {
@@ -38,101 +25,17 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    const url = new URL(req.url);
-    const params = Object.fromEntries(url.searchParams.entries());
-    
-    // Parse and validate query parameters
-    const filters = FilterSchema.parse({
-      ...params,
-      minCoverage: params.minCoverage ? Number(params.minCoverage) : undefined,
-      maxCoverage: params.maxCoverage ? Number(params.maxCoverage) : undefined,
-      minPremium: params.minPremium ? Number(params.minPremium) : undefined,
-      maxPremium: params.maxPremium ? Number(params.maxPremium) : undefined,
-      limit: params.limit ? Number(params.limit) : 10,
-      page: params.page ? Number(params.page) : 1,
-    });
-
-    // Build where clause for filtering
-    const where: any = {
-      AND: [],
-    };
-
-    if (filters.insurerId) {
-      where.AND.push({ insurerId: filters.insurerId });
-    }
-
-    if (filters.planType) {
-      where.AND.push({ planType: filters.planType });
-    }
-
-    if (filters.minCoverage || filters.maxCoverage) {
-      where.AND.push({
-        coverageAmount: {
-          gte: filters.minCoverage,
-          lte: filters.maxCoverage,
-        },
-      });
-    }
-
-    if (filters.minPremium || filters.maxPremium) {
-      where.AND.push({
-        basePremium: {
-          gte: filters.minPremium,
-          lte: filters.maxPremium,
-        },
-      });
-    }
-
-    // Add search filter if provided
-    if (filters.search) {
-      where.AND.push({
-        OR: [
-          { name: { contains: filters.search, mode: 'insensitive' } },
-          { description: { contains: filters.search, mode: 'insensitive' } },
-        ],
-      });
-    }
-
-    // Calculate pagination
-    const skip = (filters.page - 1) * filters.limit;
-
-    // Fetch plans with pagination
-    const [plans, total] = await Promise.all([
-      prisma.productPlan.findMany({
-        where,
-        skip,
-        take: filters.limit,
-        include: {
-          insurer: {
-            select: {
-              id: true,
-              name: true,
-              logo: true,
-              rating: true,
-            },
-          },
-          benefits: true,
-          _count: {
-            select: {
-              policies: true,
-              networkHospitals: true,
-            },
-          },
-        },
-        orderBy: {
-          coverageAmount: 'asc',
-        },
-      }),
-      prisma.productPlan.count({ where }),
-    ]);
+    // Same filters, sorting and facets as PlanService.getPlans
+    const query = parsePlanQuery(new URL(req.url).searchParams);
+    const { plans, total, nextCursor, facets } = await queryPlans(query);
 
     return NextResponse.json({
       plans,
+      facets,
       pagination: {
         total,
-        pages: Math.ceil(total / filters.limit),
-        currentPage: filters.page,
-        limit: filters.limit,
+        nextCursor,
+        limit: query.limit,
       },
     });
   } catch (error) {
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { preAuthorizationService } from '@/lib/services/pre-authorization-service';
+
+export const dynamic = 'force-dynamic';
+
+// Close the admission with the final bill and raise its cashless claim
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { preAuthId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || (session.user.role !== 'AGENT' && session.user.role !== 'ADMIN')) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json();
+    const { preAuthorization, claim } = await preAuthorizationService.dischargePatient(params.preAuthId, body);
+
+    return NextResponse.json({ preAuthorization, claim }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Pre-authorization not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message === 'Discharge date is before admission') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes('pre-authorization cannot be') ||
+        error.message === 'Pre-authorization has already been closed')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Pre-authorization discharge error:', error);
+    return NextResponse.json(
+      { error: 'Failed to discharge pre-authorization' },
+      { status: 500 }
+    );
+  }
+}
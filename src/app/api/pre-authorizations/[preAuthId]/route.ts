@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { PreAuthStatusUpdateSchema } from '@/lib/pre-authorization';
+import { preAuthorizationService } from '@/lib/services/pre-authorization-service';
+
+export const dynamic = 'force-dynamic';
+
+const isAgent = (role?: string) => role === 'AGENT' || role === 'ADMIN';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { preAuthId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || !isAgent(session.user.role)) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const preAuthorization = await preAuthorizationService.getPreAuthorizationById(params.preAuthId);
+    if (!preAuthorization) {
+      return NextResponse.json({ error: 'Pre-authorization not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(preAuthorization);
+  } catch (error) {
+    console.error('Pre-authorization fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pre-authorization' },
+      { status: 500 }
+    );
+  }
+}
+
+// Record the patient's admission, or cancel an admission that will not go ahead
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { preAuthId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || !isAgent(session.user.role)) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json();
+    const { status } = PreAuthStatusUpdateSchema.parse(body);
+
+    const preAuthorization = await preAuthorizationService.updateStatus(params.preAuthId, status);
+
+    return NextResponse.json(preAuthorization);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Pre-authorization not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes('pre-authorization cannot be')) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Pre-authorization status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update pre-authorization' },
+      { status: 500 }
+    );
+  }
+}
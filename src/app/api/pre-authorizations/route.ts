@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { PreAuthStatus } from '@prisma/client';
+import { z } from 'zod';
+import { preAuthorizationService } from '@/lib/services/pre-authorization-service';
+
+export const dynamic = 'force-dynamic';
+
+const isAgent = (role?: string) => role === 'AGENT' || role === 'ADMIN';
+
+// Pre-authorizations by status, hospital or policy number
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || !isAgent(session.user.role)) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { searchParams } = req.nextUrl;
+    const status = searchParams.get('status') as PreAuthStatus | null;
+    if (status && !Object.values(PreAuthStatus).includes(status)) {
+      return NextResponse.json({ error: 'Invalid pre-authorization status' }, { status: 400 });
+    }
+
+    const preAuthorizations = await preAuthorizationService.getPreAuthorizations({
+      status: status ?? undefined,
+      hospitalId: searchParams.get('hospitalId') ?? undefined,
+      policyNumber: searchParams.get('policyNumber') ?? undefined,
+    });
+
+    return NextResponse.json({ preAuthorizations });
+  } catch (error) {
+    console.error('Pre-authorization list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pre-authorizations' },
+      { status: 500 }
+    );
+  }
+}
+
+// Submit a planned admission; it comes back approved, partly approved or rejected with the reasons
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || !isAgent(session.user.role)) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json();
+    const { preAuthorization, reasons } = await preAuthorizationService.submitPreAuthorization(
+      session.user.id,
+      body
+    );
+
+    return NextResponse.json({ preAuthorization, reasons }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (error.message === 'Policy not found' || error.message === 'Hospital not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message === 'Document not found or unauthorized') {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === 'Policy is not in force' || error.message === 'Admission date is outside the policy period')
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Pre-authorization submission error:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit pre-authorization' },
+      { status: 500 }
+    );
+  }
+}
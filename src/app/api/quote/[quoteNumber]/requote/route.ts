@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { rateLimit } from '@/lib/rate-limit'
+import { quoteService } from '@/lib/services/quote-service'
+
+export const dynamic = 'force-dynamic'
+
+// Re-price an expired quote with today's rating tables under a new quote number
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { quoteNumber: string } }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { success } = await rateLimit(session.user.id, {
+      maxRequests: 10,
+      windowMs: 60 * 1000, // 1 minute
+      prefix: 'requote:'
+    })
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { userId: session.user.id }
+    })
+    const quote = await quoteService.getQuoteByNumber(params.quoteNumber)
+
+    if (!quote || !customer || customer.id !== quote.customerId) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    if (!quoteService.isExpired(quote)) {
+      return NextResponse.json(
+        {
+          error: 'Quote is still valid',
+          details: { quoteNumber: quote.quoteNumber, expiresAt: quote.expiresAt },
+        },
+        { status: 409 }
+      )
+    }
+
+    const requoted = await quoteService.requote(quote)
+
+    return NextResponse.json(requoted, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Plan is no longer available') {
+      return NextResponse.json({ error: error.message }, { status: 410 })
+    }
+
+    console.error('Re-quote error:', error)
+    return NextResponse.json(
+      { error: 'Failed to re-quote' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { quoteService } from '@/lib/services/quote-service'
+import { underwritingService } from '@/lib/services/underwriting-service'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { quoteNumber: string } }
+) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const quote = await quoteService.getQuoteByNumber(params.quoteNumber)
+
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    // Customers can only see their own quotes; agents and admins see all
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'AGENT') {
+      const customer = await prisma.customer.findUnique({
+        where: { userId: session.user.id }
+      })
+
+      if (!customer || customer.id !== quote.customerId) {
+        return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+      }
+    }
+
+    return NextResponse.json({
+      ...quote,
+      expired: quoteService.isExpired(quote),
+      checkoutBlockedReason: underwritingService.getCheckoutBlock(quote),
+    })
+  } catch (error) {
+    console.error('Error fetching quote:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch quote' },
+      { status: 500 }
+    )
+  }
+}
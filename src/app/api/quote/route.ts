@@ -2,21 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { rateLimit } from '@/lib/rate-limit'
-import { calculateQuote } from '@/lib/quote-engine'
+import { calculateQuote, QuoteInputSchema } from '@/lib/quote-engine'
 import { prisma } from '@/lib/prisma'
+import { quoteService } from '@/lib/services/quote-service'
 import { z } from 'zod'
 
-// Quote request schema
-const quoteSchema = z.object({
-  age: z.number().min(0).max(120),
-  gender: z.enum(['MALE', 'FEMALE', 'OTHER']),
-  city: z.string().min(1),
-  hasMedicalConditions: z.boolean(),
-  medicalConditions: z.array(z.string()).optional(),
-  familySize: z.number().min(1).max(10),
-  coverageAmount: z.number().min(100000),
-})
-
 export async function POST(request: NextRequest) {
   try {
     // Rate limiting based on IP for anonymous users, user ID for authenticated
@@ -37,12 +27,12 @@ export async function POST(request: NextRequest) {
 
     // Parse and validate request body
     const body = await request.json()
-    const validatedData = quoteSchema.parse(body)
+    const validatedData = QuoteInputSchema.parse(body)
 
     // Calculate quote using the quote engine
     const quote = await calculateQuote(validatedData)
 
-    // For authenticated users, store the quote in the database
+    // For authenticated users, store one quote per recommended plan
     if (session?.user) {
       // First, we need to get the customer ID for the authenticated user
       const customer = await prisma.customer.findUnique({
@@ -50,20 +40,8 @@ export async function POST(request: NextRequest) {
       })
 
       if (customer) {
-        await prisma.quote.create({
-          data: {
-            customerId: customer.id,
-            age: validatedData.age,
-            city: validatedData.city,
-            coverageAmount: validatedData.coverageAmount,
-            familySize: validatedData.familySize,
-            medicalHistory: validatedData.hasMedicalConditions ? {
-              conditions: validatedData.medicalConditions || []
-            } : undefined,
-            status: 'ACTIVE',
-            expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-          },
-        })
+        const recommendedPlans = await quoteService.saveQuotes(customer.id, validatedData, quote)
+        return NextResponse.json({ ...quote, recommendedPlans })
       }
     }
 
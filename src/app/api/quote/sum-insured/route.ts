@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { rateLimit } from '@/lib/rate-limit'
+import { optimizeSumInsured, SumInsuredInputSchema } from '@/lib/sum-insured'
+import { z } from 'zod'
+
+// Suggest a sum insured and show the premium at each coverage level
+export async function POST(request: NextRequest) {
+  try {
+    // Each request prices several coverage levels, so keep the limit tighter
+    const session = await getServerSession(authOptions)
+    const identifier = session?.user?.id || request.ip || 'anonymous'
+    const { success } = await rateLimit(identifier, {
+      maxRequests: 5,
+      windowMs: 60 * 1000, // 1 minute
+      prefix: 'sum-insured:'
+    })
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const body = await request.json()
+    const { coverageLevels, ...input } = SumInsuredInputSchema.parse(body)
+
+    const result = await optimizeSumInsured(input, coverageLevels)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Sum insured optimizer error:', error)
+    return NextResponse.json(
+      { error: 'Failed to suggest a sum insured' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { NextResponse } from 'next/server'
+import { Prisma, UserRole } from '@prisma/client'
+import { z } from 'zod'
+import { rateLimit } from '@/lib/rate-limit'
+import { getRecommendations, normalizeWeights, ScoringWeightsSchema } from '@/lib/recommendation'
+
+// Rate limit configuration; sliders save as they move so allow a burst
+const RATE_LIMIT = {
+  maxRequests: 60,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'recommendations:',
+};
+
+const RecommendationQuerySchema = z.object({
+  budget: z.coerce.number().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+})
+
+const SaveWeightsSchema = RecommendationQuerySchema.extend({
+  weights: ScoringWeightsSchema,
+})
+
+// Mark this route as dynamic
+export const dynamic = 'force-dynamic'
+
+async function getCustomer() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    return { response: new NextResponse('Unauthorized', { status: 401 }) }
+  }
+
+  if (session.user.role !== UserRole.CUSTOMER) {
+    return { response: new NextResponse('Forbidden', { status: 403 }) }
+  }
+
+  // Apply rate limiting
+  const { success } = await rateLimit(session.user.id, RATE_LIMIT)
+
+  if (!success) {
+    return {
+      response: NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      ),
+    }
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { userId: session.user.id },
+    select: { id: true },
+  })
+
+  if (!customer) {
+    return { response: new NextResponse('Customer not found', { status: 404 }) }
+  }
+
+  return { customer }
+}
+
+export async function GET(request: Request) {
+  try {
+    const { customer, response } = await getCustomer()
+    if (!customer) return response
+
+    const { searchParams } = new URL(request.url)
+    const options = RecommendationQuerySchema.parse({
+      budget: searchParams.get('budget') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    })
+
+    // Ranked with the customer's saved weights, or the defaults
+    return NextResponse.json(await getRecommendations(customer.id, options))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Recommendations fetch error:', error)
+    return new NextResponse('Internal Server Error', { status: 500 })
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const { customer, response } = await getCustomer()
+    if (!customer) return response
+
+    const { weights, ...options } = SaveWeightsSchema.parse(await request.json())
+    const normalized = normalizeWeights(weights)
+
+    await prisma.customer.update({
+      where: { id: customer.id },
+      data: { recommendationWeights: normalized as unknown as Prisma.InputJsonValue },
+    })
+
+    return NextResponse.json(
+      await getRecommendations(customer.id, { ...options, weights: normalized })
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Recommendation weights update error:', error)
+    return new NextResponse('Internal Server Error', { status: 500 })
+  }
+}
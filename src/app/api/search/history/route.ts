@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { rateLimit } from '@/lib/rate-limit';
+import { recordSearch } from '@/lib/search-suggestions';
+
+const RecordSearchSchema = z.object({
+  query: z.string().trim().min(2).max(100),
+});
+
+// Rate limit configuration
+const RATE_LIMIT = {
+  maxRequests: 30,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'search-history:',
+};
+
+export const dynamic = 'force-dynamic';
+
+// Records a search the user ran, for their recent and popular suggestions
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { success } = await rateLimit(session.user.id, RATE_LIMIT);
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const { query } = RecordSearchSchema.parse(await req.json());
+    await recordSearch(session.user.id, query);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Search history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record search' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { UserRole } from '@prisma/client';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { rateLimit } from '@/lib/rate-limit';
+import { globalSearch, parseSearchQuery } from '@/lib/search';
+
+// Rate limit configuration
+const RATE_LIMIT = {
+  maxRequests: 30,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'search:',
+};
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    // Apply rate limiting
+    const identifier = session?.user?.id || req.ip || 'anonymous';
+    const { success } = await rateLimit(identifier, RATE_LIMIT);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const query = parseSearchQuery(new URL(req.url).searchParams);
+
+    // Signed-in customers also search their own policies and claims
+    const customer = session?.user?.role === UserRole.CUSTOMER
+      ? await prisma.customer.findUnique({
+          where: { userId: session.user.id },
+          select: { id: true },
+        })
+      : null;
+
+    const results = await globalSearch(query, customer?.id ?? null);
+
+    return NextResponse.json({ query: query.q, results });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Search error:', error);
+    return NextResponse.json(
+      { error: 'Search failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { rateLimit } from '@/lib/rate-limit';
+import { getSearchHistory, getSuggestions, SuggestQuerySchema } from '@/lib/search-suggestions';
+
+// Rate limit configuration; called on every keystroke
+const RATE_LIMIT = {
+  maxRequests: 120,
+  windowMs: 60 * 1000, // 1 minute
+  prefix: 'search-suggest:',
+};
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    // Apply rate limiting
+    const identifier = session?.user?.id || req.ip || 'anonymous';
+    const { success } = await rateLimit(identifier, RATE_LIMIT);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const { q, limit } = SuggestQuerySchema.parse({
+      q: searchParams.get('q') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
+
+    // Signed-in users also get their own recent and popular searches
+    const [suggestions, history] = await Promise.all([
+      getSuggestions(q, limit),
+      session?.user ? getSearchHistory(session.user.id, q) : null,
+    ]);
+
+    return NextResponse.json({
+      query: q,
+      suggestions,
+      recent: history?.recent ?? [],
+      popular: history?.popular ?? [],
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Search suggestions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suggestions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { underwritingService } from '@/lib/services/underwriting-service';
+
+export const dynamic = 'force-dynamic';
+
+const ReviewDecisionSchema = z.object({
+  status: z.enum(['APPROVED', 'DECLINED']),
+  notes: z.string().max(2000).optional(),
+});
+
+const isReviewer = (role?: string) => role === 'AGENT' || role === 'ADMIN';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || !isReviewer(session.user.role)) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const review = await underwritingService.getReviewById(params.reviewId);
+    if (!review) {
+      return NextResponse.json({ error: 'Review not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(review);
+  } catch (error) {
+    console.error('Underwriting review fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch underwriting review' },
+      { status: 500 }
+    );
+  }
+}
+
+// Approve or decline a referred quote; approval unblocks checkout
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || !isReviewer(session.user.role)) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const body = await req.json();
+    const outcome = ReviewDecisionSchema.parse(body);
+
+    const review = await underwritingService.completeReview(params.reviewId, session.user.id, outcome);
+
+    return NextResponse.json(review);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Review not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message === 'Review has already been completed') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Underwriting review error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record underwriting decision' },
+      { status: 500 }
+    );
+  }
+}
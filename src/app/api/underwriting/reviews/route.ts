@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { ReviewStatus } from '@prisma/client';
+import { underwritingService } from '@/lib/services/underwriting-service';
+
+export const dynamic = 'force-dynamic';
+
+// Referred quotes waiting for (or decided by) an agent
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || (session.user.role !== 'AGENT' && session.user.role !== 'ADMIN')) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const status = req.nextUrl.searchParams.get('status') as ReviewStatus | null;
+    if (status && !Object.values(ReviewStatus).includes(status)) {
+      return NextResponse.json({ error: 'Invalid review status' }, { status: 400 });
+    }
+
+    const reviews = await underwritingService.getReviews(status ?? undefined);
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Underwriting review list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch underwriting reviews' },
+      { status: 500 }
+    );
+  }
+}
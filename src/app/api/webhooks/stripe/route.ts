@@ -5,6 +5,8 @@ import Stripe from 'stripe';
 import { sendEmail } from '@/lib/email';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { generatePolicyPDF } from '@/lib/documents/pdf';
+import { cancelSubscriptionAtPeriodEnd } from '@/lib/payment';
+import { instalmentService } from '@/lib/services/instalment-service';
 
 // Initialize Stripe
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -57,6 +59,18 @@ export async function POST(req: NextRequest) {
         await handleRefund(event.data.object as Stripe.Charge);
         break;
 
+      case 'invoice.paid':
+        await handleInstalmentPaid(event.data.object as Stripe.Invoice);
+        break;
+
+      case 'invoice.payment_failed':
+        await handleInstalmentFailed(event.data.object as Stripe.Invoice);
+        break;
+
+      case 'customer.subscription.deleted':
+        await handleSubscriptionEnded(event.data.object as Stripe.Subscription);
+        break;
+
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
@@ -85,30 +99,50 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
     where: { id: paymentId },
     data: {
       status: 'COMPLETED',
-      stripeSessionId: session.id,
-      stripePaymentId: session.payment_intent as string,
+      transactionId: (session.payment_intent ?? session.subscription) as string,
     },
   });
 
-  // Activate policy
-  const policy = await prisma.policy.update({
+  // A one-off payment covers the single annual instalment; instalment plans
+  // record each payment from their invoices
+  if (session.mode === 'payment') {
+    await instalmentService.recordPayment(policyId);
+  }
+
+  // Cover runs for the full term from the date payment went through
+  const pending = await prisma.policy.findUnique({
     where: { id: policyId },
-    data: {
-      status: 'ACTIVE',
-      effectiveDate: new Date(), // Set effective date to now
-    },
-    include: {
-      customer: {
-        include: {
-          user: true,
-        },
+    select: { policyTerm: true },
+  });
+  const effectiveDate = new Date();
+  const expirationDate = new Date(effectiveDate);
+  expirationDate.setFullYear(expirationDate.getFullYear() + (pending?.policyTerm ?? 1));
+
+  // Activate policy, with instalments falling due from the new start date
+  const policy = await prisma.$transaction(async (tx) => {
+    await instalmentService.rescheduleFrom(tx, policyId, effectiveDate);
+
+    return tx.policy.update({
+      where: { id: policyId },
+      data: {
+        status: 'ACTIVE',
+        effectiveDate, // Set effective date to now
+        expirationDate,
+        ...(session.subscription && { stripeSubscriptionId: session.subscription as string }),
       },
-      plan: {
-        include: {
-          insurer: true,
+      include: {
+        customer: {
+          include: {
+            user: true,
+          },
+        },
+        plan: {
+          include: {
+            insurer: true,
+          },
         },
       },
-    },
+    });
   });
 
   // Generate policy documents
@@ -138,7 +172,7 @@ async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
     where: { id: paymentId },
     data: {
       status: 'FAILED',
-      stripePaymentId: paymentIntent.id,
+      transactionId: paymentIntent.id,
     },
   });
 
@@ -164,7 +198,7 @@ async function handlePaymentFailed(paymentIntent: Stripe.PaymentIntent) {
 // Handle refund
 async function handleRefund(charge: Stripe.Charge) {
   const payment = await prisma.payment.findFirst({
-    where: { stripePaymentId: charge.payment_intent as string },
+    where: { transactionId: charge.payment_intent as string },
   });
 
   if (!payment) {
@@ -199,6 +233,93 @@ async function handleRefund(charge: Stripe.Charge) {
   await sendRefundEmail(policy);
 }
 
+// Find the policy an instalment invoice belongs to. The first invoice can
+// arrive before checkout completion has stored the subscription, so fall
+// back to the policy ID in the subscription metadata.
+async function findPolicyForInvoice(invoice: Stripe.Invoice) {
+  const policyId = invoice.subscription_details?.metadata?.policyId;
+  if (policyId) {
+    return prisma.policy.findUnique({ where: { id: policyId } });
+  }
+
+  if (!invoice.subscription) {
+    return null;
+  }
+
+  const subscriptionId =
+    typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+  return prisma.policy.findUnique({ where: { stripeSubscriptionId: subscriptionId } });
+}
+
+// Handle a paid instalment
+async function handleInstalmentPaid(invoice: Stripe.Invoice) {
+  const policy = await findPolicyForInvoice(invoice);
+  if (!policy) {
+    console.error('Policy not found for invoice:', invoice.id);
+    return;
+  }
+
+  // The first invoice is the payment made at checkout, already on record
+  const { remaining } = await instalmentService.recordPayment(policy.id, {
+    invoiceId: invoice.id,
+    paidAt: invoice.status_transitions.paid_at
+      ? new Date(invoice.status_transitions.paid_at * 1000)
+      : new Date(),
+    amount: invoice.billing_reason === 'subscription_create' ? undefined : invoice.amount_paid / 100,
+  });
+
+  // The policy term is paid up, so stop billing
+  if (remaining === 0 && invoice.subscription) {
+    const subscriptionId =
+      typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription.id;
+    await cancelSubscriptionAtPeriodEnd(subscriptionId);
+  }
+}
+
+// Handle a failed instalment
+async function handleInstalmentFailed(invoice: Stripe.Invoice) {
+  const policy = await findPolicyForInvoice(invoice);
+  if (!policy) {
+    console.error('Policy not found for invoice:', invoice.id);
+    return;
+  }
+
+  const { policyStatus } = await instalmentService.recordFailure(policy.id, {
+    invoiceId: invoice.id,
+    reason: `Payment attempt ${invoice.attempt_count} failed`,
+  });
+
+  const policyWithCustomer = await prisma.policy.findUnique({
+    where: { id: policy.id },
+    include: {
+      customer: {
+        include: {
+          user: true,
+        },
+      },
+    },
+  });
+
+  if (policyWithCustomer && (policyStatus === 'GRACE_PERIOD' || policyStatus === 'LAPSED')) {
+    await sendPaymentFailureEmail(policyWithCustomer);
+  }
+}
+
+// Handle recurring billing ending, either after the last instalment or
+// because Stripe gave up retrying a failed one
+async function handleSubscriptionEnded(subscription: Stripe.Subscription) {
+  const policy = await prisma.policy.findUnique({
+    where: { stripeSubscriptionId: subscription.id },
+  });
+
+  if (!policy) {
+    console.error('Policy not found for subscription:', subscription.id);
+    return;
+  }
+
+  await instalmentService.lapseUnpaid(policy.id);
+}
+
 // Helper function to generate policy documents
 async function generatePolicyDocuments(policy: any) {
   try {
@@ -49,16 +49,27 @@ const CheckoutFormSchema = z.object({
 
 type CheckoutFormData = z.infer<typeof CheckoutFormSchema>;
 
-interface QuoteItem {
-  id: string;
+interface SavedQuote {
+  quoteNumber: string;
+  coverageAmount: string;
+  premiumAmount: string;
+  expired: boolean;
+  checkoutBlockedReason: string | null;
   plan: {
     name: string;
-    coverageAmount: number;
     insurer: {
       name: string;
     };
   };
-  finalPremium: number;
+  details: {
+    breakdown: {
+      riders?: Array<{
+        type: string;
+        name: string;
+        premium: number;
+      }>;
+    };
+  };
   familyMembers?: Array<{
     firstName: string;
     lastName: string;
@@ -72,9 +83,9 @@ interface QuoteItem {
 export default function CheckoutPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const quoteItemId = searchParams.get('quoteItemId');
+  const quoteNumber = searchParams.get('quoteNumber');
   
-  const [quoteItem, setQuoteItem] = useState<QuoteItem | null>(null);
+  const [quoteItem, setQuoteItem] = useState<SavedQuote | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
 
@@ -108,7 +119,7 @@ export default function CheckoutPage() {
   const hasNominee = watchFamilyMembers?.some(member => member.isNominee);
 
   useEffect(() => {
-    if (!quoteItemId) {
+    if (!quoteNumber) {
       router.push('/quote');
       return;
     }
@@ -116,11 +127,14 @@ export default function CheckoutPage() {
     // Fetch quote item details
     const fetchQuoteItem = async () => {
       try {
-        const response = await fetch(`/api/quote/${quoteItemId}`);
+        const response = await fetch(`/api/quote/${quoteNumber}`);
         if (!response.ok) {
           throw new Error('Failed to fetch quote');
         }
         const data = await response.json();
+        if (data.expired) {
+          throw new Error('Quote has expired');
+        }
         setQuoteItem(data);
 
         // Pre-fill family members if they exist
@@ -144,7 +158,7 @@ export default function CheckoutPage() {
     };
 
     fetchQuoteItem();
-  }, [quoteItemId, router, append, setValue]);
+  }, [quoteNumber, router, append, setValue]);
 
   const onSubmit = async (data: CheckoutFormData) => {
     setSubmitting(true);
@@ -155,7 +169,7 @@ export default function CheckoutPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          quoteItemId,
+          quoteNumber,
           ...data,
         }),
       });
@@ -186,6 +200,19 @@ export default function CheckoutPage() {
     return <div className="container mx-auto py-8">Quote not found</div>;
   }
 
+  // Referred quotes wait for an underwriter; declined ones cannot be bought
+  if (quoteItem.checkoutBlockedReason) {
+    return (
+      <div className="container mx-auto py-8">
+        <h1 className="text-3xl font-bold mb-4">Checkout</h1>
+        <p>{quoteItem.checkoutBlockedReason}.</p>
+        <p className="text-sm text-gray-600 mt-2">
+          Quote {quoteItem.quoteNumber} for {quoteItem.plan.name}.
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="container mx-auto py-8">
       <h1 className="text-3xl font-bold mb-8">Checkout</h1>
@@ -202,15 +229,27 @@ export default function CheckoutPage() {
                 <div>
                   <h4 className="font-semibold">{quoteItem.plan.name}</h4>
                   <p className="text-sm text-gray-600">by {quoteItem.plan.insurer.name}</p>
-                  <p className="text-sm">Coverage: ₹{quoteItem.plan.coverageAmount.toLocaleString()}</p>
+                  <p className="text-sm">Coverage: ₹{Number(quoteItem.coverageAmount).toLocaleString()}</p>
+                  <p className="text-xs text-gray-500">Quote {quoteItem.quoteNumber}</p>
                 </div>
+
+                {quoteItem.details.breakdown.riders?.length ? (
+                  <ul className="text-sm space-y-1">
+                    {quoteItem.details.breakdown.riders.map((rider) => (
+                      <li key={rider.type} className="flex justify-between">
+                        <span>{rider.name}</span>
+                        <span>+₹{rider.premium.toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
                 
                 <hr />
                 
                 <div className="flex justify-between items-center">
                   <span className="font-semibold">Total Premium</span>
                   <span className="text-2xl font-bold text-green-600">
-                    ₹{quoteItem.finalPremium.toLocaleString()}
+                    ₹{Number(quoteItem.premiumAmount).toLocaleString()}
                   </span>
                 </div>
               </div>
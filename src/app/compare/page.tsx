@@ -2,16 +2,35 @@
 
 import React from 'react';
 import { ComparisonTable } from '@/components/ui/comparison-table';
+import { Button } from '@/components/ui/button';
 import { useSearchParams } from 'next/navigation';
+import type { ComparisonResult } from '@/lib/comparison';
+import type { GeoPoint } from '@/lib/geo';
 
 const ComparePage: React.FC = () => {
-  const [plans, setPlans] = React.useState<any[]>([]);
+  const [comparison, setComparison] = React.useState<ComparisonResult | null>(null);
+  const [differencesOnly, setDifferencesOnly] = React.useState(false);
+  const [location, setLocation] = React.useState<GeoPoint | null>(null);
+  const [locationError, setLocationError] = React.useState<string | null>(null);
   const [error, setError] = React.useState<string | null>(null);
+  const [shareUrl, setShareUrl] = React.useState<string | null>(null);
+  const [shareError, setShareError] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isDownloading, setIsDownloading] = React.useState(false);
+  const [downloadError, setDownloadError] = React.useState<string | null>(null);
   const searchParams = useSearchParams();
 
+  // The same request drives the table and the PDF, so the download matches what is on screen
+  const compareRequest = React.useMemo(() => ({
+    planIds: searchParams.getAll('planId'),
+    city: searchParams.get('city') ?? undefined,
+    // Hospitals picked on the plan pages are checked first; otherwise those near the customer
+    hospitalIds: searchParams.getAll('hospitalId').length ? searchParams.getAll('hospitalId') : undefined,
+    location: location ?? undefined,
+  }), [searchParams, location]);
+
   React.useEffect(() => {
-    const planIds = searchParams.getAll('planId');
-    if (planIds.length < 2) {
+    if (compareRequest.planIds.length < 2) {
       setError('Please select at least two plans to compare.');
       return;
     }
@@ -23,7 +42,7 @@ const ComparePage: React.FC = () => {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ planIds }),
+          body: JSON.stringify(compareRequest),
         });
 
         if (!response.ok) {
@@ -31,14 +50,100 @@ const ComparePage: React.FC = () => {
         }
 
         const data = await response.json();
-        setPlans(data.plans);
+        setComparison(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
       }
     };
 
     fetchComparison();
-  }, [searchParams]);
+  }, [compareRequest]);
+
+  // Download the comparison as a PDF, priced for the customer's quote when there is one
+  const handleDownloadPdf = async () => {
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      const response = await fetch('/api/compare/pdf', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...compareRequest,
+          differencesOnly,
+          quoteNumber: searchParams.get('quoteNumber') ?? undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to download comparison');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'plan-comparison.pdf';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setDownloadError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Your browser cannot share your location.');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setLocationError(null);
+        setLocation({ lat: position.coords.latitude, lng: position.coords.longitude });
+      },
+      () => setLocationError('Allow location access to see hospitals near you.')
+    );
+  };
+
+  // Save the comparison priced for the customer's quote and get a share link
+  const handleSaveAndShare = async () => {
+    const quoteNumber = searchParams.get('quoteNumber');
+    if (!quoteNumber) {
+      setShareError('Get a quote first so the comparison can be saved with your prices.');
+      return;
+    }
+
+    setIsSaving(true);
+    setShareError(null);
+    try {
+      const response = await fetch('/api/compare/snapshots', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ planIds: searchParams.getAll('planId'), quoteNumber }),
+      });
+
+      if (response.status === 401) {
+        window.location.href = `/auth/signin?callbackUrl=${encodeURIComponent(window.location.href)}`;
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to save comparison');
+      }
+
+      const data = await response.json();
+      setShareUrl(data.shareUrl);
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   if (error) {
     return <div className="container mx-auto py-8">Error: {error}</div>;
@@ -46,9 +151,56 @@ const ComparePage: React.FC = () => {
 
   return (
     <div className="container mx-auto py-8">
-      <h1 className="text-2xl font-bold">Compare Plans</h1>
-      {plans.length > 0 ? (
-        <ComparisonTable plans={plans} />
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Compare Plans</h1>
+        {comparison && (
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleDownloadPdf} disabled={isDownloading}>
+              {isDownloading ? 'Preparing PDF...' : 'Download PDF'}
+            </Button>
+            <Button type="button" onClick={handleSaveAndShare} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save & share'}
+            </Button>
+          </div>
+        )}
+      </div>
+      {shareUrl && (
+        <p className="mt-2 text-sm">
+          Anyone with this link can view the comparison:{' '}
+          <a href={shareUrl} className="text-primary underline break-all">{shareUrl}</a>
+        </p>
+      )}
+      {shareError && <p className="mt-2 text-sm text-destructive">{shareError}</p>}
+      {downloadError && <p className="mt-2 text-sm text-destructive">{downloadError}</p>}
+      {comparison ? (
+        <div className="mt-4 space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {comparison.city ? `Hospital network counted in ${comparison.city}.` : 'Hospital network counted across all cities.'}
+            </span>
+            <div className="flex items-center gap-4">
+              {!location && (
+                <button type="button" className="text-primary underline" onClick={handleUseLocation}>
+                  Check hospitals near me
+                </button>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={differencesOnly}
+                  onChange={event => setDifferencesOnly(event.target.checked)}
+                />
+                Show only differences
+              </label>
+            </div>
+          </div>
+          {locationError && <p className="text-sm text-destructive">{locationError}</p>}
+          <ComparisonTable
+            plans={comparison.plans.map(plan => ({ id: plan.id, name: plan.name, insurerName: plan.insurer.name }))}
+            matrix={comparison.matrix}
+            differencesOnly={differencesOnly}
+          />
+        </div>
       ) : (
         <div>Loading comparison...</div>
       )}
@@ -0,0 +1,85 @@
+import { ComparisonTable } from '@/components/ui/comparison-table';
+import { comparisonService } from '@/lib/services/comparison-service';
+
+export const dynamic = 'force-dynamic';
+
+interface SharedComparisonPageProps {
+  params: { token: string };
+}
+
+// Read-only view of a saved comparison, opened from a share link without signing in
+export default async function SharedComparisonPage({ params }: SharedComparisonPageProps) {
+  const comparison = await comparisonService.getSharedSnapshot(params.token);
+
+  if (!comparison) {
+    return (
+      <div className="container mx-auto py-8">
+        <h1 className="text-2xl font-bold">Shared Comparison</h1>
+        <p className="mt-4 text-muted-foreground">
+          This comparison link is invalid or has expired. Ask the person who shared it for a new link.
+        </p>
+      </div>
+    );
+  }
+
+  const { comparison: result, premiums, pricedAt } = comparison.snapshot;
+  const { quoteInput } = comparison;
+
+  const plans = result.plans.map(plan => {
+    const quoted = premiums.find(premium => premium.planId === plan.id);
+    return {
+      id: plan.id,
+      name: plan.name,
+      insurerName: plan.insurer.name,
+      premium: quoted?.breakdown.yearlyPremiums?.[0]?.premium ?? quoted?.premium,
+    };
+  });
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Shared Comparison</h1>
+        <p className="text-sm text-muted-foreground">
+          Prices as quoted on {new Date(pricedAt).toLocaleString('en-IN')} for ₹
+          {quoteInput.coverageAmount.toLocaleString('en-IN')} cover in {quoteInput.city}.
+          Premiums may have changed since.
+        </p>
+      </div>
+
+      <ComparisonTable plans={plans} matrix={result.matrix} />
+
+      {premiums.some(premium => (premium.breakdown.policyTerm ?? 1) > 1) && (
+        <div className="space-y-1 text-sm">
+          <h2 className="font-semibold">Premium for the Policy Term</h2>
+          {premiums.map(premium => (
+            <p key={premium.planId}>
+              {premium.planName}: ₹{premium.premium.toLocaleString('en-IN')} over{' '}
+              {premium.breakdown.policyTerm ?? 1} year(s)
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {result.prosAndCons.map(item => {
+          const plan = plans.find(p => p.id === item.planId);
+          return (
+            <div key={item.planId} className="rounded-lg border p-4">
+              <h2 className="font-semibold">{plan?.name}</h2>
+              {item.pros.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-sm text-green-700">
+                  {item.pros.map(pro => <li key={pro}>{pro}</li>)}
+                </ul>
+              )}
+              {item.cons.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-sm text-red-700">
+                  {item.cons.map(con => <li key={con}>{con}</li>)}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { UserRole } from '@/types'
 import Link from 'next/link'
 import { CoinBalance } from '@/components/ui/coin-balance'
 import { CoinEarningTasks } from '@/components/ui/coin-earning-tasks'
+import { PlanRecommendations } from '@/components/ui/plan-recommendations'
 
 export default async function CustomerDashboard() {
   const session = await getServerSession(authOptions)
@@ -131,6 +132,11 @@ export default async function CustomerDashboard() {
             </div>
           </div>
 
+          {/* Plan Recommendations Section */}
+          <div className="mt-8">
+            <PlanRecommendations />
+          </div>
+
           {/* Coin Earning Section */}
           <div className="mt-8">
             <h2 className="text-2xl font-bold text-gray-900 mb-4">
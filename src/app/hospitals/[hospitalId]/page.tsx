@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { HospitalProfile, PolicyNetworkStatus } from '@/lib/services/hospital-service';
+
+interface HospitalAddress {
+  street?: string;
+  area?: string;
+  landmark?: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+}
+
+const POLICY_STATUS_LABELS: Record<PolicyNetworkStatus['status'], { label: string; className: string }> = {
+  CASHLESS: { label: 'Cashless', className: 'text-green-600' },
+  REIMBURSEMENT: { label: 'Reimbursement only', className: 'text-amber-600' },
+  OUT_OF_NETWORK: { label: 'Not in network', className: 'text-red-600' },
+};
+
+export default function HospitalDetailsPage() {
+  const params = useParams();
+  const hospitalId = params.hospitalId as string;
+  const [hospital, setHospital] = useState<HospitalProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHospitalDetails = async () => {
+      try {
+        const response = await fetch(`/api/hospitals/${hospitalId}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Hospital not found' : 'Failed to fetch hospital details');
+        }
+        setHospital(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (hospitalId) {
+      fetchHospitalDetails();
+    }
+  }, [hospitalId]);
+
+  if (loading) {
+    return <div className="container mx-auto py-8">Loading hospital details...</div>;
+  }
+
+  if (error || !hospital) {
+    return <div className="container mx-auto py-8">Error: {error || 'Hospital not found'}</div>;
+  }
+
+  const address = (hospital.address ?? {}) as HospitalAddress;
+  const addressLines = [
+    [address.street, address.area].filter(Boolean).join(', '),
+    address.landmark,
+    [address.city, address.state, address.pincode].filter(Boolean).join(', '),
+  ].filter(Boolean);
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Hospital Header */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="text-2xl">{hospital.name}</CardTitle>
+              <CardDescription>
+                {addressLines.map((line) => (
+                  <span key={line} className="block">{line}</span>
+                ))}
+              </CardDescription>
+            </div>
+            <div className="text-lg font-semibold">⭐ {hospital.rating ?? 'N/A'}</div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <h4 className="font-semibold">Cashless Plans</h4>
+              <p className="text-xl">{hospital.cashlessPlanCount}</p>
+            </div>
+            <div>
+              <h4 className="font-semibold">Reimbursement Plans</h4>
+              <p className="text-xl">{hospital.reimbursementPlanCount}</p>
+            </div>
+            <div>
+              <h4 className="font-semibold">Insurers</h4>
+              <p className="text-xl">{hospital.insurers.length}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Customer's Policies */}
+      {hospital.policies && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Policies Here</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {hospital.policies.length === 0 ? (
+              <p className="text-gray-600">You have no active policies.</p>
+            ) : (
+              <div className="space-y-3">
+                {hospital.policies.map((policy) => (
+                  <div key={policy.policyId} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <h4 className="font-medium">{policy.planName}</h4>
+                      <p className="text-sm text-gray-600">Policy {policy.policyNumber}</p>
+                    </div>
+                    <Badge variant="outline" className={POLICY_STATUS_LABELS[policy.status].className}>
+                      {POLICY_STATUS_LABELS[policy.status].label}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Specialties */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Specialties</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {hospital.specialties.length === 0 ? (
+            <p className="text-gray-600">No specialties listed.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {hospital.specialties.map((specialty) => (
+                <Badge key={specialty} variant="secondary">
+                  {specialty}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Network Plans */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Plans Accepted</CardTitle>
+          <CardDescription>
+            Cashless plans settle the bill with the hospital directly; with reimbursement you pay and claim it back.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {hospital.insurers.length === 0 ? (
+            <p className="text-gray-600">No plans currently list this hospital.</p>
+          ) : (
+            <div className="space-y-6">
+              {hospital.insurers.map((insurer) => (
+                <div key={insurer.id}>
+                  <div className="flex items-center space-x-3 mb-2">
+                    {insurer.logo && (
+                      <img src={insurer.logo} alt={insurer.name} className="h-8 w-8 object-contain" />
+                    )}
+                    <h4 className="font-semibold">{insurer.name}</h4>
+                    {insurer.rating !== null && (
+                      <span className="text-sm text-gray-600">⭐ {insurer.rating}/5</span>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {insurer.plans.map((plan) => (
+                      <div key={plan.planId} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                        <div>
+                          <Link href={`/plans/${plan.planId}`} className="font-medium hover:underline">
+                            {plan.planName}
+                          </Link>
+                          <span className="text-sm text-gray-600 ml-2">{plan.planType}</span>
+                        </div>
+                        {plan.cashless ? (
+                          <Badge variant="outline" className="text-green-600">Cashless</Badge>
+                        ) : (
+                          <Badge variant="outline">Reimbursement</Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,11 +12,11 @@ interface Hospital {
   id: string;
   name: string;
   address: any;
-  location: any;
+  latitude: number | null;
+  longitude: number | null;
   specialties: string[];
-  facilities: string[];
-  emergencyServices: boolean;
   rating: number;
+  distance?: number; // km, when searching near a pincode
   networkPlans: Array<{
     planId: string;
     planName: string;
@@ -29,9 +31,13 @@ export default function HospitalsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const searchParams = useSearchParams();
+  // Search suggestions link here with a city or specialty already chosen
   const [filters, setFilters] = useState({
-    city: '',
-    specialty: '',
+    city: searchParams.get('city') ?? '',
+    specialty: searchParams.get('specialty') ?? '',
+    pincode: '',
+    radius: '5',
     cashless: false,
   });
 
@@ -45,6 +51,10 @@ export default function HospitalsPage() {
       if (searchTerm) params.append('search', searchTerm);
       if (filters.city) params.append('city', filters.city);
       if (filters.specialty) params.append('specialties', JSON.stringify([filters.specialty]));
+      if (filters.pincode) {
+        params.append('pincode', filters.pincode);
+        params.append('radius', filters.radius);
+      }
       if (filters.cashless) params.append('cashless', 'true');
 
       const response = await fetch(`/api/hospitals?${params.toString()}`);
@@ -96,7 +106,7 @@ export default function HospitalsPage() {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSearch} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
               <Input
                 placeholder="Search hospitals..."
                 value={searchTerm}
@@ -112,6 +122,22 @@ export default function HospitalsPage() {
                 value={filters.specialty}
                 onChange={(e) => setFilters({ ...filters, specialty: e.target.value })}
               />
+              <Input
+                placeholder="Near pincode"
+                inputMode="numeric"
+                value={filters.pincode}
+                onChange={(e) => setFilters({ ...filters, pincode: e.target.value })}
+              />
+              <select
+                aria-label="Distance"
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                value={filters.radius}
+                onChange={(e) => setFilters({ ...filters, radius: e.target.value })}
+              >
+                {['2', '5', '10', '25'].map((km) => (
+                  <option key={km} value={km}>Within {km} km</option>
+                ))}
+              </select>
               <Button type="submit">Search</Button>
             </div>
             <div className="flex items-center space-x-2">
@@ -139,18 +165,18 @@ export default function HospitalsPage() {
               <CardHeader>
                 <div className="flex items-start justify-between">
                   <div>
-                    <CardTitle className="text-xl">{hospital.name}</CardTitle>
+                    <CardTitle className="text-xl">
+                      <Link href={`/hospitals/${hospital.id}`} className="hover:underline">
+                        {hospital.name}
+                      </Link>
+                    </CardTitle>
                     <CardDescription>
                       {hospital.address?.city}, {hospital.address?.state}
+                      {hospital.distance !== undefined && ` · ${hospital.distance} km away`}
                     </CardDescription>
                   </div>
                   <div className="text-right">
                     <div className="text-lg font-semibold">⭐ {hospital.rating || 'N/A'}</div>
-                    {hospital.emergencyServices && (
-                      <Badge variant="destructive" className="mt-1">
-                        Emergency Services
-                      </Badge>
-                    )}
                   </div>
                 </div>
               </CardHeader>
@@ -172,25 +198,6 @@ export default function HospitalsPage() {
                   </div>
                 </div>
 
-                {/* Facilities */}
-                {hospital.facilities && hospital.facilities.length > 0 && (
-                  <div className="mb-4">
-                    <h4 className="font-semibold mb-2">Facilities:</h4>
-                    <div className="flex flex-wrap gap-2">
-                      {hospital.facilities.slice(0, 3).map((facility, index) => (
-                        <Badge key={index} variant="outline">
-                          {facility}
-                        </Badge>
-                      ))}
-                      {hospital.facilities.length > 3 && (
-                        <Badge variant="outline">
-                          +{hospital.facilities.length - 3} more
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                )}
-
                 {/* Network Plans */}
                 {hospital.networkPlans && hospital.networkPlans.length > 0 && (
                   <div>
@@ -3,6 +3,7 @@ import { Inter } from 'next/font/google'
 import { AuthProvider } from '../providers/auth-provider'
 import { ThemeProvider } from '../providers/theme-provider'
 import { Toaster } from '../components/ui/toaster'
+import { CommandPaletteProvider } from '../components/layout/CommandPalette'
 import './globals.css'
 import React from 'react'
 
@@ -31,7 +32,9 @@ export default function RootLayout({
           disableTransitionOnChange
         >
           <AuthProvider>
-            {children}
+            <CommandPaletteProvider>
+              {children}
+            </CommandPaletteProvider>
             <Toaster />
           </AuthProvider>
         </ThemeProvider>
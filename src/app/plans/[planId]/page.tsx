@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -13,7 +14,14 @@ interface PlanDetails {
   coverageAmount: number;
   planType: string;
   features: string[];
-  waitingPeriods: Record<string, string>;
+  waitingPeriods: Array<{
+    id: string;
+    type: 'INITIAL' | 'SPECIFIC_DISEASE' | 'PRE_EXISTING';
+    days: number;
+    conditions: string[];
+    description: string | null;
+    benefit: { name: string } | null;
+  }>;
   insurer: {
     id: string;
     name: string;
@@ -37,6 +45,12 @@ interface PlanDetails {
   }>;
 }
 
+const WAITING_PERIOD_LABELS: Record<PlanDetails['waitingPeriods'][number]['type'], string> = {
+  INITIAL: 'Initial',
+  SPECIFIC_DISEASE: 'Specific diseases',
+  PRE_EXISTING: 'Pre-existing diseases',
+};
+
 export default function PlanDetailsPage() {
   const params = useParams();
   const planId = params.planId as string;
@@ -170,10 +184,20 @@ export default function PlanDetailsPage() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {Object.entries(plan.waitingPeriods).map(([condition, period]) => (
-              <div key={condition} className="flex justify-between">
-                <span className="font-medium">{condition}:</span>
-                <span>{period}</span>
+            {plan.waitingPeriods.map((period) => (
+              <div key={period.id}>
+                <div className="flex justify-between">
+                  <span className="font-medium">
+                    {period.benefit?.name ?? WAITING_PERIOD_LABELS[period.type]}:
+                  </span>
+                  <span>{period.days} days</span>
+                </div>
+                {period.conditions.length > 0 && (
+                  <p className="text-sm text-gray-600">{period.conditions.join(', ')}</p>
+                )}
+                {period.description && (
+                  <p className="text-sm text-gray-600">{period.description}</p>
+                )}
               </div>
             ))}
           </div>
@@ -193,7 +217,11 @@ export default function PlanDetailsPage() {
             {plan.networkHospitals.slice(0, 10).map((nh, index) => (
               <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
                 <div>
-                  <h4 className="font-medium">{nh.hospital.name}</h4>
+                  <h4 className="font-medium">
+                    <Link href={`/hospitals/${nh.hospital.id}`} className="hover:underline">
+                      {nh.hospital.name}
+                    </Link>
+                  </h4>
                   <p className="text-sm text-gray-600">
                     {nh.hospital.address.city}, {nh.hospital.address.state}
                   </p>
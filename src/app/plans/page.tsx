@@ -1,49 +1,101 @@
 'use client';
 
 import React from 'react';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
+import { useSearchParams } from 'next/navigation';
+import FilterSidebar, { EMPTY_PLAN_FILTERS, PlanFilters } from '@/components/ui/filter-sidebar';
+import type { PlanFacets } from '@/lib/plan-query';
+
+const toSearchParams = (filters: PlanFilters, cursor?: string) => {
+  const params = new URLSearchParams();
+  filters.planTypes.forEach(value => params.append('planTypes', value));
+  filters.insurerIds.forEach(value => params.append('insurerIds', value));
+  filters.benefits.forEach(value => params.append('benefits', value));
+  if (filters.coverage) {
+    params.set('coverageMin', String(filters.coverage.min));
+    if (filters.coverage.max !== null) params.set('coverageMax', String(filters.coverage.max));
+  }
+  if (filters.premium) {
+    params.set('premiumMin', String(filters.premium.min));
+    if (filters.premium.max !== null) params.set('premiumMax', String(filters.premium.max));
+  }
+  if (cursor) params.set('cursor', cursor);
+  return params;
+};
 
 const PlansPage: React.FC = () => {
   const [plans, setPlans] = React.useState<any[]>([]);
+  const [facets, setFacets] = React.useState<PlanFacets | null>(null);
+  const searchParams = useSearchParams();
+  // Search links can open the list already filtered to an insurer
+  const [filters, setFilters] = React.useState<PlanFilters>(() => ({
+    ...EMPTY_PLAN_FILTERS,
+    insurerIds: searchParams.getAll('insurerIds'),
+  }));
+  const [total, setTotal] = React.useState(0);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
-  
-  React.useEffect(() => {
-    const fetchPlans = async () => {
-      try {
-        // Fetch from API instead of direct database call
-        const response = await fetch('/api/plans');
-        if (response.ok) {
-          const data = await response.json();
-          setPlans(data.plans || []);
-        } else {
-          setError('Failed to fetch plans');
-        }
-      } catch (error) {
-        console.error('Error fetching plans:', error);
-        setError('Error fetching plans');
-      } finally {
-        setLoading(false);
+
+  const fetchPlans = React.useCallback(async (cursor?: string) => {
+    setLoading(true);
+    try {
+      // Fetch from API instead of direct database call
+      const response = await fetch(`/api/plans?${toSearchParams(filters, cursor)}`);
+      if (response.ok) {
+        const data = await response.json();
+        setPlans(previous => cursor ? [...previous, ...data.plans] : data.plans);
+        setFacets(data.facets);
+        setTotal(data.pagination.total);
+        setNextCursor(data.pagination.nextCursor);
+        setError(null);
+      } else {
+        setError('Failed to fetch plans');
       }
-    };
+    } catch (error) {
+      console.error('Error fetching plans:', error);
+      setError('Error fetching plans');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
 
+  React.useEffect(() => {
     fetchPlans();
-  }, []);
+  }, [fetchPlans]);
 
   return (
-    <div>
-      <h1>Insurance Plans</h1>
-      <ul>
-        {plans.map((plan) => (
-          <li key={plan.id}>
-            <div>{plan.name}</div>
-            <div>{plan.description}</div>
-            <div>Coverage: {plan.coverageAmount}</div>
-            <div>Insurer: {plan.insurer.name}</div>
-          </li>
-        ))}
-      </ul>
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold mb-6">Insurance Plans</h1>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <aside>
+          <FilterSidebar filters={filters} facets={facets} onFilterChange={setFilters} />
+        </aside>
+        <section className="md:col-span-3">
+          {error && <p className="text-red-600 mb-4">{error}</p>}
+          <p className="text-sm text-gray-500 mb-4">{total} plans match</p>
+          <ul className="space-y-4">
+            {plans.map((plan) => (
+              <li key={plan.id} className="bg-white p-4 rounded-lg shadow-sm">
+                <a href={`/plans/${plan.id}`} className="font-semibold hover:underline">{plan.name}</a>
+                <div className="text-sm text-gray-600">{plan.description}</div>
+                <div className="text-sm">Coverage: ₹{Number(plan.coverageAmount).toLocaleString('en-IN')}</div>
+                <div className="text-sm">Premium: ₹{Number(plan.premiumAmount).toLocaleString('en-IN')}</div>
+                <div className="text-sm">Insurer: {plan.insurer.name}</div>
+              </li>
+            ))}
+          </ul>
+          {nextCursor && (
+            <button
+              type="button"
+              className="mt-6 px-4 py-2 border rounded"
+              disabled={loading}
+              onClick={() => fetchPlans(nextCursor)}
+            >
+              {loading ? 'Loading…' : 'Load more'}
+            </button>
+          )}
+        </section>
+      </div>
     </div>
   );
 };
@@ -23,6 +23,9 @@ const QuoteFormSchema = z.object({
     isNominee: z.boolean().optional(),
   })).optional(),
   medicalConditions: z.array(z.string()).optional(),
+  riders: z.array(z.string()).optional(),
+  paymentFrequency: z.string().optional(),
+  policyTerm: z.string().optional(),
   location: z.object({
     city: z.string().min(1, 'City is required'),
     state: z.string().min(1, 'State is required'),
@@ -32,19 +35,112 @@ const QuoteFormSchema = z.object({
 
 type QuoteFormData = z.infer<typeof QuoteFormSchema>;
 
-interface QuoteItem {
-  id: string;
-  plan: {
-    id: string;
-    name: string;
-    coverageAmount: number;
-    insurer: {
-      name: string;
-    };
+const DEFAULT_COVERAGE_AMOUNT = 500000;
+
+const RELATIONSHIP_CODES: Record<string, string> = {
+  Spouse: 'SPOUSE',
+  Child: 'CHILD',
+  Parent: 'PARENT',
+  Sibling: 'SIBLING',
+  'Parent-in-law': 'PARENT_IN_LAW',
+  Other: 'OTHER',
+};
+
+const CONDITION_CODES: Record<string, string> = {
+  'Diabetes Type 1': 'diabetes',
+  'Diabetes Type 2': 'diabetes',
+  'Heart Disease': 'heartDisease',
+  'High Blood Pressure': 'hypertension',
+  'Asthma': 'asthma',
+  'Cancer History': 'cancer',
+};
+
+const toConditionCodes = (conditions: string[] = []) =>
+  conditions.map((condition) => CONDITION_CODES[condition] ?? condition);
+
+// Map the form onto the quote engine input, one member per insured person
+const toQuoteInput = (data: QuoteFormData) => {
+  const medicalConditions = toConditionCodes(data.medicalConditions);
+  const members = [
+    {
+      relationship: 'SELF',
+      age: data.age,
+      gender: data.gender.toUpperCase(),
+      medicalConditions,
+    },
+    ...(data.familyMembers || []).map((member) => ({
+      relationship: RELATIONSHIP_CODES[member.relationship],
+      age: member.age,
+      gender: member.gender.toUpperCase(),
+      medicalConditions: toConditionCodes(member.medicalConditions),
+    })),
+  ];
+
+  return {
+    age: data.age,
+    gender: data.gender.toUpperCase(),
+    city: data.location.city,
+    hasMedicalConditions: medicalConditions.length > 0,
+    medicalConditions,
+    members,
+    coverageAmount: DEFAULT_COVERAGE_AMOUNT,
+    riders: data.riders?.length ? data.riders : undefined,
+    paymentFrequency: data.paymentFrequency,
+    policyTerm: data.policyTerm ? Number(data.policyTerm) : undefined,
   };
+};
+
+interface MemberContribution {
+  relationship: string;
+  age: number;
+  premium: number;
+}
+
+interface RiderPremium {
+  type: string;
+  name: string;
+  premium: number;
+}
+
+interface PremiumBreakdown {
   basePremium: number;
+  riskFactor: number;
+  memberFactor: number;
+  cityMultiplier: number;
+  planLoading: number;
+  deductibleCredit: number;
+  familyDiscount: number;
+  planPremium: number;
+  riderPremium: number;
+  paymentFrequency: string;
+  frequencyLoading: number;
+  policyTerm: number;
+  termDiscount: number;
+  yearlyPremiums: Array<{ year: number; premium: number }>;
+  instalmentCount: number;
+  instalmentAmount: number;
   finalPremium: number;
-  appliedDiscounts: string[];
+  members: MemberContribution[];
+  riders: RiderPremium[];
+  unavailableRiders: Array<{ type: string; reason: string }>;
+}
+
+interface RecommendedPlan {
+  planId: string;
+  planName: string;
+  insurerName: string;
+  coverageAmount: number;
+  deductible: number;
+  premium: number;
+  breakdown: PremiumBreakdown;
+  features: string[];
+  underwriting: {
+    decision: 'ACCEPT' | 'REFER' | 'DECLINE';
+    reasons: Array<{ rule: string; message: string }>;
+  };
+  // Present when the quote was saved for a signed-in customer
+  quoteNumber?: string;
+  expiresAt?: string;
 }
 
 export default function QuotePage() {
@@ -53,7 +149,7 @@ export default function QuotePage() {
   const planId = searchParams.get('planId');
   
   const [loading, setLoading] = useState(false);
-  const [quotes, setQuotes] = useState<QuoteItem[]>([]);
+  const [quotes, setQuotes] = useState<RecommendedPlan[]>([]);
   const [step, setStep] = useState(1);
 
   const handleSubmit = async (data: QuoteFormData) => {
@@ -65,7 +161,7 @@ export default function QuotePage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          ...data,
+          ...toQuoteInput(data),
           planId: planId || undefined,
         }),
       });
@@ -75,7 +171,7 @@ export default function QuotePage() {
       }
 
       const result = await response.json();
-      setQuotes(result.quotes);
+      setQuotes(result.recommendedPlans);
       setStep(2);
     } catch (error) {
       console.error('Quote generation error:', error);
@@ -85,8 +181,13 @@ export default function QuotePage() {
     }
   };
 
-  const handleProceedToCheckout = (quoteItemId: string) => {
-    router.push(`/checkout?quoteItemId=${quoteItemId}`);
+  // Checkout buys a saved quote; anonymous quotes need a sign-in first
+  const handleProceedToCheckout = (quote: RecommendedPlan) => {
+    if (quote.quoteNumber) {
+      router.push(`/checkout?quoteNumber=${quote.quoteNumber}`);
+    } else {
+      router.push(`/auth/signin?callbackUrl=${encodeURIComponent('/quote')}`);
+    }
   };
 
   if (step === 2) {
@@ -96,48 +197,136 @@ export default function QuotePage() {
         
         <div className="grid gap-6">
           {quotes.map((quote) => (
-            <Card key={quote.id}>
+            <Card key={quote.planId}>
               <CardHeader>
-                <CardTitle>{quote.plan.name}</CardTitle>
-                <CardDescription>by {quote.plan.insurer.name}</CardDescription>
+                <CardTitle>{quote.planName}</CardTitle>
+                <CardDescription>by {quote.insurerName}</CardDescription>
+                {quote.quoteNumber && quote.expiresAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Quote {quote.quoteNumber} · valid until{' '}
+                    {new Date(quote.expiresAt).toLocaleDateString()}
+                  </p>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                   <div>
                     <h4 className="text-sm font-medium">Coverage Amount</h4>
                     <p className="text-xl font-bold text-green-600">
-                      ₹{quote.plan.coverageAmount.toLocaleString()}
+                      ₹{quote.coverageAmount.toLocaleString()}
                     </p>
                   </div>
                   <div>
                     <h4 className="text-sm font-medium">Base Premium</h4>
-                    <p className="text-xl">₹{quote.basePremium.toLocaleString()}</p>
+                    <p className="text-xl">₹{quote.breakdown.basePremium.toLocaleString()}</p>
                   </div>
                   <div>
-                    <h4 className="text-sm font-medium">Final Premium</h4>
+                    <h4 className="text-sm font-medium">
+                      Final Premium{quote.breakdown.policyTerm > 1 && ` (${quote.breakdown.policyTerm} years)`}
+                    </h4>
                     <p className="text-2xl font-bold text-blue-600">
-                      ₹{quote.finalPremium.toLocaleString()}
+                      ₹{quote.premium.toLocaleString()}
                     </p>
+                    {quote.breakdown.instalmentCount > 1 && (
+                      <p className="text-sm text-muted-foreground">
+                        {quote.breakdown.instalmentCount} × ₹{quote.breakdown.instalmentAmount.toLocaleString()}
+                      </p>
+                    )}
                   </div>
                 </div>
-                
-                {quote.appliedDiscounts.length > 0 && (
+
+                <div className="mb-4">
+                  <h4 className="text-sm font-medium mb-2">Premium Breakdown</h4>
+                  <ul className="text-sm text-muted-foreground space-y-1">
+                    <li>Risk factor: ×{quote.breakdown.riskFactor.toFixed(2)}</li>
+                    <li>City multiplier: ×{quote.breakdown.cityMultiplier.toFixed(2)}</li>
+                    <li>Plan loading: ×{quote.breakdown.planLoading.toFixed(2)}</li>
+                    {quote.breakdown.deductibleCredit > 0 && (
+                      <li className="text-green-600">
+                        Deductible credit (₹{quote.deductible.toLocaleString()}): -{Math.round(quote.breakdown.deductibleCredit * 100)}%
+                      </li>
+                    )}
+                    {quote.breakdown.termDiscount > 0 && (
+                      <li className="text-green-600">
+                        {quote.breakdown.policyTerm}-year term discount: -{(quote.breakdown.termDiscount * 100).toFixed(1)}%
+                      </li>
+                    )}
+                    {quote.breakdown.policyTerm > 1 && quote.breakdown.yearlyPremiums.map((year) => (
+                      <li key={year.year}>
+                        Year {year.year}: ₹{year.premium.toLocaleString()}
+                      </li>
+                    ))}
+                    {quote.breakdown.frequencyLoading > 0 && (
+                      <li>
+                        {quote.breakdown.paymentFrequency.replace(/_/g, '-').toLowerCase()} payment loading: +{Math.round(quote.breakdown.frequencyLoading * 100)}%
+                      </li>
+                    )}
+                    {quote.breakdown.familyDiscount > 0 && (
+                      <li className="text-green-600">
+                        Family discount: -{Math.round(quote.breakdown.familyDiscount * 100)}%
+                      </li>
+                    )}
+                  </ul>
+                </div>
+
+                {(quote.breakdown.riders?.length > 0 || quote.breakdown.unavailableRiders?.length > 0) && (
+                  <div className="mb-4">
+                    <h4 className="text-sm font-medium mb-2">Add-on Riders</h4>
+                    <ul className="text-sm space-y-1">
+                      {quote.breakdown.riders.map((rider) => (
+                        <li key={rider.type} className="flex justify-between">
+                          <span>{rider.name}</span>
+                          <span>+₹{rider.premium.toLocaleString()}</span>
+                        </li>
+                      ))}
+                      {quote.breakdown.unavailableRiders.map((rider) => (
+                        <li key={rider.type} className="text-muted-foreground">
+                          {rider.type.replace(/_/g, ' ').toLowerCase()}: {rider.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {quote.breakdown.members.length > 1 && (
                   <div className="mb-4">
-                    <h4 className="text-sm font-medium mb-2">Applied Discounts</h4>
-                    <ul className="list-disc list-inside text-sm text-green-600">
-                      {quote.appliedDiscounts.map((discount, index) => (
-                        <li key={index}>{discount}</li>
+                    <h4 className="text-sm font-medium mb-2">Premium by Member</h4>
+                    <ul className="text-sm space-y-1">
+                      {quote.breakdown.members.map((member, index) => (
+                        <li key={index} className="flex justify-between">
+                          <span>
+                            {member.relationship.replace(/_/g, ' ').toLowerCase()} ({member.age})
+                          </span>
+                          <span>₹{member.premium.toLocaleString()}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {quote.underwriting.decision !== 'ACCEPT' && (
+                  <div className="mb-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm">
+                    <p className="font-medium">
+                      {quote.underwriting.decision === 'DECLINE'
+                        ? 'We cannot offer this plan for the details provided'
+                        : 'An underwriter needs to review this quote before you can buy it'}
+                    </p>
+                    <ul className="mt-1 list-disc pl-5">
+                      {quote.underwriting.reasons.map((reason, index) => (
+                        <li key={index}>{reason.message}</li>
                       ))}
                     </ul>
                   </div>
                 )}
 
-                <button
-                  onClick={() => handleProceedToCheckout(quote.id)}
-                  className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
-                >
-                  Proceed to Checkout
-                </button>
+                {quote.underwriting.decision !== 'DECLINE' && (
+                  <button
+                    onClick={() => handleProceedToCheckout(quote)}
+                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    {quote.underwriting.decision === 'REFER' ? 'Continue After Review' : 'Proceed to Checkout'}
+                  </button>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -0,0 +1,309 @@
+'use client'
+
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { Clock, Search, TrendingUp } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { SearchResult } from '@/lib/search'
+import type { RecentQuery, Suggestion } from '@/lib/search-suggestions'
+
+const SUGGEST_DELAY_MS = 100
+const SEARCH_DELAY_MS = 300
+
+const TYPE_LABELS: Record<Suggestion['type'] | SearchResult['type'], string> = {
+  plan: 'Plan',
+  insurer: 'Insurer',
+  hospital: 'Hospital',
+  city: 'City',
+  specialty: 'Specialty',
+  benefit: 'Benefit',
+  policy: 'My policy',
+  claim: 'My claim',
+}
+
+// A past query fills the box; everything else is somewhere to go
+type PaletteItem =
+  | { kind: 'query'; key: string; section: string; label: string; popular: boolean }
+  | { kind: 'link'; key: string; section: string; label: string; type: string; url: string; snippet?: string }
+
+interface CommandPaletteContextValue {
+  open: boolean
+  setOpen: (open: boolean) => void
+}
+
+const CommandPaletteContext = createContext<CommandPaletteContextValue>({
+  open: false,
+  setOpen: () => {},
+})
+
+export function useCommandPalette() {
+  return useContext(CommandPaletteContext)
+}
+
+// Snippets come back with matched words wrapped in <mark>; render them as text
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g)
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 ? <mark key={i} className="bg-primary/20 text-foreground rounded-sm">{part}</mark> : part
+      )}
+    </>
+  )
+}
+
+function CommandPalette() {
+  const { open, setOpen } = useCommandPalette()
+  const { data: session } = useSession()
+  const router = useRouter()
+  const [query, setQuery] = useState('')
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [recent, setRecent] = useState<RecentQuery[]>([])
+  const [popular, setPopular] = useState<RecentQuery[]>([])
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  // Suggestions and history, quickly on every keystroke
+  useEffect(() => {
+    if (!open) return
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search/suggest?q=${encodeURIComponent(query)}`, {
+          signal: controller.signal,
+        })
+        if (!response.ok) return
+        const data = await response.json()
+        setSuggestions(data.suggestions)
+        setRecent(data.recent)
+        setPopular(data.popular)
+      } catch (error) {
+        if (!controller.signal.aborted) console.error('Search suggestions error:', error)
+      }
+    }, SUGGEST_DELAY_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [open, query])
+
+  // Full results once typing pauses
+  useEffect(() => {
+    if (!open || query.trim().length < 2) {
+      setResults([])
+      return
+    }
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}&limit=8`, {
+          signal: controller.signal,
+        })
+        if (!response.ok) return
+        const data = await response.json()
+        setResults(data.results)
+      } catch (error) {
+        if (!controller.signal.aborted) console.error('Search error:', error)
+      }
+    }, SEARCH_DELAY_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [open, query])
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const recentQueries = recent.map(entry => entry.query)
+    return [
+      ...recent.map(entry => ({
+        kind: 'query' as const,
+        key: `recent:${entry.query}`,
+        section: 'Recent searches',
+        label: entry.query,
+        popular: false,
+      })),
+      ...popular
+        .filter(entry => !recentQueries.includes(entry.query))
+        .map(entry => ({
+          kind: 'query' as const,
+          key: `popular:${entry.query}`,
+          section: 'Your frequent searches',
+          label: entry.query,
+          popular: true,
+        })),
+      ...suggestions.map(suggestion => ({
+        kind: 'link' as const,
+        key: `suggestion:${suggestion.type}:${suggestion.url}`,
+        section: 'Suggestions',
+        label: suggestion.label,
+        type: TYPE_LABELS[suggestion.type],
+        url: suggestion.url,
+      })),
+      ...results.map(result => ({
+        kind: 'link' as const,
+        key: `result:${result.type}:${result.id}`,
+        section: 'Results',
+        label: result.title,
+        type: TYPE_LABELS[result.type],
+        url: result.url,
+        snippet: result.snippet,
+      })),
+    ]
+  }, [recent, popular, suggestions, results])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [items])
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (!next) setQuery('')
+  }
+
+  const select = (item: PaletteItem) => {
+    if (item.kind === 'query') {
+      setQuery(item.label)
+      return
+    }
+
+    if (session?.user && query.trim().length >= 2) {
+      fetch('/api/search/history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query }),
+      }).catch(error => console.error('Search history error:', error))
+    }
+    handleOpenChange(false)
+    router.push(item.url)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!items.length) return
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex(index => (index + 1) % items.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(index => (index - 1 + items.length) % items.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      select(items[activeIndex])
+    }
+  }
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm" />
+        <Dialog.Content
+          className="fixed left-1/2 top-[15%] z-50 w-full max-w-xl -translate-x-1/2 rounded-lg border bg-background shadow-lg"
+          onKeyDown={handleKeyDown}
+        >
+          <Dialog.Title className="sr-only">Search</Dialog.Title>
+          <div className="flex items-center border-b px-3">
+            <Search className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+            <input
+              autoFocus
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search plans, hospitals, insurers..."
+              className="flex h-12 w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+              role="combobox"
+              aria-expanded={items.length > 0}
+              aria-controls="command-palette-list"
+              aria-activedescendant={items.length ? `command-palette-item-${activeIndex}` : undefined}
+            />
+          </div>
+
+          <ul id="command-palette-list" ref={listRef} role="listbox" className="max-h-96 overflow-y-auto p-2">
+            {items.length === 0 && (
+              <li className="py-6 text-center text-sm text-muted-foreground">
+                {query.trim() ? 'No matches found' : 'Start typing to search'}
+              </li>
+            )}
+            {items.map((item, index) => (
+              <li key={item.key} role="presentation">
+                {(index === 0 || items[index - 1].section !== item.section) && (
+                  <div className="px-2 pb-1 pt-2 text-xs font-medium text-muted-foreground">
+                    {item.section}
+                  </div>
+                )}
+                <div
+                  id={`command-palette-item-${index}`}
+                  data-index={index}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => select(item)}
+                  className={cn(
+                    'flex cursor-pointer items-start gap-2 rounded-md px-2 py-2 text-sm',
+                    index === activeIndex && 'bg-accent text-accent-foreground'
+                  )}
+                >
+                  {item.kind === 'query' ? (
+                    <>
+                      {item.popular
+                        ? <TrendingUp className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                        : <Clock className="mt-0.5 h-4 w-4 text-muted-foreground" />}
+                      <span>{item.label}</span>
+                    </>
+                  ) : (
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate font-medium">{item.label}</span>
+                        <span className="shrink-0 text-xs text-muted-foreground">{item.type}</span>
+                      </div>
+                      {item.snippet && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          <Snippet text={item.snippet} />
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+            ↑↓ to move · Enter to open · Esc to close
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  )
+}
+
+// Makes the palette available on every page; Ctrl+K or ⌘K opens it
+export function CommandPaletteProvider({ children }: { children: React.ReactNode }) {
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(current => !current)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const value = useMemo(() => ({ open, setOpen }), [open])
+
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      {children}
+      <CommandPalette />
+    </CommandPaletteContext.Provider>
+  )
+}
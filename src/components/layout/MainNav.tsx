@@ -6,12 +6,14 @@ import { useSession } from 'next-auth/react'
 import { Button } from '@/components/ui/button'
 import { UserNav } from './UserNav'
 import { CoinBalance } from '@/components/ui/coin-balance'
-import { Menu, X } from 'lucide-react'
+import { Menu, Search, X } from 'lucide-react'
 import { ThemeToggle } from '@/components/ui/theme-toggle'
+import { useCommandPalette } from './CommandPalette'
 
 export function MainNav() {
   const { data: session, status } = useSession()
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
+  const commandPalette = useCommandPalette()
 
   const navigationLinks = [
     { href: '/dashboard', label: 'Dashboard' },
@@ -59,6 +61,16 @@ export function MainNav() {
 
         {/* Auth/User Section */}
         <div className="ml-auto flex items-center space-x-4">
+          <Button
+            variant="outline"
+            className="h-9 justify-start text-sm text-muted-foreground md:w-56"
+            onClick={() => commandPalette.setOpen(true)}
+          >
+            <Search className="h-4 w-4 md:mr-2" />
+            <span className="hidden md:inline">Search...</span>
+            <kbd className="ml-auto hidden rounded border bg-muted px-1.5 text-xs md:inline">Ctrl K</kbd>
+            <span className="sr-only">Open search</span>
+          </Button>
           <ThemeToggle />
           {status === 'loading' ? (
             <div className="h-8 w-8 animate-pulse rounded-full bg-muted" />
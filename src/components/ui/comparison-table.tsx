@@ -4,28 +4,73 @@ import React from 'react';
 import { Card } from './card';
 import { ScrollArea } from './scroll-area';
 import { cn } from '@/lib/utils';
-import { Check, X } from 'lucide-react';
+import type { ComparisonItem, ComparisonMatrix, ComparisonSection, ComparisonValue } from '@/lib/comparison';
 
 interface ComparisonTableProps {
   plans: Array<{
     id: string;
     name: string;
     insurerName: string;
-    coverageAmount: number;
-    planType: string;
-    features: string[];
     premium?: number;
-    networkHospitals?: number;
-    claimSettlementRatio?: number;
   }>;
+  // Sections in display order; snapshots saved before a section existed simply lack it
+  matrix: Partial<ComparisonMatrix>;
+  differencesOnly?: boolean;
   className?: string;
 }
 
-export const ComparisonTable: React.FC<ComparisonTableProps> = ({ plans, className }) => {
-  // Get all unique features across all plans
-  const allFeatures = Array.from(
-    new Set(plans.flatMap(plan => plan.features))
-  ).sort();
+const SECTION_ORDER: (keyof ComparisonMatrix)[] = [
+  'basicInfo',
+  'costSharing',
+  'benefits',
+  'subLimits',
+  'waitingPeriods',
+  'network',
+  'preferredHospitals',
+];
+
+const RATING_STYLES: Record<string, string> = {
+  better: 'bg-green-50 text-green-800',
+  worse: 'bg-red-50 text-red-800',
+  equal: '',
+};
+
+const RATING_LABELS: Record<string, string> = {
+  better: 'Better than the other plans',
+  worse: 'Worse than the other plans',
+  equal: 'Same as the other plans',
+};
+
+// Older snapshots have no differs flag, so fall back to comparing what is shown
+const itemDiffers = (item: ComparisonItem) =>
+  item.differs ?? new Set(item.values.map(value => value.displayValue)).size > 1;
+
+const Cell: React.FC<{ value: ComparisonValue }> = ({ value }) => {
+  const rating = value.rating ?? null;
+  return (
+    <td
+      className={cn('p-4 align-middle', rating && RATING_STYLES[rating])}
+      title={rating ? RATING_LABELS[rating] : undefined}
+    >
+      {value.displayValue}
+    </td>
+  );
+};
+
+export const ComparisonTable: React.FC<ComparisonTableProps> = ({
+  plans,
+  matrix,
+  differencesOnly = false,
+  className,
+}) => {
+  const sections = SECTION_ORDER
+    .map(key => matrix[key])
+    .filter((section): section is ComparisonSection => Boolean(section))
+    .map(section => ({
+      ...section,
+      items: differencesOnly ? section.items.filter(itemDiffers) : section.items,
+    }))
+    .filter(section => section.items.length > 0);
 
   return (
     <Card className={cn('overflow-hidden', className)}>
@@ -37,85 +82,47 @@ export const ComparisonTable: React.FC<ComparisonTableProps> = ({ plans, classNa
                 <th className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Plan Details</th>
                 {plans.map(plan => (
                   <th key={plan.id} className="h-12 px-4 text-left align-middle font-medium">
-                    {plan.name}
+                    <div>{plan.name}</div>
+                    <div className="text-xs font-normal text-muted-foreground">{plan.insurerName}</div>
                   </th>
                 ))}
               </tr>
             </thead>
             <tbody>
-              <tr className="border-b transition-colors hover:bg-muted/50">
-                <td className="p-4 align-middle font-medium">Insurer</td>
-                {plans.map(plan => (
-                  <td key={plan.id} className="p-4 align-middle">
-                    {plan.insurerName}
-                  </td>
-                ))}
-              </tr>
-              <tr className="border-b transition-colors hover:bg-muted/50">
-                <td className="p-4 align-middle font-medium">Coverage Amount</td>
-                {plans.map(plan => (
-                  <td key={plan.id} className="p-4 align-middle">
-                    ₹{plan.coverageAmount.toLocaleString()}
-                  </td>
-                ))}
-              </tr>
-              <tr className="border-b transition-colors hover:bg-muted/50">
-                <td className="p-4 align-middle font-medium">Plan Type</td>
-                {plans.map(plan => (
-                  <td key={plan.id} className="p-4 align-middle">
-                    {plan.planType}
-                  </td>
-                ))}
-              </tr>
               {plans.some(plan => plan.premium !== undefined) && (
                 <tr className="border-b transition-colors hover:bg-muted/50">
-                  <td className="p-4 align-middle font-medium">Premium</td>
+                  <td className="p-4 align-middle font-medium">Your Premium</td>
                   {plans.map(plan => (
                     <td key={plan.id} className="p-4 align-middle">
-                      {plan.premium ? `₹${plan.premium.toLocaleString()}/year` : '-'}
+                      {plan.premium ? `₹${plan.premium.toLocaleString('en-IN')}/year` : '-'}
                     </td>
                   ))}
                 </tr>
               )}
-              {plans.some(plan => plan.networkHospitals !== undefined) && (
-                <tr className="border-b transition-colors hover:bg-muted/50">
-                  <td className="p-4 align-middle font-medium">Network Hospitals</td>
-                  {plans.map(plan => (
-                    <td key={plan.id} className="p-4 align-middle">
-                      {plan.networkHospitals?.toLocaleString() || '-'}
-                    </td>
-                  ))}
-                </tr>
-              )}
-              {plans.some(plan => plan.claimSettlementRatio !== undefined) && (
-                <tr className="border-b transition-colors hover:bg-muted/50">
-                  <td className="p-4 align-middle font-medium">Claim Settlement Ratio</td>
-                  {plans.map(plan => (
-                    <td key={plan.id} className="p-4 align-middle">
-                      {plan.claimSettlementRatio ? `${plan.claimSettlementRatio}%` : '-'}
+              {sections.map(section => (
+                <React.Fragment key={section.title}>
+                  <tr className="border-b bg-muted/30">
+                    <td className="p-4 align-middle font-semibold" colSpan={plans.length + 1}>
+                      {section.title}
                     </td>
+                  </tr>
+                  {section.items.map(item => (
+                    <tr key={item.key ?? item.label} className="border-b transition-colors hover:bg-muted/50">
+                      <td className="p-4 align-middle">{item.label}</td>
+                      {item.values.map((value, i) => (
+                        <Cell key={plans[i]?.id ?? i} value={value} />
+                      ))}
+                    </tr>
                   ))}
+                </React.Fragment>
+              ))}
+              {differencesOnly && sections.length === 0 && (
+                <tr>
+                  <td className="p-4 text-center text-muted-foreground" colSpan={plans.length + 1}>
+                    These plans are the same on everything compared.
+                  </td>
                 </tr>
               )}
-              <tr className="border-b transition-colors">
-                <td className="p-4 align-middle font-medium" colSpan={plans.length + 1}>
-                  Features
-                </td>
-              </tr>
-              {allFeatures.map(feature => (
-                <tr key={feature} className="border-b transition-colors hover:bg-muted/50">
-                  <td className="p-4 align-middle">{feature}</td>
-                  {plans.map(plan => (
-                    <td key={plan.id} className="p-4 align-middle">
-                      {plan.features.includes(feature) ? (
-                        <Check className="h-4 w-4 text-green-500" />
-                      ) : (
-                        <X className="h-4 w-4 text-destructive" />
-                      )}
-                    </td>
-                  ))}
-                </tr>
-              ))}
             </tbody>
           </table>
         </div>
@@ -125,4 +132,3 @@ export const ComparisonTable: React.FC<ComparisonTableProps> = ({ plans, classNa
 };
 
 export default ComparisonTable;
-
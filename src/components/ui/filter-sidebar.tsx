@@ -1,107 +1,172 @@
 import React from 'react';
+import type { FacetCount, PlanFacets, RangeFacetCount } from '@/lib/plan-query';
+
+export interface AmountRange {
+  min: number;
+  max: number | null;
+}
+
+export interface PlanFilters {
+  planTypes: string[];
+  insurerIds: string[];
+  coverage: AmountRange | null;
+  premium: AmountRange | null;
+  benefits: string[];
+}
+
+export const EMPTY_PLAN_FILTERS: PlanFilters = {
+  planTypes: [],
+  insurerIds: [],
+  coverage: null,
+  premium: null,
+  benefits: [],
+};
 
 interface FilterSidebarProps {
-  filters: {
-    planType: string[];
-    coverageAmount: { min: number; max: number };
-    premium: { min: number; max: number };
-    insurer: string[];
-  };
-  onFilterChange: (filters: any) => void;
+  filters: PlanFilters;
+  facets: PlanFacets | null;
+  onFilterChange: (filters: PlanFilters) => void;
 }
 
-const FilterSidebar: React.FC<FilterSidebarProps> = ({ filters, onFilterChange }) => {
-  const handlePlanTypeChange = (planType: string) => {
-    const updatedPlanTypes = filters.planType.includes(planType)
-      ? filters.planType.filter(type => type !== planType)
-      : [...filters.planType, planType];
-    
-    onFilterChange({
-      ...filters,
-      planType: updatedPlanTypes,
-    });
+const PLAN_TYPE_LABELS: Record<string, string> = {
+  INDIVIDUAL: 'Individual',
+  FAMILY: 'Family',
+  SENIOR: 'Senior Citizen',
+  GROUP: 'Group',
+};
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// Options with no matching plans are hidden, unless already selected so they can be cleared
+const visibleOptions = <T extends FacetCount>(options: T[], isSelected: (option: T) => boolean) =>
+  options.filter(option => option.count > 0 || isSelected(option));
+
+const FacetSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="mb-6">
+    <h4 className="font-medium mb-2">{title}</h4>
+    <div className="space-y-2">{children}</div>
+  </div>
+);
+
+const FacetOption: React.FC<{
+  type: 'checkbox' | 'radio';
+  name: string;
+  label: string;
+  count: number;
+  checked: boolean;
+  onChange: () => void;
+}> = ({ type, name, label, count, checked, onChange }) => (
+  <label className="flex items-center justify-between text-sm">
+    <span className="flex items-center">
+      <input type={type} name={name} checked={checked} onChange={onChange} className="mr-2" />
+      {label}
+    </span>
+    <span className="text-gray-500">{count}</span>
+  </label>
+);
+
+const FilterSidebar: React.FC<FilterSidebarProps> = ({ filters, facets, onFilterChange }) => {
+  if (!facets) {
+    return (
+      <div className="bg-white p-4 rounded-lg shadow-md">
+        <h3 className="text-lg font-semibold mb-4">Filter Plans</h3>
+        <p className="text-sm text-gray-500">Loading filters…</p>
+      </div>
+    );
+  }
+
+  const isSameRange = (range: AmountRange | null, band: RangeFacetCount) =>
+    range?.min === band.min && range?.max === band.max;
+
+  const renderBands = (field: 'coverage' | 'premium', title: string, bands: RangeFacetCount[]) => {
+    const options = visibleOptions(bands, band => isSameRange(filters[field], band));
+    if (!options.length) return null;
+
+    return (
+      <FacetSection title={title}>
+        {options.map(band => (
+          <FacetOption
+            key={band.value}
+            type="radio"
+            name={field}
+            label={band.label}
+            count={band.count}
+            checked={isSameRange(filters[field], band)}
+            onChange={() => onFilterChange({ ...filters, [field]: { min: band.min, max: band.max } })}
+          />
+        ))}
+        {filters[field] && (
+          <button
+            type="button"
+            className="text-sm text-blue-600 hover:underline"
+            onClick={() => onFilterChange({ ...filters, [field]: null })}
+          >
+            Any amount
+          </button>
+        )}
+      </FacetSection>
+    );
   };
 
+  const planTypes = visibleOptions(facets.planTypes, option => filters.planTypes.includes(option.value));
+  const insurers = visibleOptions(facets.insurers, option => filters.insurerIds.includes(option.value));
+  const benefits = visibleOptions(facets.benefits, option => filters.benefits.includes(option.value));
+
   return (
     <div className="bg-white p-4 rounded-lg shadow-md">
       <h3 className="text-lg font-semibold mb-4">Filter Plans</h3>
-      
-      <div className="mb-6">
-        <h4 className="font-medium mb-2">Plan Type</h4>
-        <div className="space-y-2">
-          {['Individual', 'Family', 'Senior Citizen', 'Critical Illness'].map(type => (
-            <label key={type} className="flex items-center">
-              <input
-                type="checkbox"
-                checked={filters.planType.includes(type)}
-                onChange={() => handlePlanTypeChange(type)}
-                className="mr-2"
-              />
-              {type}
-            </label>
-          ))}
-        </div>
-      </div>
 
-      <div className="mb-6">
-        <h4 className="font-medium mb-2">Coverage Amount</h4>
-        <div className="space-y-2">
-          <label>
-            Min: ₹
-            <input
-              type="number"
-              value={filters.coverageAmount.min}
-              onChange={(e) => onFilterChange({
-                ...filters,
-                coverageAmount: { ...filters.coverageAmount, min: Number(e.target.value) }
-              })}
-              className="ml-2 border rounded px-2 py-1 w-20"
-            />
-          </label>
-          <label>
-            Max: ₹
-            <input
-              type="number"
-              value={filters.coverageAmount.max}
-              onChange={(e) => onFilterChange({
-                ...filters,
-                coverageAmount: { ...filters.coverageAmount, max: Number(e.target.value) }
-              })}
-              className="ml-2 border rounded px-2 py-1 w-20"
+      {planTypes.length > 0 && (
+        <FacetSection title="Plan Type">
+          {planTypes.map(option => (
+            <FacetOption
+              key={option.value}
+              type="checkbox"
+              name="planTypes"
+              label={PLAN_TYPE_LABELS[option.value] ?? option.label}
+              count={option.count}
+              checked={filters.planTypes.includes(option.value)}
+              onChange={() => onFilterChange({ ...filters, planTypes: toggle(filters.planTypes, option.value) })}
             />
-          </label>
-        </div>
-      </div>
+          ))}
+        </FacetSection>
+      )}
 
-      <div className="mb-6">
-        <h4 className="font-medium mb-2">Premium Range</h4>
-        <div className="space-y-2">
-          <label>
-            Min: ₹
-            <input
-              type="number"
-              value={filters.premium.min}
-              onChange={(e) => onFilterChange({
-                ...filters,
-                premium: { ...filters.premium, min: Number(e.target.value) }
-              })}
-              className="ml-2 border rounded px-2 py-1 w-20"
+      {insurers.length > 0 && (
+        <FacetSection title="Insurer">
+          {insurers.map(option => (
+            <FacetOption
+              key={option.value}
+              type="checkbox"
+              name="insurerIds"
+              label={option.label}
+              count={option.count}
+              checked={filters.insurerIds.includes(option.value)}
+              onChange={() => onFilterChange({ ...filters, insurerIds: toggle(filters.insurerIds, option.value) })}
             />
-          </label>
-          <label>
-            Max: ₹
-            <input
-              type="number"
-              value={filters.premium.max}
-              onChange={(e) => onFilterChange({
-                ...filters,
-                premium: { ...filters.premium, max: Number(e.target.value) }
-              })}
-              className="ml-2 border rounded px-2 py-1 w-20"
+          ))}
+        </FacetSection>
+      )}
+
+      {renderBands('coverage', 'Coverage Amount', facets.coverageBands)}
+      {renderBands('premium', 'Premium Range', facets.premiumBands)}
+
+      {benefits.length > 0 && (
+        <FacetSection title="Benefits">
+          {benefits.map(option => (
+            <FacetOption
+              key={option.value}
+              type="checkbox"
+              name="benefits"
+              label={option.label}
+              count={option.count}
+              checked={filters.benefits.includes(option.value)}
+              onChange={() => onFilterChange({ ...filters, benefits: toggle(filters.benefits, option.value) })}
             />
-          </label>
-        </div>
-      </div>
+          ))}
+        </FacetSection>
+      )}
     </div>
   );
 };
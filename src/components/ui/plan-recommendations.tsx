@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { Card, CardContent, CardHeader, CardTitle } from './card';
+import { Badge } from './badge';
+import type { PlanRecommendation, ScoringWeights } from '@/lib/recommendation';
+
+interface PlanRecommendationsProps {
+  className?: string;
+}
+
+const WEIGHT_LABELS: Record<keyof ScoringWeights, string> = {
+  coverage: 'Sum insured',
+  premium: 'Low premium',
+  insurerRating: 'Insurer rating',
+  networkSize: 'Hospital network',
+  benefits: 'Benefits',
+  ageAppropriate: 'Suits my age',
+  locationCoverage: 'Hospitals near me',
+  conditionCover: 'Covers my conditions',
+};
+
+const WEIGHT_KEYS = Object.keys(WEIGHT_LABELS) as (keyof ScoringWeights)[];
+const SLIDER_MAX = 10;
+const SAVE_DELAY_MS = 400;
+
+type SliderValues = Record<keyof ScoringWeights, number>;
+
+// Saved weights sum to 1; show them relative to the heaviest so it sits at the top
+function toSliderValues(weights: ScoringWeights): SliderValues {
+  const max = Math.max(...WEIGHT_KEYS.map(key => weights[key]));
+  return WEIGHT_KEYS.reduce((values, key) => {
+    values[key] = max ? Math.round((weights[key] / max) * SLIDER_MAX) : 0;
+    return values;
+  }, {} as SliderValues);
+}
+
+export function PlanRecommendations({ className = '' }: PlanRecommendationsProps) {
+  const { data: session } = useSession();
+  const [sliders, setSliders] = useState<SliderValues | null>(null);
+  const [recommendations, setRecommendations] = useState<PlanRecommendation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    if (!session?.user) return;
+    fetchRecommendations();
+  }, [session]);
+
+  useEffect(() => () => clearTimeout(saveTimer.current), []);
+
+  async function fetchRecommendations() {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/recommendations');
+      if (!response.ok) throw new Error('Failed to fetch recommendations');
+
+      const data = await response.json();
+      setSliders(toSliderValues(data.weights));
+      setRecommendations(data.recommendations);
+      setError(null);
+    } catch (err) {
+      setError('Error loading recommendations');
+      console.error('Recommendations fetch error:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function saveWeights(values: SliderValues) {
+    try {
+      setIsSaving(true);
+      // The API scales these to sum to 1 before ranking and saving
+      const weights = WEIGHT_KEYS.reduce((result, key) => {
+        result[key] = values[key] / SLIDER_MAX;
+        return result;
+      }, {} as ScoringWeights);
+
+      const response = await fetch('/api/recommendations', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weights }),
+      });
+      if (!response.ok) throw new Error('Failed to save weights');
+
+      const data = await response.json();
+      setRecommendations(data.recommendations);
+      setError(null);
+    } catch (err) {
+      setError('Error updating recommendations');
+      console.error('Recommendation weights save error:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleSliderChange(key: keyof ScoringWeights, value: number) {
+    if (!sliders) return;
+    const next = { ...sliders, [key]: value };
+    setSliders(next);
+
+    // Re-rank once the slider settles rather than on every step
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => saveWeights(next), SAVE_DELAY_MS);
+  }
+
+  if (!session?.user) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Recommended for You</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4">Loading recommendations...</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Tell us what matters most to you
+              </p>
+              {sliders && WEIGHT_KEYS.map(key => (
+                <div key={key}>
+                  <div className="flex justify-between text-sm">
+                    <label htmlFor={`weight-${key}`} className="font-medium">
+                      {WEIGHT_LABELS[key]}
+                    </label>
+                    <span className="text-muted-foreground">{sliders[key]}</span>
+                  </div>
+                  <input
+                    id={`weight-${key}`}
+                    type="range"
+                    min={0}
+                    max={SLIDER_MAX}
+                    step={1}
+                    value={sliders[key]}
+                    onChange={e => handleSliderChange(key, Number(e.target.value))}
+                    className="w-full accent-primary"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className={`lg:col-span-2 space-y-4 ${isSaving ? 'opacity-60' : ''}`}>
+              {error && <div className="text-red-500 text-sm">{error}</div>}
+              {recommendations.length === 0 ? (
+                <div className="text-center py-4 text-muted-foreground">
+                  No plans match your profile right now
+                </div>
+              ) : (
+                recommendations.map((plan, index) => (
+                  <div
+                    key={plan.id}
+                    className="p-4 rounded-lg border bg-card hover:bg-accent/5"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground">#{index + 1}</span>
+                          <Link href={`/plans/${plan.id}`} className="font-medium hover:underline">
+                            {plan.name}
+                          </Link>
+                          <Badge variant="secondary">
+                            {Math.round(plan.score * 100)}% match
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {plan.insurer} · ₹{plan.coverageAmount.toLocaleString('en-IN')} cover
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-semibold">
+                          ₹{plan.premium.toLocaleString('en-IN')}/yr
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {plan.premiumQuoted ? 'Quoted for you' : 'Base premium'}
+                        </div>
+                      </div>
+                    </div>
+                    {plan.reasons.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-sm text-gray-600">
+                        {plan.reasons.map(reason => (
+                          <li key={reason}>• {reason}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
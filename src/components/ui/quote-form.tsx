@@ -33,6 +33,26 @@ const MEDICAL_CONDITIONS = [
   'Obesity',
 ] as const;
 
+const RIDERS = [
+  { value: 'CRITICAL_ILLNESS', label: 'Critical Illness', description: 'Lump sum on diagnosis of a listed illness' },
+  { value: 'OPD', label: 'OPD Cover', description: 'Consultations, diagnostics and pharmacy' },
+  { value: 'MATERNITY', label: 'Maternity', description: 'Delivery expenses and newborn care' },
+  { value: 'ROOM_RENT_WAIVER', label: 'Room Rent Waiver', description: 'No room rent sub-limit' },
+] as const;
+
+const PAYMENT_FREQUENCIES = [
+  { value: 'ANNUAL', label: 'Annual' },
+  { value: 'HALF_YEARLY', label: 'Half-yearly (+2%)' },
+  { value: 'QUARTERLY', label: 'Quarterly (+3%)' },
+  { value: 'MONTHLY', label: 'Monthly (+5%)' },
+] as const;
+
+const POLICY_TERMS = [
+  { value: '1', label: '1 year' },
+  { value: '2', label: '2 years (5% off)' },
+  { value: '3', label: '3 years (7.5% off)' },
+] as const;
+
 const FamilyMemberSchema = z.object({
   relationship: z.enum(RELATIONSHIPS),
   firstName: z.string().min(1, 'First name is required'),
@@ -52,6 +72,9 @@ const QuoteFormSchema = z.object({
   phone: z.string().min(10, 'Phone number must be at least 10 digits'),
   familyMembers: z.array(FamilyMemberSchema).optional(),
   medicalConditions: z.array(z.enum(MEDICAL_CONDITIONS)).optional(),
+  riders: z.array(z.enum(['CRITICAL_ILLNESS', 'OPD', 'MATERNITY', 'ROOM_RENT_WAIVER'])).optional(),
+  paymentFrequency: z.enum(['ANNUAL', 'HALF_YEARLY', 'QUARTERLY', 'MONTHLY']).optional(),
+  policyTerm: z.enum(['1', '2', '3']).optional(),
   location: z.object({
     city: z.string().min(1, 'City is required'),
     state: z.string().min(1, 'State is required'),
@@ -410,6 +433,68 @@ export function QuoteForm({ onSubmit, loading = false, defaultValues }: QuoteFor
         </CardContent>
       </Card>
 
+      {/* Add-on Riders */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Add-on Riders</CardTitle>
+          <CardDescription>
+            Optional cover priced on top of the base plan, subject to age and gender eligibility
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {RIDERS.map((rider) => (
+              <label key={rider.value} className="flex items-start space-x-2">
+                <Checkbox
+                  value={rider.value}
+                  {...register('riders')}
+                />
+                <span className="text-sm">
+                  <span className="font-medium">{rider.label}</span>
+                  <span className="block text-muted-foreground">{rider.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Policy Term and Payment Frequency */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Policy Term and Payment</CardTitle>
+          <CardDescription>
+            Longer terms are discounted. Pay at once or in instalments, which carry a small loading
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select {...register('policyTerm')}>
+            <SelectTrigger>
+              <SelectValue placeholder="1 year" />
+            </SelectTrigger>
+            <SelectContent>
+              {POLICY_TERMS.map((term) => (
+                <SelectItem key={term.value} value={term.value}>
+                  {term.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select {...register('paymentFrequency')}>
+            <SelectTrigger>
+              <SelectValue placeholder="Annual" />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_FREQUENCIES.map((frequency) => (
+                <SelectItem key={frequency.value} value={frequency.value}>
+                  {frequency.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
       <Button type="submit" className="w-full" disabled={loading}>
         {loading ? 'Generating Quotes...' : 'Get Quotes'}
       </Button>
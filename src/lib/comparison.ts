@@ -0,0 +1,827 @@
+import { prisma } from './prisma';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { GeoPoint, GeoPointSchema, getHospitalPoint, haversineKm } from './geo';
+
+const COMPARABLE_PLAN_INCLUDE = {
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+      logo: true,
+      rating: true,
+      establishedYear: true,
+    },
+  },
+  benefits: {
+    where: { status: 'ACTIVE' },
+  },
+  waitingPeriods: {
+    include: {
+      benefit: {
+        select: { name: true },
+      },
+    },
+  },
+  networkHospitals: {
+    select: {
+      cashless: true,
+      hospital: {
+        select: {
+          id: true,
+          name: true,
+          address: true,
+          latitude: true,
+          longitude: true,
+          specialties: true,
+          rating: true,
+        },
+      },
+    },
+  },
+  _count: {
+    select: {
+      policies: true,
+      networkHospitals: true,
+    },
+  },
+} as const;
+
+export type ComparablePlan = Prisma.ProductPlanGetPayload<{ include: typeof COMPARABLE_PLAN_INCLUDE }>;
+
+// Plans to compare: between two and four distinct plans
+export const ComparePlanIdsSchema = z.array(z.string().uuid('Invalid plan ID format'))
+  .min(2, 'Must compare at least 2 plans')
+  .max(4, 'Cannot compare more than 4 plans')
+  .refine(
+    (ids) => new Set(ids).size === ids.length,
+    'Duplicate plan IDs are not allowed'
+  );
+
+// What /api/compare and the comparison PDF accept
+export const CompareRequestSchema = z.object({
+  planIds: ComparePlanIdsSchema,
+  // City to count network hospitals in; defaults to the customer's own city
+  city: z.string().trim().min(1).optional(),
+  differencesOnly: z.boolean().default(false),
+  // Hospitals to check against each plan's network
+  hospitalIds: z.array(z.string().uuid('Invalid hospital ID format')).max(20).optional(),
+  // Without hospitalIds, network hospitals within radiusKm of here are checked
+  location: GeoPointSchema.optional(),
+  radiusKm: z.number().positive().max(100).optional(),
+});
+
+export type CompareRequest = z.infer<typeof CompareRequestSchema>;
+
+export interface ComparisonPlanSummary {
+  id: string;
+  name: string;
+  insurer: ComparablePlan['insurer'];
+  coverageAmount: ComparablePlan['coverageAmount'];
+  premiumAmount: ComparablePlan['premiumAmount'];
+  deductible: ComparablePlan['deductible'];
+  planType: ComparablePlan['planType'];
+  features: ComparablePlan['features'];
+  hospitalCount: number;
+  policyCount: number;
+}
+
+export interface ComparisonResult {
+  plans: ComparisonPlanSummary[];
+  matrix: ComparisonMatrix;
+  prosAndCons: PlanProsAndCons[];
+  similarityScores: Record<string, number>;
+  // City the network rows were limited to, if any
+  city: string | null;
+  // How the customer's chosen or nearby hospitals sit in each network
+  networkOverlap: NetworkOverlap | null;
+}
+
+export interface ComparisonOptions {
+  city?: string | null;
+  differencesOnly?: boolean;
+  // Hospitals the customer wants cover at, from loadPreferredHospitals
+  hospitals?: PreferredHospital[];
+  // Where the customer is; without hospitals, network hospitals near here are used
+  location?: GeoPoint | null;
+  radiusKm?: number;
+}
+
+export type PreferredHospital = Prisma.HospitalGetPayload<{ select: typeof PREFERRED_HOSPITAL_SELECT }>;
+
+export interface OverlapHospital {
+  id: string;
+  name: string;
+  city: string | null;
+  distanceKm: number | null; // null without a location or hospital coordinates
+}
+
+export interface PlanNetworkOverlap {
+  planId: string;
+  hospitals: { hospitalId: string; inNetwork: boolean; cashless: boolean }[];
+  inNetworkCount: number;
+  cashlessCount: number;
+  // Hospitals in this plan's network and no other compared plan's
+  uniqueHospitalIds: string[];
+}
+
+export interface NetworkOverlap {
+  location: GeoPoint | null;
+  radiusKm: number | null; // set when hospitals were picked by distance
+  hospitals: OverlapHospital[];
+  // Hospitals in the network of every compared plan
+  sharedHospitalIds: string[];
+  plans: PlanNetworkOverlap[];
+}
+
+export interface ComparisonError {
+  error: string;
+  status: number;
+  details: Record<string, unknown>;
+}
+
+// Load the plans on sale with their insurer, active benefits, waiting periods and network hospitals
+export async function loadComparablePlans(planIds: string[]): Promise<ComparablePlan[]> {
+  const plans = await prisma.productPlan.findMany({
+    where: {
+      id: { in: planIds },
+      status: 'ACTIVE',
+    },
+    include: COMPARABLE_PLAN_INCLUDE,
+  });
+
+  // Keep the order the plans were asked for, so columns match the request
+  return planIds
+    .map(id => plans.find(plan => plan.id === id))
+    .filter((plan): plan is ComparablePlan => Boolean(plan));
+}
+
+const PREFERRED_HOSPITAL_SELECT = {
+  id: true,
+  name: true,
+  address: true,
+  latitude: true,
+  longitude: true,
+} as const;
+
+// Load the customer's chosen hospitals, in the order they were given
+export async function loadPreferredHospitals(hospitalIds: string[]): Promise<PreferredHospital[]> {
+  const hospitals = await prisma.hospital.findMany({
+    where: { id: { in: hospitalIds } },
+    select: PREFERRED_HOSPITAL_SELECT,
+  });
+
+  return hospitalIds
+    .map(id => hospitals.find(hospital => hospital.id === id))
+    .filter((hospital): hospital is PreferredHospital => Boolean(hospital));
+}
+
+// Why a set of plans cannot be compared, or null when they can
+export function getComparisonError(planIds: string[], plans: ComparablePlan[]): ComparisonError | null {
+  if (plans.length !== planIds.length) {
+    const foundIds = plans.map(p => p.id);
+    return {
+      error: 'One or more plans not found or not available',
+      status: 404,
+      details: {
+        missingPlanIds: planIds.filter(id => !foundIds.includes(id)),
+      },
+    };
+  }
+
+  // Plans must be of the same type
+  const planTypes = new Set(plans.map(p => p.planType));
+  if (planTypes.size > 1) {
+    return {
+      error: 'Cannot compare plans of different types',
+      status: 400,
+      details: {
+        planTypes: Array.from(planTypes),
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Loads and checks everything a compare request names, then builds the
+ * comparison. defaultCity is used when the request names no city.
+ */
+export async function compareRequestedPlans(
+  request: CompareRequest,
+  defaultCity: string | null = null
+): Promise<{ comparison: ComparisonResult; plans: ComparablePlan[] } | { error: ComparisonError }> {
+  const plans = await loadComparablePlans(request.planIds);
+
+  // Verify all plans exist and are comparable (same type)
+  const comparisonError = getComparisonError(request.planIds, plans);
+  if (comparisonError) return { error: comparisonError };
+
+  const hospitals = request.hospitalIds?.length
+    ? await loadPreferredHospitals(request.hospitalIds)
+    : undefined;
+  if (request.hospitalIds && hospitals && hospitals.length !== request.hospitalIds.length) {
+    const foundIds = hospitals.map(h => h.id);
+    return {
+      error: {
+        error: 'One or more hospitals not found',
+        status: 404,
+        details: {
+          missingHospitalIds: request.hospitalIds.filter(id => !foundIds.includes(id)),
+        },
+      },
+    };
+  }
+
+  const comparison = buildComparison(plans, {
+    city: request.city ?? defaultCity,
+    differencesOnly: request.differencesOnly,
+    hospitals,
+    location: request.location,
+    radiusKm: request.radiusKm,
+  });
+
+  return { comparison, plans };
+}
+
+// Build the full comparison for plans that passed getComparisonError
+export function buildComparison(plans: ComparablePlan[], options: ComparisonOptions = {}): ComparisonResult {
+  const city = options.city?.trim() || null;
+  const networkOverlap = options.hospitals?.length || options.location
+    ? analyseNetworkOverlap(plans, options)
+    : null;
+  const matrix = generateComparisonMatrix(plans, city, networkOverlap);
+
+  return {
+    plans: plans.map(plan => ({
+      id: plan.id,
+      name: plan.name,
+      insurer: plan.insurer,
+      coverageAmount: plan.coverageAmount,
+      premiumAmount: plan.premiumAmount,
+      deductible: plan.deductible,
+      planType: plan.planType,
+      features: plan.features,
+      hospitalCount: plan._count.networkHospitals,
+      policyCount: plan._count.policies,
+    })),
+    matrix: options.differencesOnly ? onlyDifferences(matrix) : matrix,
+    prosAndCons: generateProsAndCons(plans),
+    similarityScores: calculateSimilarityScores(plans),
+    city,
+    networkOverlap,
+  };
+}
+
+// Calculate similarity scores between plans
+function calculateSimilarityScores(plans: ComparablePlan[]): Record<string, number> {
+  const scores: Record<string, number> = {};
+
+  for (let i = 0; i < plans.length; i++) {
+    for (let j = i + 1; j < plans.length; j++) {
+      const planA = plans[i];
+      const planB = plans[j];
+
+      // Calculate similarity based on coverage amount, benefits, and features
+      let similarity = 0;
+
+      // Coverage amount similarity (0-1)
+      const maxCoverage = Math.max(
+        (planA.coverageAmount as unknown as Prisma.Decimal).toNumber(),
+        (planB.coverageAmount as unknown as Prisma.Decimal).toNumber()
+      );
+      const coverageDiff = Math.abs(
+        (planA.coverageAmount as unknown as Prisma.Decimal).toNumber() -
+        (planB.coverageAmount as unknown as Prisma.Decimal).toNumber()
+      );
+      similarity += 1 - (coverageDiff / maxCoverage);
+
+      // Features similarity (0-1)
+      const featuresA = Object.keys(planA.features as Record<string, unknown>);
+      const featuresB = Object.keys(planB.features as Record<string, unknown>);
+      const commonFeatures = featuresA.filter(f => featuresB.includes(f));
+      similarity += commonFeatures.length / Math.max(featuresA.length, featuresB.length);
+
+      // Normalize to 0-100%
+      const score = Math.round((similarity / 2) * 100);
+      scores[`${planA.id}-${planB.id}`] = score;
+    }
+  }
+
+  return scores;
+}
+
+export type CellRating = 'better' | 'worse' | 'equal';
+
+export interface ComparisonValue {
+  value: number | string | boolean | null;
+  displayValue: string;
+  // How the cell compares with the other plans; null when it cannot be ranked
+  rating: CellRating | null;
+}
+
+export interface ComparisonItem {
+  key: string;
+  label: string;
+  values: ComparisonValue[];
+  differs: boolean;
+}
+
+export interface ComparisonSection {
+  title: string;
+  items: ComparisonItem[];
+}
+
+export interface ComparisonMatrix {
+  basicInfo: ComparisonSection;
+  costSharing: ComparisonSection;
+  benefits: ComparisonSection;
+  subLimits: ComparisonSection;
+  waitingPeriods: ComparisonSection;
+  network: ComparisonSection;
+  preferredHospitals: ComparisonSection;
+}
+
+type Direction = 'higher' | 'lower';
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+const formatDays = (days: number) => days ? `${days} days` : 'None';
+
+/**
+ * Rates each plan's value against the average of the compared plans, so
+ * with two plans one is better and one worse, and identical values are
+ * equal. Values that cannot be ranked (null) get no rating.
+ */
+export function rateValues(values: (number | null)[], direction: Direction): (CellRating | null)[] {
+  const numbers = values.filter((value): value is number => value !== null);
+  if (!numbers.length) return values.map(() => null);
+
+  const finite = numbers.filter(Number.isFinite);
+  const mean = finite.length === numbers.length
+    ? finite.reduce((sum, value) => sum + value, 0) / finite.length
+    : null;
+
+  return values.map(value => {
+    if (value === null) return null;
+    if (numbers.every(other => other === value)) return 'equal';
+
+    // Unlimited values sit above any finite mean
+    const above = mean === null ? value === Infinity : value > mean;
+    const below = mean === null ? value !== Infinity : value < mean;
+    if (!above && !below) return 'equal';
+    return above === (direction === 'higher') ? 'better' : 'worse';
+  });
+}
+
+function makeItem(
+  key: string,
+  label: string,
+  cells: { value: ComparisonValue['value']; displayValue: string; rank: number | null }[],
+  direction?: Direction
+): ComparisonItem {
+  const ratings = direction
+    ? rateValues(cells.map(cell => cell.rank), direction)
+    : cells.map(() => null);
+  const allSame = new Set(cells.map(cell => cell.displayValue)).size === 1;
+
+  return {
+    key,
+    label,
+    values: cells.map((cell, i) => ({
+      value: cell.value,
+      displayValue: cell.displayValue,
+      rating: ratings[i] ?? (allSame ? 'equal' : null),
+    })),
+    differs: !allSame,
+  };
+}
+
+// Drops rows where every plan has the same value
+export function onlyDifferences(matrix: ComparisonMatrix): ComparisonMatrix {
+  const filtered = { ...matrix };
+  (Object.keys(filtered) as (keyof ComparisonMatrix)[]).forEach(key => {
+    filtered[key] = {
+      ...matrix[key],
+      items: matrix[key].items.filter(item => item.differs),
+    };
+  });
+  return filtered;
+}
+
+const BENEFIT_FILLER_WORDS = new Set([
+  'cover', 'coverage', 'benefit', 'benefits', 'expenses', 'expense', 'charges', 'procedures', 'treatment', 'treatments',
+]);
+
+// Different insurers' names for the same benefit
+const BENEFIT_SYNONYMS: Record<string, string> = {
+  'in patient hospitalization': 'hospitalization',
+  'inpatient hospitalization': 'hospitalization',
+  'inpatient care': 'hospitalization',
+  'daycare': 'day care',
+  'pre post hospitalization': 'pre and post hospitalization',
+  'road ambulance': 'ambulance',
+  'emergency ambulance': 'ambulance',
+  'domiciliary hospitalization': 'home treatment',
+};
+
+/**
+ * A key that lines up the same benefit across insurers, e.g. "Hospitalisation
+ * Cover" and "In-patient Hospitalization" both become "hospitalization".
+ */
+export function canonicalBenefitName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/isation/g, 'ization')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !BENEFIT_FILLER_WORDS.has(word));
+  const key = words.join(' ');
+  return BENEFIT_SYNONYMS[key] ?? key;
+}
+
+const humanize = (key: string) =>
+  key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, char => char.toUpperCase());
+
+const getFeatures = (plan: ComparablePlan) =>
+  (plan.features && typeof plan.features === 'object' && !Array.isArray(plan.features)
+    ? plan.features
+    : {}) as Record<string, any>;
+
+// Co-pay is kept in the plan features as a percentage of each claim
+const getCoPay = (plan: ComparablePlan): number => {
+  const coPay = Number(getFeatures(plan).coPay ?? 0);
+  return Number.isFinite(coPay) ? coPay : 0;
+};
+
+const getHospitalCity = (address: Prisma.JsonValue): string | null => {
+  const city = (address as Record<string, unknown> | null)?.city;
+  return typeof city === 'string' ? city : null;
+};
+
+// Helper function to generate comparison matrix
+function generateComparisonMatrix(
+  plans: ComparablePlan[],
+  city: string | null,
+  networkOverlap: NetworkOverlap | null
+): ComparisonMatrix {
+  return {
+    basicInfo: {
+      title: 'Basic Information',
+      items: [
+        makeItem('coverageAmount', 'Coverage Amount', plans.map(p => ({
+          value: Number(p.coverageAmount),
+          displayValue: formatAmount(Number(p.coverageAmount)),
+          rank: Number(p.coverageAmount),
+        })), 'higher'),
+        makeItem('premiumAmount', 'Base Premium', plans.map(p => ({
+          value: Number(p.premiumAmount),
+          displayValue: `${formatAmount(Number(p.premiumAmount))}/year`,
+          rank: Number(p.premiumAmount),
+        })), 'lower'),
+        makeItem('planType', 'Plan Type', plans.map(p => ({
+          value: p.planType,
+          displayValue: p.planType,
+          rank: null,
+        }))),
+        makeItem('insurerRating', 'Insurer Rating', plans.map(p => ({
+          value: p.insurer.rating,
+          displayValue: p.insurer.rating === null ? 'Not rated' : `${p.insurer.rating}/5`,
+          rank: p.insurer.rating,
+        })), 'higher'),
+      ],
+    },
+    costSharing: {
+      title: 'Cost Sharing',
+      items: [
+        makeItem('deductible', 'Deductible', plans.map(p => ({
+          value: Number(p.deductible),
+          displayValue: Number(p.deductible) ? formatAmount(Number(p.deductible)) : 'None',
+          rank: Number(p.deductible),
+        })), 'lower'),
+        makeItem('coPay', 'Co-pay', plans.map(p => ({
+          value: getCoPay(p),
+          displayValue: getCoPay(p) ? `${getCoPay(p)}% of each claim` : 'None',
+          rank: getCoPay(p),
+        })), 'lower'),
+      ],
+    },
+    benefits: {
+      title: 'Benefits & Coverage',
+      items: generateBenefitComparisons(plans),
+    },
+    subLimits: {
+      title: 'Sub-limits',
+      items: generateSubLimitComparisons(plans),
+    },
+    waitingPeriods: {
+      title: 'Waiting Periods',
+      items: generateWaitingPeriodComparisons(plans),
+    },
+    network: {
+      title: city ? `Hospital Network in ${city}` : 'Hospital Network',
+      items: generateNetworkComparisons(plans, city),
+    },
+    preferredHospitals: {
+      title: networkOverlap?.radiusKm ? `Hospitals within ${networkOverlap.radiusKm} km` : 'Your Hospitals',
+      items: networkOverlap ? generatePreferredHospitalComparisons(networkOverlap) : [],
+    },
+  };
+}
+
+// Benefits lined up by canonical name, labelled with the first plan's wording
+function generateBenefitComparisons(plans: ComparablePlan[]): ComparisonItem[] {
+  const labels = new Map<string, string>();
+  plans.forEach(plan => {
+    plan.benefits.forEach(benefit => {
+      const key = canonicalBenefitName(benefit.name);
+      if (!labels.has(key)) labels.set(key, benefit.name);
+    });
+  });
+
+  return Array.from(labels).map(([key, label]) =>
+    makeItem(`benefit:${key}`, label, plans.map(plan => {
+      const benefit = plan.benefits.find(b => canonicalBenefitName(b.name) === key);
+      if (!benefit) {
+        return { value: false, displayValue: 'Not Covered', rank: 0 };
+      }
+      const amount = Number(benefit.coverageAmount);
+      return { value: amount, displayValue: `Covered up to ${formatAmount(amount)}`, rank: amount };
+    }), 'higher')
+  );
+}
+
+// Limits within the sum insured, e.g. room rent, kept in features.benefits
+function generateSubLimitComparisons(plans: ComparablePlan[]): ComparisonItem[] {
+  const subLimits = plans.map(plan =>
+    (getFeatures(plan).benefits ?? {}) as Record<string, { limit?: number | string; subLimit?: string | null }>
+  );
+  const keys = Array.from(new Set(subLimits.flatMap(limits => Object.keys(limits))));
+
+  return keys.map(key =>
+    makeItem(`subLimit:${key}`, humanize(key), subLimits.map(limits => {
+      const entry = limits[key];
+      if (!entry || entry.limit === undefined || entry.limit === null) {
+        return { value: null, displayValue: 'No sub-limit', rank: Infinity };
+      }
+      const suffix = entry.subLimit ? ` ${entry.subLimit}` : '';
+      if (typeof entry.limit === 'number') {
+        return { value: entry.limit, displayValue: `${formatAmount(entry.limit)}${suffix}`, rank: entry.limit };
+      }
+      // Descriptive limits such as "Single Private Room" cannot be ranked
+      return { value: entry.limit, displayValue: `${entry.limit}${suffix}`, rank: null };
+    }), 'higher')
+  );
+}
+
+// Waiting periods from each plan's WaitingPeriod rows; a missing period counts as none
+function generateWaitingPeriodComparisons(plans: ComparablePlan[]): ComparisonItem[] {
+  const rows: { key: string; label: string; days: (plan: ComparablePlan) => number }[] = [
+    {
+      key: 'waiting:initial',
+      label: 'Initial waiting period',
+      days: plan => Math.max(0, ...plan.waitingPeriods.filter(p => p.type === 'INITIAL' && !p.benefitId).map(p => p.days)),
+    },
+    {
+      key: 'waiting:preExisting',
+      label: 'Pre-existing diseases',
+      days: plan => Math.max(0, ...plan.waitingPeriods.filter(p => p.type === 'PRE_EXISTING').map(p => p.days)),
+    },
+    {
+      key: 'waiting:specificDisease',
+      label: 'Specific diseases',
+      days: plan => Math.max(0, ...plan.waitingPeriods.filter(p => p.type === 'SPECIFIC_DISEASE').map(p => p.days)),
+    },
+  ];
+
+  // Benefit-specific periods, lined up like the benefits themselves
+  const benefitLabels = new Map<string, string>();
+  plans.forEach(plan => {
+    plan.waitingPeriods.forEach(period => {
+      if (!period.benefit) return;
+      const key = canonicalBenefitName(period.benefit.name);
+      if (!benefitLabels.has(key)) benefitLabels.set(key, period.benefit.name);
+    });
+  });
+  benefitLabels.forEach((label, key) => {
+    rows.push({
+      key: `waiting:benefit:${key}`,
+      label,
+      days: plan => Math.max(0, ...plan.waitingPeriods
+        .filter(p => p.benefit && canonicalBenefitName(p.benefit.name) === key)
+        .map(p => p.days)),
+    });
+  });
+
+  return rows.map(row =>
+    makeItem(row.key, row.label, plans.map(plan => {
+      const days = row.days(plan);
+      return { value: days, displayValue: formatDays(days), rank: days };
+    }), 'lower')
+  );
+}
+
+/**
+ * Network size and overlap, limited to hospitals in the given city when
+ * there is one. Overlap counts hospitals every compared plan shares, and
+ * those only this plan has.
+ */
+function generateNetworkComparisons(plans: ComparablePlan[], city: string | null): ComparisonItem[] {
+  const networks = plans.map(plan =>
+    plan.networkHospitals.filter(nh =>
+      !city || getHospitalCity(nh.hospital.address)?.toLowerCase() === city.toLowerCase()
+    )
+  );
+  const hospitalSets = networks.map(network => new Set(network.map(nh => nh.hospital.id)));
+  const shared = Array.from(hospitalSets[0] ?? []).filter(id => hospitalSets.every(set => set.has(id)));
+
+  return [
+    makeItem('network:hospitals', 'Network hospitals', networks.map(network => ({
+      value: network.length,
+      displayValue: network.length.toLocaleString('en-IN'),
+      rank: network.length,
+    })), 'higher'),
+    makeItem('network:cashless', 'Cashless hospitals', networks.map(network => {
+      const cashless = network.filter(nh => nh.cashless).length;
+      return { value: cashless, displayValue: cashless.toLocaleString('en-IN'), rank: cashless };
+    }), 'higher'),
+    makeItem('network:shared', 'In every compared plan', networks.map(() => ({
+      value: shared.length,
+      displayValue: shared.length.toLocaleString('en-IN'),
+      rank: shared.length,
+    })), 'higher'),
+    makeItem('network:unique', 'Only in this plan', hospitalSets.map((set, i) => {
+      const unique = Array.from(set).filter(id => hospitalSets.every((other, j) => j === i || !other.has(id))).length;
+      return { value: unique, displayValue: unique.toLocaleString('en-IN'), rank: unique };
+    }), 'higher'),
+  ];
+}
+
+export interface PlanProsAndCons {
+  planId: string;
+  pros: string[];
+  cons: string[];
+}
+
+// Hospitals near a location when the customer named none
+const NEARBY_HOSPITAL_LIMIT = 20;
+const DEFAULT_RADIUS_KM = 10;
+
+const roundKm = (km: number) => Math.round(km * 10) / 10;
+
+/**
+ * Checks the customer's chosen hospitals, or failing that the compared
+ * plans' network hospitals near their location, against each plan's
+ * network: whether they are in it, cashless, shared by every plan or only
+ * in one.
+ */
+export function analyseNetworkOverlap(plans: ComparablePlan[], options: ComparisonOptions): NetworkOverlap {
+  const location = options.location ?? null;
+  const radiusKm = options.radiusKm ?? DEFAULT_RADIUS_KM;
+  const distanceTo = (hospital: Parameters<typeof getHospitalPoint>[0]) => {
+    const point = getHospitalPoint(hospital);
+    return location && point ? roundKm(haversineKm(location, point)) : null;
+  };
+  const pickedByDistance = !options.hospitals?.length;
+
+  let hospitals: OverlapHospital[];
+  if (!pickedByDistance) {
+    hospitals = options.hospitals!.map(hospital => ({
+      id: hospital.id,
+      name: hospital.name,
+      city: getHospitalCity(hospital.address),
+      distanceKm: distanceTo(hospital),
+    }));
+  } else {
+    const nearby = new Map<string, OverlapHospital>();
+    plans.forEach(plan => {
+      plan.networkHospitals.forEach(({ hospital }) => {
+        if (nearby.has(hospital.id)) return;
+        const distanceKm = distanceTo(hospital);
+        if (distanceKm === null || distanceKm > radiusKm) return;
+        nearby.set(hospital.id, {
+          id: hospital.id,
+          name: hospital.name,
+          city: getHospitalCity(hospital.address),
+          distanceKm,
+        });
+      });
+    });
+    hospitals = Array.from(nearby.values())
+      .sort((a, b) => a.distanceKm! - b.distanceKm!)
+      .slice(0, NEARBY_HOSPITAL_LIMIT);
+  }
+
+  // Hospital id -> cashless, per plan
+  const networks = plans.map(plan =>
+    new Map(plan.networkHospitals.map(nh => [nh.hospital.id, nh.cashless] as [string, boolean]))
+  );
+
+  return {
+    location,
+    radiusKm: pickedByDistance ? radiusKm : null,
+    hospitals,
+    sharedHospitalIds: hospitals
+      .filter(hospital => networks.every(network => network.has(hospital.id)))
+      .map(hospital => hospital.id),
+    plans: plans.map((plan, i) => {
+      const statuses = hospitals.map(hospital => ({
+        hospitalId: hospital.id,
+        inNetwork: networks[i].has(hospital.id),
+        cashless: networks[i].get(hospital.id) ?? false,
+      }));
+      return {
+        planId: plan.id,
+        hospitals: statuses,
+        inNetworkCount: statuses.filter(status => status.inNetwork).length,
+        cashlessCount: statuses.filter(status => status.cashless).length,
+        uniqueHospitalIds: hospitals
+          .filter(hospital =>
+            networks[i].has(hospital.id) && networks.every((network, j) => j === i || !network.has(hospital.id))
+          )
+          .map(hospital => hospital.id),
+      };
+    }),
+  };
+}
+
+// One row per hospital, cashless being better than reimbursement only
+function generatePreferredHospitalComparisons(overlap: NetworkOverlap): ComparisonItem[] {
+  const summary = makeItem('hospitals:cashless', 'Cashless at these hospitals', overlap.plans.map(plan => ({
+    value: plan.cashlessCount,
+    displayValue: `${plan.cashlessCount} of ${overlap.hospitals.length}`,
+    rank: plan.cashlessCount,
+  })), 'higher');
+
+  const rows = overlap.hospitals.map((hospital, h) => {
+    const distance = hospital.distanceKm === null ? '' : ` (${hospital.distanceKm} km)`;
+    return makeItem(`hospital:${hospital.id}`, `${hospital.name}${distance}`, overlap.plans.map(plan => {
+      const { inNetwork, cashless } = plan.hospitals[h];
+      if (cashless) return { value: 'CASHLESS', displayValue: 'Cashless', rank: 2 };
+      if (inNetwork) return { value: 'REIMBURSEMENT', displayValue: 'Reimbursement only', rank: 1 };
+      return { value: null, displayValue: 'Not in network', rank: 0 };
+    }), 'higher');
+  });
+
+  return overlap.hospitals.length ? [summary, ...rows] : [];
+}
+
+const totalWaitingDays = (plan: ComparablePlan) =>
+  plan.waitingPeriods.reduce((total, period) => total + period.days, 0);
+
+function generateProsAndCons(plans: ComparablePlan[]): PlanProsAndCons[] {
+  return plans.map(plan => {
+    const otherPlans = plans.filter(p => p.id !== plan.id);
+    const pros: string[] = [];
+    const cons: string[] = [];
+
+    // Compare coverage amount
+    const planCoverage = (plan.coverageAmount as unknown as Prisma.Decimal).toNumber();
+    const avgCoverage = otherPlans.reduce((sum, p) => 
+      sum + (p.coverageAmount as unknown as Prisma.Decimal).toNumber(), 0
+    ) / otherPlans.length;
+
+    if (planCoverage > avgCoverage) {
+      pros.push('Higher coverage amount than average');
+    } else if (planCoverage < avgCoverage) {
+      cons.push('Lower coverage amount than average');
+    }
+
+    // Compare network size
+    const avgNetworkSize = otherPlans.reduce((sum, p) => 
+      sum + p._count.networkHospitals, 0
+    ) / otherPlans.length;
+
+    if (plan._count.networkHospitals > avgNetworkSize) {
+      pros.push('Larger hospital network');
+    } else if (plan._count.networkHospitals < avgNetworkSize) {
+      cons.push('Smaller hospital network');
+    }
+
+    // Compare benefits
+    const uniqueBenefits = plan.benefits.filter(benefit =>
+      !otherPlans.some(p => p.benefits.some(b => canonicalBenefitName(b.name) === canonicalBenefitName(benefit.name)))
+    );
+
+    if (uniqueBenefits.length > 0) {
+      pros.push(`Unique benefits: ${uniqueBenefits.map(b => b.name).join(', ')}`);
+    }
+
+    // Compare waiting periods
+    const avgWaitingPeriod = otherPlans.reduce((sum, p) => sum + totalWaitingDays(p), 0) / otherPlans.length;
+    const planWaitingPeriod = totalWaitingDays(plan);
+
+    if (planWaitingPeriod < avgWaitingPeriod) {
+      pros.push('Shorter waiting periods');
+    } else if (planWaitingPeriod > avgWaitingPeriod) {
+      cons.push('Longer waiting periods');
+    }
+
+    return {
+      planId: plan.id,
+      pros,
+      cons,
+    };
+  });
+}
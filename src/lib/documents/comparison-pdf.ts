@@ -0,0 +1,280 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ComparisonMatrix, ComparisonResult, ComparisonValue } from '../comparison';
+import type { QuoteInput, RecommendedPlan } from '../quote-engine';
+
+export interface ComparisonPdfInput {
+  comparison: ComparisonResult;
+  // Premiums for the customer's quote inputs; without them base premiums are shown
+  premiums?: RecommendedPlan[];
+  quoteInput?: QuoteInput | null;
+  generatedAt?: Date;
+}
+
+export const COMPARISON_DISCLAIMER =
+  'This comparison is for information only and is not an offer of insurance. Premiums are indicative ' +
+  'for the details given and may change after underwriting. Benefits, sub-limits, waiting periods and ' +
+  'network hospitals are summarised; the policy wording of each plan prevails. Read the sales brochure ' +
+  'and policy wording carefully before buying.';
+
+const SECTION_ORDER: (keyof ComparisonMatrix)[] = [
+  'basicInfo',
+  'costSharing',
+  'benefits',
+  'subLimits',
+  'waitingPeriods',
+  'network',
+  'preferredHospitals',
+];
+
+// A4 landscape, so four plans fit side by side
+const PAGE_SIZE: [number, number] = [841.89, 595.28];
+const MARGIN = 36;
+const LABEL_WIDTH = 190;
+const ROW_PADDING = 4;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = FONT_SIZE * 1.3;
+const LOGO_HEIGHT = 24;
+const LOGO_FETCH_TIMEOUT_MS = 5000; // a slow logo host should not hold up the document
+const FOOTER_HEIGHT = 48;
+
+const BRAND = rgb(0.11, 0.31, 0.62);
+const TEXT = rgb(0, 0, 0);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.85, 0.85, 0.85);
+const CELL_FILL: Record<string, ReturnType<typeof rgb>> = {
+  better: rgb(0.9, 0.97, 0.91),
+  worse: rgb(0.99, 0.91, 0.91),
+};
+
+// The standard fonts only cover WinAnsi, which has no rupee sign
+const toPdfText = (text: string) =>
+  text.replace(/₹/g, 'Rs. ').replace(/[^\x20-\x7E\xA0-\xFF–—‘’“”•…]/g, '');
+
+const formatRupees = (amount: number) => `Rs. ${Math.round(amount).toLocaleString('en-IN')}`;
+
+// Split text into lines that fit the width, breaking long words if needed
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of toPdfText(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+      let cut = rest.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  }
+
+  if (line) lines.push(line);
+  return lines.length ? lines : [''];
+}
+
+/**
+ * Insurer logos are stored as a URL or as a file name under public/. A logo
+ * that cannot be read or is not a PNG or JPEG is left out, and the insurer's
+ * name is shown on its own.
+ */
+async function embedLogo(pdfDoc: PDFDocument, logo: string | null): Promise<PDFImage | null> {
+  if (!logo) return null;
+
+  try {
+    let bytes: Uint8Array;
+    if (/^https?:\/\//.test(logo)) {
+      const response = await fetch(logo, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) });
+      if (!response.ok) return null;
+      bytes = new Uint8Array(await response.arrayBuffer());
+    } else {
+      const publicDir = path.join(process.cwd(), 'public');
+      const file = path.join(publicDir, logo.replace(/^\/+/, ''));
+      if (!file.startsWith(publicDir + path.sep)) return null;
+      bytes = new Uint8Array(await fs.readFile(file));
+    }
+
+    // PNG files start 0x89 'P', JPEG files 0xFF 0xD8
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdfDoc.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdfDoc.embedJpg(bytes);
+    return null;
+  } catch (error) {
+    console.warn(`Could not load insurer logo ${logo}:`, error);
+    return null;
+  }
+}
+
+function describeQuoteInput(input: QuoteInput): string {
+  const members = input.members?.length ?? input.familySize ?? 1;
+  return [
+    `${formatRupees(input.coverageAmount)} cover`,
+    `${members} member${members > 1 ? 's' : ''}`,
+    `eldest aged ${Math.max(input.age, ...(input.members ?? []).map(member => member.age))}`,
+    input.city,
+    input.policyTerm && input.policyTerm > 1 ? `${input.policyTerm}-year term` : null,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * A printable comparison: one column per plan with its insurer's logo, the
+ * customer's premium and every row of the comparison matrix, with better
+ * and worse cells shaded as on the compare page. Long tables continue on
+ * further pages under a repeated plan header.
+ */
+export async function generateComparisonPDF({
+  comparison,
+  premiums = [],
+  quoteInput = null,
+  generatedAt = new Date(),
+}: ComparisonPdfInput): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  pdfDoc.setTitle('Health Insurance Plan Comparison');
+  pdfDoc.setCreationDate(generatedAt);
+
+  const { plans } = comparison;
+  const [pageWidth, pageHeight] = PAGE_SIZE;
+  const columnWidth = (pageWidth - MARGIN * 2 - LABEL_WIDTH) / plans.length;
+  const columnX = (i: number) => MARGIN + LABEL_WIDTH + columnWidth * i;
+
+  // One logo per insurer, even when it offers several of the compared plans
+  const logos = new Map<string, PDFImage | null>();
+  for (const plan of plans) {
+    if (!logos.has(plan.insurer.id)) {
+      logos.set(plan.insurer.id, await embedLogo(pdfDoc, plan.insurer.logo));
+    }
+  }
+
+  let page: PDFPage;
+  let y = 0;
+
+  const drawPlanHeader = () => {
+    const top = y;
+    plans.forEach((plan, i) => {
+      let lineY = top;
+      const logo = logos.get(plan.insurer.id);
+      if (logo) {
+        const scaled = logo.scaleToFit(columnWidth - ROW_PADDING * 2, LOGO_HEIGHT);
+        page.drawImage(logo, { x: columnX(i) + ROW_PADDING, y: lineY - scaled.height, ...scaled });
+      }
+      lineY -= LOGO_HEIGHT + LINE_HEIGHT;
+      for (const line of wrapText(plan.name, bold, FONT_SIZE + 1, columnWidth - ROW_PADDING * 2)) {
+        page.drawText(line, { x: columnX(i) + ROW_PADDING, y: lineY, size: FONT_SIZE + 1, font: bold, color: TEXT });
+        lineY -= LINE_HEIGHT;
+      }
+      page.drawText(toPdfText(plan.insurer.name), {
+        x: columnX(i) + ROW_PADDING,
+        y: lineY,
+        size: FONT_SIZE,
+        font,
+        color: MUTED,
+      });
+      y = Math.min(y, lineY - LINE_HEIGHT);
+    });
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: pageWidth - MARGIN, y },
+      thickness: 1,
+      color: BRAND,
+    });
+    y -= ROW_PADDING;
+  };
+
+  const addPage = () => {
+    page = pdfDoc.addPage(PAGE_SIZE);
+    y = pageHeight - MARGIN;
+    drawPlanHeader();
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) addPage();
+  };
+
+  const drawRow = (label: string, values: Pick<ComparisonValue, 'displayValue' | 'rating'>[], labelFont = font) => {
+    const labelLines = wrapText(label, labelFont, FONT_SIZE, LABEL_WIDTH - ROW_PADDING * 2);
+    const valueLines = values.map(value => wrapText(value.displayValue, font, FONT_SIZE, columnWidth - ROW_PADDING * 2));
+    const lineCount = Math.max(labelLines.length, ...valueLines.map(lines => lines.length));
+    const height = lineCount * LINE_HEIGHT + ROW_PADDING * 2;
+
+    ensureSpace(height);
+
+    values.forEach((value, i) => {
+      const fill = value.rating ? CELL_FILL[value.rating] : undefined;
+      if (fill) {
+        page.drawRectangle({ x: columnX(i), y: y - height, width: columnWidth, height, color: fill });
+      }
+    });
+
+    const firstLineY = y - ROW_PADDING - FONT_SIZE;
+    labelLines.forEach((line, l) => {
+      page.drawText(line, { x: MARGIN + ROW_PADDING, y: firstLineY - l * LINE_HEIGHT, size: FONT_SIZE, font: labelFont, color: TEXT });
+    });
+    valueLines.forEach((lines, i) => {
+      lines.forEach((line, l) => {
+        page.drawText(line, { x: columnX(i) + ROW_PADDING, y: firstLineY - l * LINE_HEIGHT, size: FONT_SIZE, font, color: TEXT });
+      });
+    });
+
+    y -= height;
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: pageWidth - MARGIN, y }, thickness: 0.5, color: RULE });
+  };
+
+  // Title block on the first page
+  page = pdfDoc.addPage(PAGE_SIZE);
+  y = pageHeight - MARGIN;
+  page.drawText('Health Insurance Plan Comparison', { x: MARGIN, y: y - 16, size: 18, font: bold, color: BRAND });
+  y -= 16 + LINE_HEIGHT * 1.5;
+  page.drawText(`Generated on ${generatedAt.toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}`, { x: MARGIN, y, size: FONT_SIZE + 1, font, color: MUTED });
+  y -= LINE_HEIGHT * 1.2;
+  const pricing = quoteInput
+    ? `Premiums quoted for: ${describeQuoteInput(quoteInput)}`
+    : 'Premiums shown are base premiums. Get a quote for the premium for your family.';
+  page.drawText(toPdfText(pricing), { x: MARGIN, y, size: FONT_SIZE + 1, font, color: MUTED });
+  y -= LINE_HEIGHT * 2;
+  drawPlanHeader();
+
+  if (premiums.length) {
+    drawRow('Your premium', plans.map(plan => {
+      const premium = premiums.find(p => p.planId === plan.id);
+      const yearly = premium?.breakdown.yearlyPremiums?.[0]?.premium ?? premium?.premium;
+      return { displayValue: yearly === undefined ? 'Not available' : `${formatRupees(yearly)}/year`, rating: null };
+    }), bold);
+  }
+
+  for (const key of SECTION_ORDER) {
+    const section = comparison.matrix[key];
+    if (!section?.items.length) continue;
+
+    ensureSpace(LINE_HEIGHT * 3);
+    y -= LINE_HEIGHT;
+    page.drawText(toPdfText(section.title), { x: MARGIN, y: y - FONT_SIZE, size: FONT_SIZE + 2, font: bold, color: BRAND });
+    y -= FONT_SIZE + ROW_PADDING * 2;
+
+    for (const item of section.items) {
+      drawRow(item.label, item.values);
+    }
+  }
+
+  // Disclaimer and page numbers on every page
+  const pages = pdfDoc.getPages();
+  const disclaimer = wrapText(COMPARISON_DISCLAIMER, font, FONT_SIZE - 1, pageWidth - MARGIN * 2);
+  pages.forEach((p: PDFPage, i: number) => {
+    disclaimer.forEach((line, l) => {
+      p.drawText(line, { x: MARGIN, y: MARGIN + (disclaimer.length - l) * (FONT_SIZE - 1) * 1.3, size: FONT_SIZE - 1, font, color: MUTED });
+    });
+    p.drawText(`Page ${i + 1} of ${pages.length}`, { x: pageWidth - MARGIN - 50, y: MARGIN - 12, size: FONT_SIZE - 1, font, color: MUTED });
+  });
+
+  const pdfBytes = await pdfDoc.save();
+  return Buffer.from(pdfBytes);
+}
@@ -1,5 +1,7 @@
 import { PDFDocument, rgb } from 'pdf-lib';
 import { format } from 'date-fns';
+import { YearlyPremium } from '@/lib/quote-engine';
+import { PolicyCoverageDetails, PolicyRider } from '@/lib/riders';
 
 export async function generatePolicyPDF(policy: any): Promise<Buffer> {
   const pdfDoc = await PDFDocument.create();
@@ -38,7 +40,8 @@ export async function generatePolicyPDF(policy: any): Promise<Buffer> {
   drawLine('Policy Number:', policy.policyNumber);
   drawLine('Status:', policy.status);
   drawLine('Effective Date:', format(new Date(policy.effectiveDate), 'dd/MM/yyyy'));
-  drawLine('Expiry Date:', format(new Date(policy.expiryDate), 'dd/MM/yyyy'));
+  drawLine('Expiry Date:', format(new Date(policy.expirationDate), 'dd/MM/yyyy'));
+  drawLine('Policy Term:', `${policy.policyTerm ?? 1} year(s)`);
   drawLine('Plan Name:', policy.plan.name);
   drawLine('Insurer:', policy.plan.insurer.name);
 
@@ -57,6 +60,41 @@ export async function generatePolicyPDF(policy: any): Promise<Buffer> {
   drawLine('Phone:', policy.customer.phone || 'N/A');
   drawLine('Address:', policy.customer.address || 'N/A');
 
+  // Premium for each year of the term
+  const coverageDetails: Partial<PolicyCoverageDetails> | null = policy.coverageDetails;
+  const yearlyPremiums: YearlyPremium[] = coverageDetails?.yearlyPremiums ?? [];
+  if (yearlyPremiums.length) {
+    y -= lineHeight * 2;
+    page.drawText('Premium by Year', {
+      x: 50,
+      y,
+      size: 16,
+      color: rgb(0, 0, 0),
+    });
+    y -= lineHeight;
+
+    for (const year of yearlyPremiums) {
+      drawLine(`Year ${year.year}:`, `Rs. ${Number(year.premium).toLocaleString('en-IN')}`);
+    }
+  }
+
+  // Add-on riders
+  const riders: PolicyRider[] = coverageDetails?.riders ?? [];
+  if (riders.length) {
+    y -= lineHeight * 2;
+    page.drawText('Add-on Riders', {
+      x: 50,
+      y,
+      size: 16,
+      color: rgb(0, 0, 0),
+    });
+    y -= lineHeight;
+
+    for (const rider of riders) {
+      drawLine(`${rider.name}:`, `Rs. ${Number(rider.premium).toLocaleString('en-IN')}`);
+    }
+  }
+
   // Convert to Buffer
   const pdfBytes = await pdfDoc.save();
   return Buffer.from(pdfBytes);
@@ -1,12 +1,34 @@
+import { YearlyPremium } from '@/lib/quote-engine';
+import { PolicyCoverageDetails, PolicyRider } from '@/lib/riders';
+
 export async function generatePolicyPDF(policy: any): Promise<Buffer> {
   // For now, return a simple placeholder buffer to unblock the build
   // This should be replaced with actual PDF generation logic
+  const policyTerm = policy.policyTerm ?? 1;
+  const coverageDetails: Partial<PolicyCoverageDetails> | null = policy.coverageDetails;
+  const yearlyPremiums: YearlyPremium[] = coverageDetails?.yearlyPremiums ?? [];
+  const premiumLines = yearlyPremiums.length
+    ? yearlyPremiums.map(year => `  - Year ${year.year}: ₹${year.premium}`).join('\n')
+    : `  - Year 1: ₹${policy.premiumAmount}`;
+
+  const riders: PolicyRider[] = coverageDetails?.riders ?? [];
+  const riderLines = riders.length
+    ? riders.map(rider => `  - ${rider.name}: ₹${rider.premium}`).join('\n')
+    : '  None';
+
   const placeholderPDF = Buffer.from(`Policy Document
   
   Policy Number: ${policy.policyNumber}
   Policyholder: ${policy.customer.firstName} ${policy.customer.lastName}
   Plan: ${policy.plan.name}
   Status: ${policy.status}
+  Policy Term: ${policyTerm} year${policyTerm > 1 ? 's' : ''} (${new Date(policy.effectiveDate).toLocaleDateString('en-IN')} to ${new Date(policy.expirationDate).toLocaleDateString('en-IN')})
+  
+  Premium by Year:
+${premiumLines}
+  
+  Add-on Riders:
+${riderLines}
   
   This is a placeholder PDF document.`);
   
@@ -0,0 +1,76 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+
+export const GeoPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+})
+
+export type GeoPoint = z.infer<typeof GeoPointSchema>
+
+const EARTH_RADIUS_KM = 6371
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+
+// Great-circle distance between two points, in kilometres
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Coordinates kept in a hospital's address, as
+ * { coordinates: { latitude, longitude } }. Null when the hospital has none.
+ */
+export function getHospitalCoordinates(address: Prisma.JsonValue): GeoPoint | null {
+  const coordinates = (address as { coordinates?: { latitude?: unknown; longitude?: unknown } } | null)?.coordinates
+  if (coordinates?.latitude == null || coordinates?.longitude == null) return null
+  const lat = Number(coordinates.latitude)
+  const lng = Number(coordinates.longitude)
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null
+}
+
+/**
+ * Where a hospital is: its stored latitude and longitude, or failing that
+ * coordinates in its address.
+ */
+export function getHospitalPoint(hospital: {
+  latitude?: number | null
+  longitude?: number | null
+  address: Prisma.JsonValue
+}): GeoPoint | null {
+  if (hospital.latitude != null && hospital.longitude != null) {
+    return { lat: hospital.latitude, lng: hospital.longitude }
+  }
+  return getHospitalCoordinates(hospital.address)
+}
+
+export interface BoundingBox {
+  minLat: number
+  maxLat: number
+  minLng: number
+  maxLng: number
+}
+
+const KM_PER_DEGREE_LAT = 111.32
+
+/**
+ * A box around a point that holds every point within radiusKm of it, for a
+ * cheap indexed pre-filter before measuring exact distances. Near the poles
+ * the box spans every longitude.
+ */
+export function boundingBox(center: GeoPoint, radiusKm: number): BoundingBox {
+  const latRange = radiusKm / KM_PER_DEGREE_LAT
+  const cosLat = Math.cos(toRadians(center.lat))
+  const lngRange = cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE_LAT * cosLat) : 180
+
+  return {
+    minLat: Math.max(-90, center.lat - latRange),
+    maxLat: Math.min(90, center.lat + latRange),
+    minLng: Math.max(-180, center.lng - lngRange),
+    maxLng: Math.min(180, center.lng + lngRange),
+  }
+}
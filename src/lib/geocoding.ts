@@ -0,0 +1,63 @@
+import { prisma } from './prisma'
+import { Prisma } from '@prisma/client'
+import { GeoPoint, getHospitalCoordinates } from './geo'
+
+// Offline geocoding from the LocationCentroid table; nothing here calls
+// out to a geocoding service.
+
+export type LocationSource = 'ADDRESS' | 'PINCODE' | 'CITY'
+
+export interface GeocodedPoint extends GeoPoint {
+  source: LocationSource
+}
+
+export interface PlaceQuery {
+  pincode?: string | null
+  city?: string | null
+  state?: string | null
+}
+
+const normalizePincode = (pincode: string) => pincode.replace(/\s+/g, '')
+
+/**
+ * Centre of a pincode, or else of a city (narrowed by state when given).
+ * Null when the table has neither.
+ */
+export async function findCentroid({ pincode, city, state }: PlaceQuery): Promise<GeocodedPoint | null> {
+  if (pincode?.trim()) {
+    const centroid = await prisma.locationCentroid.findUnique({
+      where: { pincode: normalizePincode(pincode) },
+    })
+    if (centroid) return { lat: centroid.latitude, lng: centroid.longitude, source: 'PINCODE' }
+  }
+
+  if (city?.trim()) {
+    // Prefer the city's own row over any one of its pincodes
+    const centroid = await prisma.locationCentroid.findFirst({
+      where: {
+        city: { equals: city.trim(), mode: 'insensitive' },
+        ...(state?.trim() && { state: { equals: state.trim(), mode: 'insensitive' } }),
+      },
+      orderBy: { pincode: { sort: 'asc', nulls: 'first' } },
+    })
+    if (centroid) return { lat: centroid.latitude, lng: centroid.longitude, source: 'CITY' }
+  }
+
+  return null
+}
+
+/**
+ * Places an address: its own coordinates when it has them, otherwise the
+ * centre of its pincode or city.
+ */
+export async function geocodeAddress(address: Prisma.JsonValue): Promise<GeocodedPoint | null> {
+  const coordinates = getHospitalCoordinates(address)
+  if (coordinates) return { ...coordinates, source: 'ADDRESS' }
+
+  const { pincode, city, state } = (address ?? {}) as { pincode?: string; city?: string; state?: string }
+  return findCentroid({
+    pincode: pincode != null ? String(pincode) : null,
+    city,
+    state,
+  })
+}
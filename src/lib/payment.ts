@@ -4,36 +4,66 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
 });
 
+export interface CheckoutLineItem {
+  name: string;
+  description?: string;
+  images?: string[];
+  amount: number; // in the smallest currency unit
+}
+
 export async function createCheckoutSession(params: {
-  amount: number;
+  amount?: number;
+  lineItems?: CheckoutLineItem[];
   currency: string;
   customerEmail: string;
   cancelUrl: string;
   successUrl: string;
+  metadata?: Record<string, string>;
+  // Bill the line items every `intervalMonths` instead of charging once
+  recurring?: { intervalMonths: number };
 }): Promise<string> {
+  const lineItems = params.lineItems ?? [
+    { name: 'Insurance Premium', amount: params.amount ?? 0 },
+  ];
+
   const session = await stripe.checkout.sessions.create({
     payment_method_types: ['card'],
-    line_items: [
-      {
-        price_data: {
-          currency: params.currency,
-          product_data: {
-            name: 'Insurance Premium',
-          },
-          unit_amount: params.amount,
+    line_items: lineItems.map(item => ({
+      price_data: {
+        currency: params.currency,
+        product_data: {
+          name: item.name,
+          ...(item.description && { description: item.description }),
+          ...(item.images?.length && { images: item.images }),
         },
-        quantity: 1,
+        unit_amount: item.amount,
+        ...(params.recurring && {
+          recurring: { interval: 'month' as const, interval_count: params.recurring.intervalMonths },
+        }),
       },
-    ],
-    mode: 'payment',
+      quantity: 1,
+    })),
+    mode: params.recurring ? 'subscription' : 'payment',
     success_url: params.successUrl,
     cancel_url: params.cancelUrl,
     customer_email: params.customerEmail,
+    metadata: params.metadata,
+    // Instalment invoices carry the policy so the webhook can match them
+    ...(params.recurring
+      ? { subscription_data: { metadata: params.metadata } }
+      : { payment_intent_data: { metadata: params.metadata } }),
   });
 
   if (!session.url) {
     throw new Error('Failed to create checkout session URL');
   }
-  
+
   return session.url;
 }
+
+// Stop recurring billing once the last instalment of the policy term is paid
+export async function cancelSubscriptionAtPeriodEnd(subscriptionId: string): Promise<void> {
+  await stripe.subscriptions.update(subscriptionId, {
+    cancel_at_period_end: true,
+  });
+}
@@ -0,0 +1,380 @@
+import { z } from 'zod'
+import { PlanType, WaitingPeriodType } from '@prisma/client'
+import {
+  NetworkHospitalLinkSchema,
+  PlanBenefitInputSchema,
+  PlanDraftSchema,
+  PlanWaitingPeriodInputSchema,
+} from './plan-catalogue'
+
+// Catalogue files are a list of plans with their benefits, waiting periods
+// and network hospitals. The plan code ties a plan to its earlier versions,
+// so re-importing an export creates the next version of each plan; riders
+// are not in the file and carry over from the version before.
+export type CatalogueFormat = 'json' | 'csv'
+
+export const PlanImportSchema = PlanDraftSchema.extend({
+  planCode: z.string().min(1).max(100).optional(),
+  benefits: z.array(PlanBenefitInputSchema).default([]),
+  networkHospitals: z.array(NetworkHospitalLinkSchema).default([]),
+  waitingPeriods: z.array(PlanWaitingPeriodInputSchema).default([]),
+})
+
+export type PlanImport = z.infer<typeof PlanImportSchema>
+
+// A plan read from a file, with the row it started on for error reporting
+export interface PlanImportRecord {
+  row: number
+  plan: PlanImport
+}
+
+export interface ImportRowError {
+  row: number
+  planCode?: string
+  field: string
+  message: string
+}
+
+export interface ParsedCatalogue {
+  records: PlanImportRecord[]
+  errors: ImportRowError[]
+}
+
+export const CSV_COLUMNS = [
+  'recordType',
+  'planCode',
+  'name',
+  'description',
+  'planType',
+  'insurerId',
+  'coverageAmount',
+  'premiumAmount',
+  'deductible',
+  'features',
+  'waitingPeriod',
+  'waitingPeriodType',
+  'days',
+  'conditions',
+  'benefitName',
+  'hospitalId',
+  'cashless',
+] as const
+
+type CsvColumn = typeof CSV_COLUMNS[number]
+type CsvRecord = Partial<Record<CsvColumn, string>>
+
+// Lists inside a CSV cell, e.g. the conditions of a waiting period
+const LIST_SEPARATOR = '|'
+
+const toZodErrors = (row: number, error: z.ZodError, planCode?: string): ImportRowError[] =>
+  error.errors.map(issue => ({
+    row,
+    planCode,
+    field: issue.path.join('.') || 'row',
+    message: issue.message,
+  }))
+
+// Blank cells are treated as missing rather than as empty strings
+const requiredCell = z.string().trim().min(1, 'Required')
+const optionalCell = z.string().trim().transform(value => value || undefined)
+const numberCell = z.string().trim().min(1, 'Required').pipe(z.coerce.number())
+const jsonCell = (message: string) => optionalCell.transform((value, ctx) => {
+  if (!value) return undefined
+  try {
+    return JSON.parse(value) as unknown
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+    return z.NEVER
+  }
+})
+
+const CsvRowSchema = z.discriminatedUnion('recordType', [
+  z.object({
+    recordType: z.literal('PLAN'),
+    planCode: requiredCell,
+    name: requiredCell,
+    description: requiredCell,
+    planType: z.nativeEnum(PlanType),
+    insurerId: requiredCell,
+    coverageAmount: numberCell,
+    premiumAmount: numberCell,
+    deductible: numberCell,
+    features: jsonCell('Features must be a JSON object').transform(value => (value ?? {}) as Record<string, unknown>),
+  }),
+  z.object({
+    recordType: z.literal('BENEFIT'),
+    planCode: requiredCell,
+    name: requiredCell,
+    description: requiredCell,
+    coverageAmount: numberCell,
+    waitingPeriod: optionalCell.pipe(z.coerce.number().optional()),
+    // JSON on benefit rows, unlike the list a waiting period row holds
+    conditions: jsonCell('Conditions must be valid JSON'),
+  }),
+  z.object({
+    recordType: z.literal('WAITING_PERIOD'),
+    planCode: requiredCell,
+    waitingPeriodType: z.nativeEnum(WaitingPeriodType),
+    days: numberCell,
+    conditions: optionalCell.transform(value =>
+      value ? value.split(LIST_SEPARATOR).map(c => c.trim()).filter(Boolean) : []
+    ),
+    description: optionalCell,
+    benefitName: optionalCell,
+  }),
+  z.object({
+    recordType: z.literal('NETWORK_HOSPITAL'),
+    planCode: requiredCell,
+    hospitalId: requiredCell,
+    cashless: optionalCell.transform(value => value?.toLowerCase()).pipe(z.enum(['true', 'false']).optional()),
+  }),
+])
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells containing
+ * commas, line breaks and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+export function toCsv(rows: CsvRecord[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => escapeCsvCell(row[column] ?? '')).join(',')),
+  ]
+  return lines.join('\n') + '\n'
+}
+
+// Accepts either { plans: [...] } or a bare array of plans
+export function parseCatalogueJson(text: string): ParsedCatalogue {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { records: [], errors: [{ row: 0, field: 'file', message: 'File is not valid JSON' }] }
+  }
+
+  const plans = Array.isArray(data) ? data : (data as { plans?: unknown })?.plans
+  if (!Array.isArray(plans)) {
+    return { records: [], errors: [{ row: 0, field: 'plans', message: 'Expected a list of plans' }] }
+  }
+
+  const records: PlanImportRecord[] = []
+  const errors: ImportRowError[] = []
+
+  plans.forEach((item, index) => {
+    const row = index + 1
+    const result = PlanImportSchema.safeParse(item)
+    if (result.success) {
+      records.push({ row, plan: result.data })
+    } else {
+      const planCode = typeof item?.planCode === 'string' ? item.planCode : undefined
+      errors.push(...toZodErrors(row, result.error, planCode))
+    }
+  })
+
+  return { records, errors }
+}
+
+/**
+ * Reads the CSV layout: one row per plan, benefit, waiting period or
+ * network hospital, tied together by plan code. Row numbers count the
+ * header as row 1, as a spreadsheet would.
+ */
+export function parseCatalogueCsv(text: string): ParsedCatalogue {
+  const [header, ...rows] = parseCsv(text)
+  if (!header?.some(cell => cell.trim())) {
+    return { records: [], errors: [{ row: 0, field: 'file', message: 'File is empty' }] }
+  }
+
+  const columns = header.map(column => column.trim())
+  const missing = ['recordType', 'planCode'].filter(column => !columns.includes(column))
+  if (missing.length) {
+    return {
+      records: [],
+      errors: [{ row: 1, field: 'header', message: `Missing columns: ${missing.join(', ')}` }],
+    }
+  }
+
+  const plans = new Map<string, PlanImportRecord>()
+  const children: { row: number; data: Exclude<z.infer<typeof CsvRowSchema>, { recordType: 'PLAN' }> }[] = []
+  const errors: ImportRowError[] = []
+
+  rows.forEach((cells, index) => {
+    const row = index + 2
+    if (!cells.some(cell => cell.trim())) return
+
+    // Columns left out of the file read as blank cells
+    const record: Record<string, string> = Object.fromEntries(CSV_COLUMNS.map(column => [column, '']))
+    columns.forEach((column, i) => { record[column] = cells[i] ?? '' })
+    const result = CsvRowSchema.safeParse(record)
+    if (!result.success) {
+      errors.push(...toZodErrors(row, result.error, record.planCode || undefined))
+      return
+    }
+
+    const data = result.data
+    if (data.recordType !== 'PLAN') {
+      children.push({ row, data })
+      return
+    }
+
+    if (plans.has(data.planCode)) {
+      errors.push({ row, planCode: data.planCode, field: 'planCode', message: 'Plan code appears more than once' })
+      return
+    }
+    const { recordType, ...fields } = data
+    plans.set(data.planCode, {
+      row,
+      plan: { ...fields, benefits: [], networkHospitals: [], waitingPeriods: [] },
+    })
+  })
+
+  for (const { row, data } of children) {
+    const record = plans.get(data.planCode)
+    if (!record) {
+      errors.push({ row, planCode: data.planCode, field: 'planCode', message: 'No PLAN row with this plan code' })
+      continue
+    }
+
+    switch (data.recordType) {
+      case 'BENEFIT':
+        record.plan.benefits.push({
+          name: data.name,
+          description: data.description,
+          coverageAmount: data.coverageAmount,
+          waitingPeriod: data.waitingPeriod,
+          conditions: data.conditions,
+        })
+        break
+      case 'WAITING_PERIOD':
+        record.plan.waitingPeriods.push({
+          type: data.waitingPeriodType,
+          days: data.days,
+          conditions: data.conditions,
+          description: data.description,
+          benefitName: data.benefitName,
+        })
+        break
+      case 'NETWORK_HOSPITAL':
+        record.plan.networkHospitals.push({
+          hospitalId: data.hospitalId,
+          cashless: data.cashless !== 'false',
+        })
+        break
+    }
+  }
+
+  // The assembled plans go through the same checks as JSON imports
+  const records: PlanImportRecord[] = []
+  plans.forEach(({ row, plan }) => {
+    const result = PlanImportSchema.safeParse(plan)
+    if (result.success) {
+      records.push({ row, plan: result.data })
+    } else {
+      errors.push(...toZodErrors(row, result.error, plan.planCode))
+    }
+  })
+
+  return { records, errors: errors.sort((a, b) => a.row - b.row) }
+}
+
+export function parseCatalogue(text: string, format: CatalogueFormat): ParsedCatalogue {
+  return format === 'csv' ? parseCatalogueCsv(text) : parseCatalogueJson(text)
+}
+
+// Flattens plans into the CSV layout read by parseCatalogueCsv
+export function toCatalogueCsv(plans: PlanImport[]): string {
+  const rows: CsvRecord[] = plans.flatMap(plan => {
+    const planCode = plan.planCode ?? ''
+    return [
+      {
+        recordType: 'PLAN',
+        planCode,
+        name: plan.name,
+        description: plan.description,
+        planType: plan.planType,
+        insurerId: plan.insurerId,
+        coverageAmount: String(plan.coverageAmount),
+        premiumAmount: String(plan.premiumAmount),
+        deductible: String(plan.deductible),
+        features: JSON.stringify(plan.features),
+      },
+      ...plan.benefits.map(benefit => ({
+        recordType: 'BENEFIT',
+        planCode,
+        name: benefit.name,
+        description: benefit.description,
+        coverageAmount: String(benefit.coverageAmount),
+        waitingPeriod: benefit.waitingPeriod?.toString(),
+        conditions: benefit.conditions === undefined ? undefined : JSON.stringify(benefit.conditions),
+      })),
+      ...plan.waitingPeriods.map(period => ({
+        recordType: 'WAITING_PERIOD',
+        planCode,
+        waitingPeriodType: period.type,
+        days: String(period.days),
+        conditions: period.conditions.join(LIST_SEPARATOR),
+        description: period.description,
+        benefitName: period.benefitName,
+      })),
+      ...plan.networkHospitals.map(link => ({
+        recordType: 'NETWORK_HOSPITAL',
+        planCode,
+        hospitalId: link.hospitalId,
+        cashless: String(link.cashless),
+      })),
+    ]
+  })
+
+  return toCsv(rows)
+}
+
+export function toCatalogueJson(plans: PlanImport[]): string {
+  return JSON.stringify({ plans }, null, 2)
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import { NetworkHospital, PlanBenefit, PlanType, ProductPlan, WaitingPeriod, WaitingPeriodType } from '@prisma/client'
+
+export type PlanStatus = 'DRAFT' | 'ACTIVE' | 'ARCHIVED'
+
+// Plan catalogue validation - shared by the admin API and catalogue imports
+export const PlanBenefitInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  coverageAmount: z.number().nonnegative(),
+  waitingPeriod: z.number().int().min(0).nullable().optional(), // in days
+  conditions: z.unknown().optional(),
+})
+
+export const NetworkHospitalLinkSchema = z.object({
+  hospitalId: z.string().uuid(),
+  cashless: z.boolean().default(true),
+})
+
+export const PlanWaitingPeriodInputSchema = z.object({
+  type: z.nativeEnum(WaitingPeriodType),
+  days: z.number().int().min(0),
+  conditions: z.array(z.string().min(1)).default([]),
+  description: z.string().optional(),
+  // Limits the period to one of the plan's benefits, by benefit name
+  benefitName: z.string().min(1).optional(),
+})
+
+const PlanFieldsSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().min(1),
+  planType: z.nativeEnum(PlanType),
+  insurerId: z.string().uuid(),
+  coverageAmount: z.number().positive(),
+  premiumAmount: z.number().positive(),
+  deductible: z.number().nonnegative(),
+  features: z.record(z.unknown()).default({}),
+  benefits: z.array(PlanBenefitInputSchema).optional(),
+  networkHospitals: z.array(NetworkHospitalLinkSchema).optional(),
+  waitingPeriods: z.array(PlanWaitingPeriodInputSchema).optional(),
+})
+
+export const PlanDraftSchema = PlanFieldsSchema
+
+// Editing a draft; benefits, hospitals and waiting periods are replaced when given
+export const PlanDraftUpdateSchema = PlanFieldsSchema.partial()
+
+export type PlanDraftInput = z.infer<typeof PlanDraftSchema>
+export type PlanDraftUpdate = z.infer<typeof PlanDraftUpdateSchema>
+
+export type PlanForValidation = ProductPlan & {
+  benefits: PlanBenefit[]
+  networkHospitals: NetworkHospital[]
+  waitingPeriods: WaitingPeriod[]
+}
+
+export interface PlanValidationIssue {
+  field: string
+  message: string
+}
+
+/**
+ * Checks a draft is complete enough to sell. Drafts can be saved in any
+ * state; these rules only gate publishing.
+ */
+export function validatePlanForPublish(plan: PlanForValidation): PlanValidationIssue[] {
+  const issues: PlanValidationIssue[] = []
+  const coverageAmount = Number(plan.coverageAmount)
+
+  if (plan.status !== 'DRAFT') {
+    issues.push({ field: 'status', message: `Only draft plans can be published; this plan is ${plan.status}` })
+  }
+  if (Number(plan.premiumAmount) >= coverageAmount) {
+    issues.push({ field: 'premiumAmount', message: 'Premium must be less than the sum insured' })
+  }
+  if (Number(plan.deductible) >= coverageAmount) {
+    issues.push({ field: 'deductible', message: 'Deductible must be less than the sum insured' })
+  }
+
+  const benefits = plan.benefits.filter(b => b.status === 'ACTIVE')
+  if (!benefits.length) {
+    issues.push({ field: 'benefits', message: 'A plan needs at least one active benefit' })
+  }
+  const benefitNames = benefits.map(b => b.name.toLowerCase())
+  const duplicates = benefitNames.filter((name, index) => benefitNames.indexOf(name) !== index)
+  if (duplicates.length) {
+    issues.push({ field: 'benefits', message: `Duplicate benefits: ${Array.from(new Set(duplicates)).join(', ')}` })
+  }
+
+  if (!plan.networkHospitals.length) {
+    issues.push({ field: 'networkHospitals', message: 'A plan needs at least one network hospital' })
+  }
+
+  const initialPeriods = plan.waitingPeriods.filter(p => p.type === 'INITIAL' && !p.benefitId)
+  if (initialPeriods.length > 1) {
+    issues.push({ field: 'waitingPeriods', message: 'A plan can have only one initial waiting period' })
+  }
+  if (plan.waitingPeriods.some(p => p.type === 'SPECIFIC_DISEASE' && !p.conditions.length)) {
+    issues.push({ field: 'waitingPeriods', message: 'Specific-disease waiting periods must list their conditions' })
+  }
+
+  return issues
+}
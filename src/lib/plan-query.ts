@@ -0,0 +1,293 @@
+import { prisma } from './prisma'
+import { z } from 'zod'
+import { PlanType, Prisma } from '@prisma/client'
+
+// The one plan listing query, shared by PlanService.getPlans and /api/plans.
+// Only plans on sale are listed.
+
+export const PLAN_SORT_FIELDS = ['premium', 'coverage', 'deductible', 'rating', 'popularity'] as const
+
+export const PlanQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  planTypes: z.array(z.nativeEnum(PlanType)).default([]),
+  insurerIds: z.array(z.string().min(1)).default([]),
+  coverageMin: z.coerce.number().nonnegative().optional(),
+  coverageMax: z.coerce.number().nonnegative().optional(),
+  premiumMin: z.coerce.number().nonnegative().optional(),
+  premiumMax: z.coerce.number().nonnegative().optional(),
+  deductibleMin: z.coerce.number().nonnegative().optional(),
+  deductibleMax: z.coerce.number().nonnegative().optional(),
+  minInsurerRating: z.coerce.number().min(0).max(5).optional(),
+  minNetworkSize: z.coerce.number().int().min(0).optional(),
+  // Benefit names a plan must all include
+  benefits: z.array(z.string().trim().min(1)).default([]),
+  sortBy: z.enum(PLAN_SORT_FIELDS).default('premium'),
+  sortOrder: z.enum(['asc', 'desc']).default('asc'),
+  cursor: z.string().optional(), // id of the last plan on the previous page
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+})
+
+export type PlanQuery = z.infer<typeof PlanQuerySchema>
+export type PlanQueryInput = z.input<typeof PlanQuerySchema>
+
+const PLAN_LIST_INCLUDE = {
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+      logo: true,
+      rating: true,
+    },
+  },
+  benefits: {
+    where: { status: 'ACTIVE' },
+  },
+  _count: {
+    select: {
+      policies: true,
+      networkHospitals: true,
+    },
+  },
+} as const
+
+export type PlanListItem = Prisma.ProductPlanGetPayload<{ include: typeof PLAN_LIST_INCLUDE }>
+
+export interface FacetCount {
+  value: string
+  label: string
+  count: number
+}
+
+// A band of amounts from min up to, but not including, max, as in the
+// query's coverage and premium ranges. Each band starts where the last ends,
+// so decimal amounts always fall in exactly one.
+export interface RangeFacetCount extends FacetCount {
+  min: number
+  max: number | null // null = open-ended top band
+}
+
+export interface PlanFacets {
+  planTypes: FacetCount[]
+  insurers: FacetCount[]
+  coverageBands: RangeFacetCount[]
+  premiumBands: RangeFacetCount[]
+  benefits: FacetCount[]
+}
+
+type Band = Pick<RangeFacetCount, 'label' | 'min' | 'max'>
+
+export const COVERAGE_BANDS: Band[] = [
+  { label: 'Under ₹3L', min: 0, max: 300000 },
+  { label: '₹3L – ₹5L', min: 300000, max: 500000 },
+  { label: '₹5L – ₹10L', min: 500000, max: 1000000 },
+  { label: '₹10L – ₹25L', min: 1000000, max: 2500000 },
+  { label: '₹25L and above', min: 2500000, max: null },
+]
+
+export const PREMIUM_BANDS: Band[] = [
+  { label: 'Under ₹5,000', min: 0, max: 5000 },
+  { label: '₹5,000 – ₹10,000', min: 5000, max: 10000 },
+  { label: '₹10,000 – ₹20,000', min: 10000, max: 20000 },
+  { label: '₹20,000 and above', min: 20000, max: null },
+]
+
+// Most common benefit names offered as filters
+const BENEFIT_FACET_LIMIT = 20
+
+export interface PlanQueryResult {
+  plans: PlanListItem[]
+  total: number
+  nextCursor: string | null
+  facets: PlanFacets
+}
+
+const LIST_PARAMS = ['planTypes', 'insurerIds', 'benefits'] as const
+
+/**
+ * Reads a plan query from URL search params. List filters may repeat the
+ * key or be comma-separated, e.g. planTypes=FAMILY,SENIOR.
+ */
+export function parsePlanQuery(searchParams: URLSearchParams): PlanQuery {
+  const params: Record<string, unknown> = Object.fromEntries(searchParams.entries())
+  for (const key of LIST_PARAMS) {
+    params[key] = searchParams.getAll(key).flatMap(value => value.split(',')).filter(Boolean)
+  }
+  return PlanQuerySchema.parse(params)
+}
+
+const range = (min?: number, max?: number) =>
+  min === undefined && max === undefined ? undefined : { gte: min, lte: max }
+
+// Coverage and premium ranges exclude their max, so a band's range meets the next
+const bandRange = (min?: number, max?: number) =>
+  min === undefined && max === undefined ? undefined : { gte: min, lt: max }
+
+// Plans with at least this many network hospitals; Prisma cannot filter on a relation count
+async function getPlanIdsByNetworkSize(minNetworkSize: number): Promise<string[]> {
+  const groups = await prisma.networkHospital.groupBy({
+    by: ['planId'],
+    having: { planId: { _count: { gte: minNetworkSize } } },
+  })
+  return groups.map(group => group.planId)
+}
+
+// Filters a facet can be counted without
+type FacetFilter = 'planTypes' | 'insurerIds' | 'coverage' | 'premium'
+
+/**
+ * The where clause for a query. Facets for either-or filters are counted
+ * with every filter but their own, so each option shows how many plans
+ * picking it would give.
+ */
+function buildPlanWhere(
+  query: PlanQuery,
+  networkPlanIds: string[] | null,
+  omit?: FacetFilter
+): Prisma.ProductPlanWhereInput {
+  const and: Prisma.ProductPlanWhereInput[] = [{ status: 'ACTIVE' }]
+
+  if (query.search) {
+    and.push({
+      OR: [
+        { name: { contains: query.search, mode: 'insensitive' } },
+        { description: { contains: query.search, mode: 'insensitive' } },
+        { benefits: { some: { name: { contains: query.search, mode: 'insensitive' } } } },
+      ],
+    })
+  }
+  if (query.planTypes.length && omit !== 'planTypes') {
+    and.push({ planType: { in: query.planTypes } })
+  }
+  if (query.insurerIds.length && omit !== 'insurerIds') {
+    and.push({ insurerId: { in: query.insurerIds } })
+  }
+
+  const coverageAmount = bandRange(query.coverageMin, query.coverageMax)
+  if (coverageAmount && omit !== 'coverage') and.push({ coverageAmount })
+  const premiumAmount = bandRange(query.premiumMin, query.premiumMax)
+  if (premiumAmount && omit !== 'premium') and.push({ premiumAmount })
+  const deductible = range(query.deductibleMin, query.deductibleMax)
+  if (deductible) and.push({ deductible })
+
+  if (query.minInsurerRating !== undefined) {
+    and.push({ insurer: { rating: { gte: query.minInsurerRating } } })
+  }
+  if (networkPlanIds) {
+    and.push({ id: { in: networkPlanIds } })
+  }
+  for (const benefit of query.benefits) {
+    and.push({
+      benefits: { some: { status: 'ACTIVE', name: { equals: benefit, mode: 'insensitive' } } },
+    })
+  }
+
+  return { AND: and }
+}
+
+function buildPlanOrderBy(query: PlanQuery): Prisma.ProductPlanOrderByWithRelationInput[] {
+  const order = query.sortOrder
+  const primary: Record<typeof PLAN_SORT_FIELDS[number], Prisma.ProductPlanOrderByWithRelationInput> = {
+    premium: { premiumAmount: order },
+    coverage: { coverageAmount: order },
+    deductible: { deductible: order },
+    rating: { insurer: { rating: order } },
+    popularity: { policies: { _count: order } }, // policies sold on the plan
+  }
+  // The id tiebreak keeps cursor pages stable when sort values repeat
+  return [primary[query.sortBy], { id: 'asc' }]
+}
+
+const countBands = (bands: Band[], amounts: number[]): RangeFacetCount[] =>
+  bands.map(band => ({
+    ...band,
+    value: `${band.min}-${band.max ?? ''}`,
+    count: amounts.filter(amount => amount >= band.min && (band.max === null || amount < band.max)).length,
+  }))
+
+async function getFacets(query: PlanQuery, networkPlanIds: string[] | null): Promise<PlanFacets> {
+  const [planTypes, insurerGroups, coverage, premium, benefits] = await Promise.all([
+    prisma.productPlan.groupBy({
+      by: ['planType'],
+      where: buildPlanWhere(query, networkPlanIds, 'planTypes'),
+      _count: { _all: true },
+    }),
+    prisma.productPlan.groupBy({
+      by: ['insurerId'],
+      where: buildPlanWhere(query, networkPlanIds, 'insurerIds'),
+      _count: { _all: true },
+    }),
+    prisma.productPlan.findMany({
+      where: buildPlanWhere(query, networkPlanIds, 'coverage'),
+      select: { coverageAmount: true },
+    }),
+    prisma.productPlan.findMany({
+      where: buildPlanWhere(query, networkPlanIds, 'premium'),
+      select: { premiumAmount: true },
+    }),
+    // Required benefits narrow each other, so these are counted with every filter
+    prisma.planBenefit.groupBy({
+      by: ['name', 'planId'],
+      where: { status: 'ACTIVE', plan: buildPlanWhere(query, networkPlanIds) },
+    }),
+  ])
+
+  const insurers = await prisma.insurer.findMany({
+    where: { id: { in: insurerGroups.map(group => group.insurerId) } },
+    select: { id: true, name: true },
+  })
+  const insurerNames = new Map(insurers.map(insurer => [insurer.id, insurer.name]))
+
+  // Plans offering each benefit; a plan listing a benefit twice counts once
+  const benefitCounts = new Map<string, number>()
+  benefits.forEach(({ name }) => benefitCounts.set(name, (benefitCounts.get(name) ?? 0) + 1))
+
+  return {
+    planTypes: planTypes
+      .map(group => ({ value: group.planType, label: group.planType, count: group._count._all }))
+      .sort((a, b) => b.count - a.count),
+    insurers: insurerGroups
+      .map(group => ({
+        value: group.insurerId,
+        label: insurerNames.get(group.insurerId) ?? group.insurerId,
+        count: group._count._all,
+      }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    coverageBands: countBands(COVERAGE_BANDS, coverage.map(plan => Number(plan.coverageAmount))),
+    premiumBands: countBands(PREMIUM_BANDS, premium.map(plan => Number(plan.premiumAmount))),
+    benefits: Array.from(benefitCounts.entries())
+      .map(([name, count]) => ({ value: name, label: name, count }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+      .slice(0, BENEFIT_FACET_LIMIT),
+  }
+}
+
+export async function queryPlans(input: PlanQueryInput = {}): Promise<PlanQueryResult> {
+  const query = PlanQuerySchema.parse(input)
+
+  const networkPlanIds = query.minNetworkSize
+    ? await getPlanIdsByNetworkSize(query.minNetworkSize)
+    : null
+  const where = buildPlanWhere(query, networkPlanIds)
+
+  const [plans, total, facets] = await Promise.all([
+    prisma.productPlan.findMany({
+      where,
+      include: PLAN_LIST_INCLUDE,
+      orderBy: buildPlanOrderBy(query),
+      // One extra row tells us whether there is another page
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    }),
+    prisma.productPlan.count({ where }),
+    getFacets(query, networkPlanIds),
+  ])
+
+  const page = plans.slice(0, query.limit)
+
+  return {
+    plans: page,
+    total,
+    nextCursor: plans.length > query.limit ? page[page.length - 1].id : null,
+    facets,
+  }
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod'
+import { PreAuthStatus } from '@prisma/client'
+import { WaitingPeriodViolation } from './waiting-periods'
+
+// Validation schemas
+export const PreAuthorizationInputSchema = z.object({
+  policyNumber: z.string().min(1),
+  hospitalId: z.string(),
+  diagnosis: z.string().min(1).max(500),
+  condition: z.string().optional(), // Condition code, e.g. diabetes or cataract
+  benefitId: z.string().optional(),
+  isAccident: z.boolean().default(false),
+  plannedAdmissionDate: z.coerce.date(),
+  estimatedCost: z.number().positive(),
+  // Documents already uploaded for the admission, moved onto the request once it exists
+  documentIds: z.array(z.string()).default([]),
+})
+
+export const DischargeInputSchema = z.object({
+  dischargeDate: z.coerce.date(),
+  finalBillAmount: z.number().positive(),
+})
+
+// Moves agents can make by hand; discharge has its own endpoint
+export const PreAuthStatusUpdateSchema = z.object({
+  status: z.enum(['ADMITTED', 'CANCELLED']),
+})
+
+// Types
+export type PreAuthorizationInput = z.input<typeof PreAuthorizationInputSchema>
+export type DischargeInput = z.input<typeof DischargeInputSchema>
+
+export type PreAuthRule = 'NETWORK' | 'WAITING_PERIOD' | 'SUM_INSURED'
+
+export interface PreAuthReason {
+  rule: PreAuthRule
+  message: string
+  claimableFrom?: string
+}
+
+export interface PreAuthAssessmentInput {
+  // null when the hospital is not in the plan's network at all
+  cashless: boolean | null
+  waitingPeriodViolations: WaitingPeriodViolation[]
+  remainingSumInsured: number
+  estimatedCost: number
+}
+
+export interface PreAuthAssessment {
+  status: Extract<PreAuthStatus, 'APPROVED' | 'PARTIALLY_APPROVED' | 'REJECTED'>
+  approvedAmount: number
+  reasons: PreAuthReason[]
+}
+
+// Statuses whose approved amount is still held against the sum insured
+export const OPEN_PRE_AUTH_STATUSES: PreAuthStatus[] = ['APPROVED', 'PARTIALLY_APPROVED', 'ADMITTED']
+
+// Where each status can go next; rejected, discharged and cancelled are final
+export const PRE_AUTH_TRANSITIONS: Record<PreAuthStatus, PreAuthStatus[]> = {
+  APPROVED: ['ADMITTED', 'DISCHARGED', 'CANCELLED'],
+  PARTIALLY_APPROVED: ['ADMITTED', 'DISCHARGED', 'CANCELLED'],
+  ADMITTED: ['DISCHARGED', 'CANCELLED'],
+  REJECTED: [],
+  DISCHARGED: [],
+  CANCELLED: [],
+}
+
+export function canTransition(from: PreAuthStatus, to: PreAuthStatus): boolean {
+  return PRE_AUTH_TRANSITIONS[from].includes(to)
+}
+
+// Statuses a pre-authorization must be in to move to the given one
+export function getAllowedFromStatuses(to: PreAuthStatus): PreAuthStatus[] {
+  return (Object.keys(PRE_AUTH_TRANSITIONS) as PreAuthStatus[]).filter(from => canTransition(from, to))
+}
+
+// The policy year a date falls in; the sum insured resets each year of a multi-year term
+export function getPolicyYear(effectiveDate: Date, date: Date): { start: Date; end: Date } {
+  const years = Math.max(date.getUTCFullYear() - effectiveDate.getUTCFullYear(), 0)
+  const start = new Date(effectiveDate)
+  start.setUTCFullYear(effectiveDate.getUTCFullYear() + years)
+  if (start > date && years > 0) {
+    start.setUTCFullYear(start.getUTCFullYear() - 1)
+  }
+  const end = new Date(start)
+  end.setUTCFullYear(end.getUTCFullYear() + 1)
+  return { start, end }
+}
+
+const formatRupees =(amount: number) => `₹${amount.toLocaleString('en-IN')}`
+
+/**
+ * Decides a pre-authorization request. The hospital must offer cashless
+ * treatment under the plan and no waiting period may cover the admission;
+ * the approved amount is the estimate, capped at the sum insured left.
+ */
+export function assessPreAuthorization({
+  cashless,
+  waitingPeriodViolations,
+  remainingSumInsured,
+  estimatedCost,
+}: PreAuthAssessmentInput): PreAuthAssessment {
+  const reasons: PreAuthReason[] = []
+
+  if (cashless === null) {
+    reasons.push({ rule: 'NETWORK', message: 'The hospital is not in the network for this plan' })
+  } else if (!cashless) {
+    reasons.push({
+      rule: 'NETWORK',
+      message: 'The hospital offers only reimbursement under this plan; the patient pays and claims it back',
+    })
+  }
+
+  reasons.push(...waitingPeriodViolations.map(violation => ({
+    rule: 'WAITING_PERIOD' as const,
+    message: violation.message,
+    claimableFrom: violation.claimableFrom,
+  })))
+
+  const remaining = Math.max(remainingSumInsured, 0)
+  if (remaining <= 0) {
+    reasons.push({ rule: 'SUM_INSURED', message: 'The sum insured for this policy period has been used up' })
+  }
+
+  if (reasons.length) {
+    return { status: 'REJECTED', approvedAmount: 0, reasons }
+  }
+
+  if (estimatedCost > remaining) {
+    return {
+      status: 'PARTIALLY_APPROVED',
+      approvedAmount: remaining,
+      reasons: [{
+        rule: 'SUM_INSURED',
+        message: `Only ${formatRupees(remaining)} of the sum insured is left; the rest of the ${formatRupees(estimatedCost)} estimate is payable by the patient`,
+      }],
+    }
+  }
+
+  return { status: 'APPROVED', approvedAmount: estimatedCost, reasons: [] }
+}
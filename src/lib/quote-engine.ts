@@ -1,135 +1,505 @@
 import { prisma } from './prisma'
 import { z } from 'zod'
-import { ProductPlan, PlanBenefit, Insurer } from '@prisma/client'
+import { ProductPlan, PlanBenefit, PlanRider, Insurer, PlanType, PaymentFrequency, RiderType } from '@prisma/client'
+import {
+  ActiveRatingTable,
+  DEFAULT_RATING_TABLE,
+  RatingTableRef,
+  getActiveRatingTables,
+  toRatingTableRef,
+} from './rating-tables'
+import { priceRiders, RiderPremium, SelectedRidersSchema, UnavailableRider } from './riders'
+import { evaluateUnderwriting, getActiveUnderwritingRules, UnderwritingResult } from './underwriting'
 
-// City tier data
-const CITY_TIERS = {
-  TIER_1: ['Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Kolkata', 'Hyderabad'],
-  TIER_2: ['Pune', 'Ahmedabad', 'Jaipur', 'Lucknow', 'Chandigarh', 'Kochi'],
-  TIER_3: ['default'], // All other cities
+// Age-based risk factor from the table's age bands
+export const getAgeRiskFactor = (age: number, table: ActiveRatingTable = DEFAULT_RATING_TABLE): number => {
+  const bands = [...table.ageBands].sort((a, b) => (a.maxAge ?? Infinity) - (b.maxAge ?? Infinity))
+  const band = bands.find(b => b.maxAge === null || age <= b.maxAge)
+  return band?.factor ?? bands[bands.length - 1].factor
 }
 
-// Risk scores for medical conditions
-const MEDICAL_CONDITION_RISKS = {
-  diabetes: 1.3,
-  hypertension: 1.2,
-  heartDisease: 1.5,
-  asthma: 1.15,
-  cancer: 2.0,
-  none: 1.0,
+// City tier multiplier
+export const getCityTierMultiplier = (city: string, table: ActiveRatingTable = DEFAULT_RATING_TABLE): number => {
+  const normalizedCity = city.toLowerCase()
+  const tier = table.cityTiers.find(t => t.cities.some(c => c.toLowerCase() === normalizedCity))
+  return tier?.multiplier ?? table.defaultCityMultiplier
 }
 
-// Age-based risk factors
-const getAgeRiskFactor = (age: number): number => {
-  if (age <= 25) return 1.0
-  if (age <= 35) return 1.1
-  if (age <= 45) return 1.2
-  if (age <= 55) return 1.3
-  if (age <= 65) return 1.5
-  return 1.8
+// Family size discount
+export const getFamilySizeDiscount = (familySize: number, table: ActiveRatingTable = DEFAULT_RATING_TABLE): number => {
+  const band = [...table.familyDiscounts]
+    .sort((a, b) => b.minSize - a.minSize)
+    .find(b => familySize >= b.minSize)
+  return band?.discount ?? 0
 }
 
-// City tier multiplier
-const getCityTierMultiplier = (city: string): number => {
-  const normalizedCity = city.toLowerCase()
-  if (CITY_TIERS.TIER_1.some(c => c.toLowerCase() === normalizedCity)) return 1.2
-  if (CITY_TIERS.TIER_2.some(c => c.toLowerCase() === normalizedCity)) return 1.1
-  return 1.0 // TIER_3
+// Plan type loadings applied on top of the plan's own base rate
+const PLAN_TYPE_LOADINGS: Record<PlanType, number> = {
+  INDIVIDUAL: 1.0,
+  FAMILY: 1.05,
+  SENIOR: 1.25,
+  GROUP: 0.9,
 }
 
-// Family size discount
-const getFamilySizeDiscount = (familySize: number): number => {
-  if (familySize >= 4) return 0.15
-  if (familySize >= 2) return 0.10
+// Deductible credit - a higher voluntary deductible lowers the premium
+const getDeductibleCredit = (deductible: number): number => {
+  if (deductible >= 50000) return 0.15
+  if (deductible >= 25000) return 0.10
+  if (deductible >= 10000) return 0.05
+  if (deductible > 0) return 0.02
   return 0
 }
 
-interface QuoteInput {
+// Plan-level loading: plan type loading combined with any loadings the
+// plan declares in `features.loadings` (e.g. { restoreBenefit: 0.05 })
+const getPlanLoading = (plan: ProductPlan): number => {
+  const features = (plan.features ?? {}) as Record<string, unknown>
+  const loadings = (features.loadings ?? {}) as Record<string, unknown>
+
+  return Object.values(loadings).reduce<number>((loading, value) => {
+    return typeof value === 'number' ? loading * (1 + value) : loading
+  }, PLAN_TYPE_LOADINGS[plan.planType] ?? 1.0)
+}
+
+// Instalments per policy year and the loading for paying in instalments
+export const PAYMENT_FREQUENCIES: Record<PaymentFrequency, {
+  instalments: number
+  intervalMonths: number
+  loading: number
+}> = {
+  ANNUAL: { instalments: 1, intervalMonths: 12, loading: 0 },
+  HALF_YEARLY: { instalments: 2, intervalMonths: 6, loading: 0.02 },
+  QUARTERLY: { instalments: 4, intervalMonths: 3, loading: 0.03 },
+  MONTHLY: { instalments: 12, intervalMonths: 1, loading: 0.05 },
+}
+
+// Policy terms in years and the discount for buying the longer term upfront
+export const POLICY_TERM_DISCOUNTS: Record<number, number> = {
+  1: 0,
+  2: 0.05,
+  3: 0.075,
+}
+
+// Cheapest matching plans a quote recommends when no plans are named
+const RECOMMENDED_PLAN_COUNT = 3
+
+// Floater rules: how many adults and children one policy can cover
+export const FLOATER_LIMITS = {
+  maxAdults: 4,
+  maxChildren: 4,
+  maxChildAge: 25,
+}
+
+// Share of the floater premium each member adds; the eldest member sets the
+// age band and counts in full
+const FLOATER_MEMBER_WEIGHTS = {
+  ELDEST: 1.0,
+  ADULT: 0.5,
+  CHILD: 0.25,
+}
+
+export const MEMBER_RELATIONSHIPS = [
+  'SELF',
+  'SPOUSE',
+  'CHILD',
+  'PARENT',
+  'PARENT_IN_LAW',
+  'SIBLING',
+  'OTHER',
+] as const
+
+export type MemberRelationship = typeof MEMBER_RELATIONSHIPS[number]
+
+export interface QuoteMember {
+  relationship: MemberRelationship
+  age: number
+  gender?: 'MALE' | 'FEMALE' | 'OTHER'
+  medicalConditions?: string[]
+}
+
+export interface QuoteInput {
   age: number
   gender: 'MALE' | 'FEMALE' | 'OTHER'
   city: string
   hasMedicalConditions: boolean
   medicalConditions?: string[]
-  familySize: number
+  familySize?: number
+  members?: QuoteMember[]
   coverageAmount: number
+  riders?: RiderType[]
+  paymentFrequency?: PaymentFrequency
+  policyTerm?: number // years
+  budget?: number // most the customer wants to pay a year; only used for recommendations
+}
+
+export interface QuoteOptions {
+  // Price with the rating tables that were active at this instant. Used to
+  // re-run a saved quote exactly; defaults to now.
+  asOf?: Date
+  // Price only these plans instead of picking recommendations, e.g. when
+  // re-quoting a saved quote. They are priced even if no longer on sale, so
+  // a saved quote re-runs on the plan version it was priced with
+  planIds?: string[]
+  // How many of the cheapest matching plans to recommend; null keeps them all
+  limit?: number | null
 }
 
-interface QuoteResult {
+export interface MemberRisk {
+  relationship: MemberRelationship
+  age: number
+  gender?: QuoteMember['gender']
+  weight: number
+  medicalRisk: number
+}
+
+export interface MemberContribution extends MemberRisk {
+  premium: number
+}
+
+export interface RiskFactors {
+  ratingTable: RatingTableRef
+  ageRisk: number
+  medicalRisk: number
+  riskFactor: number
+  memberFactor: number
+  cityMultiplier: number
+  familyDiscount: number
+  members: MemberRisk[]
+}
+
+export interface PremiumBreakdown {
+  basePremium: number
+  ageRisk: number
+  medicalRisk: number
+  riskFactor: number
+  memberFactor: number
+  cityMultiplier: number
+  planLoading: number
+  deductibleCredit: number
+  familyDiscount: number
+  planPremium: number // base cover, split across members
+  riderPremium: number
+  paymentFrequency: PaymentFrequency
+  frequencyLoading: number
+  policyTerm: number
+  termDiscount: number
+  yearlyPremiums: YearlyPremium[]
+  instalmentCount: number // over the whole term
+  instalmentAmount: number
+  finalPremium: number // whole term: base cover plus riders, with term discount and frequency loading
+  ratingTable: RatingTableRef
+  members: MemberContribution[]
+  riders: RiderPremium[]
+  unavailableRiders: UnavailableRider[]
+}
+
+export interface YearlyPremium {
+  year: number
+  premium: number
+}
+
+export interface RecommendedPlan {
+  planId: string
+  planName: string
+  insurerName: string
+  coverageAmount: number
+  deductible: number
+  premium: number
+  breakdown: PremiumBreakdown
+  features: string[]
+  underwriting: UnderwritingResult
+}
+
+export interface QuoteResult {
   basePremium: number
   riskFactor: number
   cityMultiplier: number
   familyDiscount: number
   finalPremium: number
   coverageAmount: number
-  recommendedPlans: Array<{
-    planId: string
-    planName: string
-    insurerName: string
-    premium: number
-    features: string[]
-  }>
+  pricedAt: string
+  ratingTable: RatingTableRef
+  recommendedPlans: RecommendedPlan[]
+}
+
+export interface PlanPremiumOptions {
+  riders?: RiderType[]
+  paymentFrequency?: PaymentFrequency
+  // Risk factors for each renewal year of a multi-year term, see
+  // calculateTermRiskFactors; the term is one year plus one per entry
+  renewalFactors?: RiskFactors[]
 }
 
-type PlanWithRelations = ProductPlan & {
+export type PlanWithRelations = ProductPlan & {
   insurer: Insurer
   benefits: PlanBenefit[]
+  riders: PlanRider[]
 }
 
-export async function calculateQuote(input: QuoteInput): Promise<QuoteResult> {
-  try {
-    // Calculate base premium (1% of coverage amount)
-    const basePremium = input.coverageAmount * 0.01
+// Members covered by the quote. Without an explicit list the proposer is
+// quoted alone, using the top-level age and conditions.
+export function getQuoteMembers(input: QuoteInput): QuoteMember[] {
+  if (input.members?.length) return input.members
 
-    // Calculate risk factors
-    const ageRisk = getAgeRiskFactor(input.age)
-    const cityMultiplier = getCityTierMultiplier(input.city)
-    
-    // Calculate medical condition risk
-    let medicalRisk = 1.0
-    if (input.hasMedicalConditions && input.medicalConditions) {
-      medicalRisk = input.medicalConditions.reduce((risk, condition) => {
-        return risk * (MEDICAL_CONDITION_RISKS[condition as keyof typeof MEDICAL_CONDITION_RISKS] || 1.0)
-      }, 1.0)
-    }
+  return [{
+    relationship: 'SELF',
+    age: input.age,
+    gender: input.gender,
+    medicalConditions: input.hasMedicalConditions ? input.medicalConditions : [],
+  }]
+}
 
-    // Combined risk factor
-    const riskFactor = ageRisk * medicalRisk
+// People the policy covers. Legacy inputs give a family size instead of
+// listing members; only the proposer is rated then, but the policy is still
+// a family floater
+export function getMemberCount(input: QuoteInput): number {
+  return input.members?.length || input.familySize || 1
+}
 
-    // Calculate discounts
-    const familyDiscount = getFamilySizeDiscount(input.familySize)
+// Medical condition risk for one member
+const getMedicalRisk = (conditions: string[] = [], table: ActiveRatingTable): number => {
+  return conditions.reduce((risk, condition) => {
+    return risk * (table.medicalConditionRisks[condition] || 1.0)
+  }, 1.0)
+}
 
-    // Calculate final premium
-    const finalPremium = Math.round(
-      basePremium * riskFactor * cityMultiplier * (1 - familyDiscount)
+// Customer-level risk factors, shared by every plan being priced
+export function calculateRiskFactors(
+  input: QuoteInput,
+  table: ActiveRatingTable = DEFAULT_RATING_TABLE
+): RiskFactors {
+  const members = getQuoteMembers(input)
+  const cityMultiplier = getCityTierMultiplier(input.city, table)
+
+  // The eldest member sets the age band for the whole floater
+  const eldestAge = Math.max(...members.map(m => m.age))
+  const ageRisk = getAgeRiskFactor(eldestAge, table)
+  const eldestIndex = members.findIndex(m => m.age === eldestAge)
+
+  // Each member carries their own medical loading, weighted by their share
+  const memberRisks = members.map((member, index) => ({
+    relationship: member.relationship,
+    age: member.age,
+    gender: member.gender,
+    weight: index === eldestIndex
+      ? FLOATER_MEMBER_WEIGHTS.ELDEST
+      : member.relationship === 'CHILD'
+        ? FLOATER_MEMBER_WEIGHTS.CHILD
+        : FLOATER_MEMBER_WEIGHTS.ADULT,
+    medicalRisk: getMedicalRisk(member.medicalConditions, table),
+  }))
+
+  const memberFactor = memberRisks.reduce((sum, m) => sum + m.weight, 0)
+  const medicalRisk = memberRisks.reduce((sum, m) => sum + m.weight * m.medicalRisk, 0) / memberFactor
+
+  return {
+    ratingTable: toRatingTableRef(table),
+    ageRisk,
+    medicalRisk,
+    riskFactor: ageRisk * medicalRisk,
+    memberFactor,
+    cityMultiplier,
+    familyDiscount: getFamilySizeDiscount(getMemberCount(input), table),
+    members: memberRisks,
+  }
+}
+
+// Risk factors for each year of a multi-year term, with every member a year
+// older in each renewal year
+export function calculateTermRiskFactors(
+  input: QuoteInput,
+  table: ActiveRatingTable = DEFAULT_RATING_TABLE,
+  policyTerm: number = 1
+): RiskFactors[] {
+  return Array.from({ length: policyTerm }, (_, year) =>
+    calculateRiskFactors({
+      ...input,
+      age: input.age + year,
+      members: input.members?.map(m => ({ ...m, age: m.age + year })),
+    }, table)
+  )
+}
+
+// Split a premium across members by their weighted loading; the rounding
+// remainder goes to the eldest member so contributions add up exactly
+const allocateMemberPremiums = (finalPremium: number, members: MemberRisk[]): MemberContribution[] => {
+  const totalLoading = members.reduce((sum, m) => sum + m.weight * m.medicalRisk, 0)
+  const contributions = members.map(member => ({
+    ...member,
+    premium: Math.round(finalPremium * (member.weight * member.medicalRisk) / totalLoading),
+  }))
+
+  const remainder = finalPremium - contributions.reduce((sum, c) => sum + c.premium, 0)
+  const eldest = contributions.reduce((a, b) => (b.age > a.age ? b : a))
+  eldest.premium += remainder
+
+  return contributions
+}
+
+// Price a single plan on its own base rate, deductible and loadings,
+// with the customer's risk factors on top
+export function calculatePlanPremium(
+  plan: ProductPlan & { riders?: PlanRider[] },
+  factors: RiskFactors,
+  options: PlanPremiumOptions = {}
+): PremiumBreakdown {
+  const basePremium = Number(plan.premiumAmount)
+  const planLoading = getPlanLoading(plan)
+  const deductibleCredit = getDeductibleCredit(Number(plan.deductible))
+
+  // Base cover and riders for one policy year; riders are priced on their
+  // own rules and added on top of the base cover
+  const priceYear = (yearFactors: RiskFactors) => {
+    const planPremium = Math.round(
+      basePremium *
+        yearFactors.riskFactor *
+        yearFactors.memberFactor *
+        yearFactors.cityMultiplier *
+        planLoading *
+        (1 - deductibleCredit) *
+        (1 - yearFactors.familyDiscount)
     )
+    const { riders, unavailable } = priceRiders(plan.riders ?? [], options.riders ?? [], yearFactors.members, planPremium)
+    const riderPremium = riders.reduce((sum, r) => sum + r.premium, 0)
+    return { planPremium, riders, unavailable, riderPremium }
+  }
+
+  const { planPremium, riders, unavailable, riderPremium } = priceYear(factors)
+
+  // Renewal years are priced at the members' ages in that year, then the
+  // whole term gets the long-term discount
+  const renewalFactors = options.renewalFactors ?? []
+  const policyTerm = 1 + renewalFactors.length
+  const termDiscount = POLICY_TERM_DISCOUNTS[policyTerm] ?? 0
+  const yearlyPremiums = [planPremium + riderPremium, ...renewalFactors.map(f => {
+    const year = priceYear(f)
+    return year.planPremium + year.riderPremium
+  })].map((premium, index) => ({
+    year: index + 1,
+    premium: Math.round(premium * (1 - termDiscount)),
+  }))
+  const termPremium = yearlyPremiums.reduce((sum, y) => sum + y.premium, 0)
 
-    // Get recommended plans
+  // Paying in instalments carries a loading; every instalment is the same
+  // amount, so the premium for the term is the instalment times the count
+  const paymentFrequency = options.paymentFrequency ?? 'ANNUAL'
+  const { instalments, loading: frequencyLoading } = PAYMENT_FREQUENCIES[paymentFrequency]
+  const instalmentCount = instalments * policyTerm
+  const instalmentAmount = Math.round(termPremium * (1 + frequencyLoading) / instalmentCount)
+
+  return {
+    basePremium,
+    ageRisk: factors.ageRisk,
+    medicalRisk: factors.medicalRisk,
+    riskFactor: factors.riskFactor,
+    memberFactor: factors.memberFactor,
+    cityMultiplier: factors.cityMultiplier,
+    planLoading,
+    deductibleCredit,
+    familyDiscount: factors.familyDiscount,
+    planPremium,
+    riderPremium,
+    paymentFrequency,
+    frequencyLoading,
+    policyTerm,
+    termDiscount,
+    yearlyPremiums,
+    instalmentCount,
+    instalmentAmount,
+    finalPremium: instalmentAmount * instalmentCount,
+    ratingTable: factors.ratingTable,
+    members: allocateMemberPremiums(planPremium, factors.members),
+    riders,
+    unavailableRiders: unavailable,
+  }
+}
+
+export async function calculateQuote(
+  input: QuoteInput,
+  options: QuoteOptions = {}
+): Promise<QuoteResult> {
+  try {
+    const pricedAt = options.asOf ?? new Date()
+    const isFloater = getMemberCount(input) > 1
+
+    // Every matching plan is priced and the cheapest recommended; more than
+    // one member needs a family floater
     const plans = await prisma.productPlan.findMany({
-      where: {
-        coverageAmount: { gte: input.coverageAmount },
-      },
+      where: options.planIds
+        ? { id: { in: options.planIds } }
+        : {
+            status: 'ACTIVE',
+            coverageAmount: { gte: input.coverageAmount },
+            ...(isFloater && { planType: 'FAMILY' }),
+          },
       include: {
         insurer: true,
         benefits: true,
+        riders: { where: { status: 'ACTIVE' } },
       },
-      take: 3,
+      orderBy: { id: 'asc' },
     }) as PlanWithRelations[]
 
-    const recommendedPlans = plans.map(plan => ({
+    // Resolve the rating table version active at quote time for each plan,
+    // and the underwriting rules the rated plans are checked against
+    const ratingTables = await getActiveRatingTables(plans, pricedAt)
+    const underwritingRules = await getActiveUnderwritingRules(pricedAt)
+
+    // Indicative market premium (1% of coverage amount), used as a benchmark
+    const basePremium = input.coverageAmount * 0.01
+    const factors = calculateRiskFactors(input, ratingTables.global)
+    const policyTerm = input.policyTerm ?? 1
+
+    // Calculate final premium
+    const finalPremium = Math.round(
+      basePremium *
+        factors.riskFactor *
+        factors.memberFactor *
+        factors.cityMultiplier *
+        (1 - factors.familyDiscount)
+    )
+
+    // Each plan is priced on its own terms
+    const recommendedPlans = plans
+      .map(plan => {
+        const [planFactors, ...renewalFactors] =
+          calculateTermRiskFactors(input, ratingTables.byPlan[plan.id], policyTerm)
+        const breakdown = calculatePlanPremium(plan, planFactors, {
+          riders: input.riders,
+          paymentFrequency: input.paymentFrequency,
+          renewalFactors,
+        })
+        return {
           planId: plan.id,
-      planName: plan.name,
-      insurerName: plan.insurer.name,
-      premium: Math.round(finalPremium),
-      features: plan.benefits.map(b => b.name),
-    }))
+          planName: plan.name,
+          insurerName: plan.insurer.name,
+          coverageAmount: Number(plan.coverageAmount),
+          deductible: Number(plan.deductible),
+          premium: breakdown.finalPremium,
+          breakdown,
+          features: plan.benefits.map(b => b.name),
+          // Referred and declined plans keep their price so the customer can
+          // see what was quoted
+          underwriting: evaluateUnderwriting(
+            getQuoteMembers(input),
+            { planType: plan.planType, coverageAmount: Number(plan.coverageAmount) },
+            planFactors.riskFactor,
+            underwritingRules
+          ),
+        }
+      })
+      .sort((a, b) => a.premium - b.premium)
+      .slice(0, options.planIds || options.limit === null ? undefined : options.limit ?? RECOMMENDED_PLAN_COUNT)
 
     return {
       basePremium,
-      riskFactor,
-      cityMultiplier,
-      familyDiscount,
+      riskFactor: factors.riskFactor,
+      cityMultiplier: factors.cityMultiplier,
+      familyDiscount: factors.familyDiscount,
       finalPremium,
       coverageAmount: input.coverageAmount,
+      pricedAt: pricedAt.toISOString(),
+      ratingTable: factors.ratingTable,
       recommendedPlans,
     }
   } catch (error) {
@@ -138,13 +508,65 @@ export async function calculateQuote(input: QuoteInput): Promise<QuoteResult> {
   }
 }
 
-// Export the schema for validation
-export const QuoteInputSchema = z.object({
+export const QuoteMemberSchema = z.object({
+  relationship: z.enum(MEMBER_RELATIONSHIPS),
+  age: z.number().min(0).max(120),
+  gender: z.enum(['MALE', 'FEMALE', 'OTHER']).optional(),
+  medicalConditions: z.array(z.string()).optional(),
+})
+
+// Quote input fields, before the floater composition checks
+export const QuoteInputObjectSchema = z.object({
   age: z.number().min(0).max(120),
   gender: z.enum(['MALE', 'FEMALE', 'OTHER']),
   city: z.string().min(1),
   hasMedicalConditions: z.boolean(),
   medicalConditions: z.array(z.string()).optional(),
-  familySize: z.number().min(1).max(10),
+  familySize: z.number().min(1).max(10).optional(),
+  members: z.array(QuoteMemberSchema).min(1).max(10).optional(),
   coverageAmount: z.number().min(100000),
-})
\ No newline at end of file
+  riders: SelectedRidersSchema.optional(),
+  paymentFrequency: z.nativeEnum(PaymentFrequency).optional(),
+  policyTerm: z.number().int().min(1).max(3).optional(),
+  budget: z.number().positive().optional(),
+})
+
+// Floater composition checks, shared by every schema built on quote input
+export const refineQuoteMembers = (input: { members?: QuoteMember[] }, ctx: z.RefinementCtx) => {
+  if (!input.members) return
+
+  const children = input.members.filter(m => m.relationship === 'CHILD')
+  const adults = input.members.length - children.length
+
+  if (input.members.filter(m => m.relationship === 'SELF').length > 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['members'],
+      message: 'Only one member can be SELF',
+    })
+  }
+  if (adults > FLOATER_LIMITS.maxAdults) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['members'],
+      message: `A policy can cover at most ${FLOATER_LIMITS.maxAdults} adults`,
+    })
+  }
+  if (children.length > FLOATER_LIMITS.maxChildren) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['members'],
+      message: `A policy can cover at most ${FLOATER_LIMITS.maxChildren} children`,
+    })
+  }
+  if (children.some(c => c.age > FLOATER_LIMITS.maxChildAge)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['members'],
+      message: `Children must be ${FLOATER_LIMITS.maxChildAge} or younger`,
+    })
+  }
+}
+
+// Export the schema for validation
+export const QuoteInputSchema = QuoteInputObjectSchema.superRefine(refineQuoteMembers)
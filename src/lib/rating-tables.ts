@@ -0,0 +1,151 @@
+import { prisma } from './prisma'
+import { z } from 'zod'
+import { ProductPlan, RatingTable } from '@prisma/client'
+
+// Rating table validation - shared by the admin API and the table loader
+export const RatingTableDataSchema = z.object({
+  cityTiers: z.array(z.object({
+    tier: z.string().min(1),
+    multiplier: z.number().positive(),
+    cities: z.array(z.string().min(1)),
+  })),
+  defaultCityMultiplier: z.number().positive(),
+  medicalConditionRisks: z.record(z.number().positive()),
+  ageBands: z.array(z.object({
+    maxAge: z.number().int().min(0).nullable(), // null = open-ended top band
+    factor: z.number().positive(),
+  })).min(1),
+  familyDiscounts: z.array(z.object({
+    minSize: z.number().int().min(1),
+    discount: z.number().min(0).max(1),
+  })),
+})
+
+export type RatingTableData = z.infer<typeof RatingTableDataSchema>
+
+export type RatingTableScope = 'PLAN' | 'INSURER' | 'GLOBAL' | 'DEFAULT'
+
+// Versions are unique per scope key rather than per insurer and plan id,
+// which Postgres would treat as distinct whenever they are null
+export function getRatingTableScopeKey({ insurerId, planId }: Pick<RatingTable, 'insurerId' | 'planId'>): string {
+  return planId ? `PLAN:${planId}` : insurerId ? `INSURER:${insurerId}` : 'GLOBAL'
+}
+
+export interface ActiveRatingTable extends RatingTableData {
+  id: string | null
+  version: number
+  effectiveFrom: string
+  scope: RatingTableScope
+}
+
+// Reference to the table a premium was priced with, stored in Quote.details
+export interface RatingTableRef {
+  id: string | null
+  version: number
+  scope: RatingTableScope
+  effectiveFrom: string
+}
+
+// Built-in fallback used when no table has been published yet
+export const DEFAULT_RATING_TABLE: ActiveRatingTable = {
+  id: null,
+  version: 0,
+  effectiveFrom: new Date(0).toISOString(),
+  scope: 'DEFAULT',
+  cityTiers: [
+    {
+      tier: 'TIER_1',
+      multiplier: 1.2,
+      cities: ['Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Kolkata', 'Hyderabad'],
+    },
+    {
+      tier: 'TIER_2',
+      multiplier: 1.1,
+      cities: ['Pune', 'Ahmedabad', 'Jaipur', 'Lucknow', 'Chandigarh', 'Kochi'],
+    },
+  ],
+  defaultCityMultiplier: 1.0, // TIER_3 - all other cities
+  medicalConditionRisks: {
+    diabetes: 1.3,
+    hypertension: 1.2,
+    heartDisease: 1.5,
+    asthma: 1.15,
+    cancer: 2.0,
+    none: 1.0,
+  },
+  ageBands: [
+    { maxAge: 25, factor: 1.0 },
+    { maxAge: 35, factor: 1.1 },
+    { maxAge: 45, factor: 1.2 },
+    { maxAge: 55, factor: 1.3 },
+    { maxAge: 65, factor: 1.5 },
+    { maxAge: null, factor: 1.8 },
+  ],
+  familyDiscounts: [
+    { minSize: 4, discount: 0.15 },
+    { minSize: 2, discount: 0.10 },
+  ],
+}
+
+export function toRatingTableRef(table: ActiveRatingTable): RatingTableRef {
+  return {
+    id: table.id,
+    version: table.version,
+    scope: table.scope,
+    effectiveFrom: table.effectiveFrom,
+  }
+}
+
+function toActiveRatingTable(row: RatingTable): ActiveRatingTable {
+  const data = RatingTableDataSchema.parse({
+    cityTiers: row.cityTiers,
+    defaultCityMultiplier: row.defaultCityMultiplier,
+    medicalConditionRisks: row.medicalConditionRisks,
+    ageBands: row.ageBands,
+    familyDiscounts: row.familyDiscounts,
+  })
+
+  return {
+    ...data,
+    id: row.id,
+    version: row.version,
+    effectiveFrom: row.effectiveFrom.toISOString(),
+    scope: row.planId ? 'PLAN' : row.insurerId ? 'INSURER' : 'GLOBAL',
+  }
+}
+
+/**
+ * Resolves the rating table active at `asOf` for each plan. A plan-specific
+ * table wins over an insurer table, which wins over the global table; the
+ * built-in defaults apply when none has been published.
+ */
+export async function getActiveRatingTables(
+  plans: Pick<ProductPlan, 'id' | 'insurerId'>[],
+  asOf: Date = new Date()
+): Promise<{ global: ActiveRatingTable; byPlan: Record<string, ActiveRatingTable> }> {
+  const rows = await prisma.ratingTable.findMany({
+    where: {
+      effectiveFrom: { lte: asOf },
+      OR: [
+        { planId: { in: plans.map(p => p.id) } },
+        { planId: null, insurerId: { in: plans.map(p => p.insurerId) } },
+        { planId: null, insurerId: null },
+      ],
+    },
+    orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+  })
+
+  // Rows are newest first, so the first match for each scope is the active one
+  const globalRow = rows.find(r => !r.planId && !r.insurerId)
+  const global = globalRow ? toActiveRatingTable(globalRow) : DEFAULT_RATING_TABLE
+
+  const byPlan: Record<string, ActiveRatingTable> = {}
+  for (const plan of plans) {
+    const row =
+      rows.find(r => r.planId === plan.id) ??
+      rows.find(r => !r.planId && r.insurerId === plan.insurerId)
+    byPlan[plan.id] = row ? toActiveRatingTable(row) : global
+  }
+
+  return { global, byPlan }
+}
@@ -1,7 +1,11 @@
 import { prisma } from '@/lib/prisma';
-import { Customer, Hospital, ProductPlan, Insurer, Prisma } from '@prisma/client';
+import { PlanType, Prisma, UnderwritingDecision } from '@prisma/client';
+import { z } from 'zod';
+import { calculateQuote, getMemberCount, QuoteInput, QuoteInputSchema, RecommendedPlan } from '@/lib/quote-engine';
+import { normalizeCondition } from '@/lib/underwriting';
+import { DeclaredCondition, getDeclaredConditions } from '@/lib/waiting-periods';
 
-interface ScoringWeights {
+export interface ScoringWeights {
   coverage: number;
   premium: number;
   insurerRating: number;
@@ -9,47 +13,157 @@ interface ScoringWeights {
   benefits: number;
   ageAppropriate: number;
   locationCoverage: number;
+  conditionCover: number;
 }
 
+export interface ScoreBreakdown {
+  coverageScore: number;
+  premiumScore: number;
+  insurerScore: number;
+  networkScore: number;
+  benefitsScore: number;
+  ageScore: number;
+  locationScore: number;
+  conditionScore: number;
+}
+
+const weight = z.number().min(0).max(1);
+
+// Weights as chosen on the dashboard; any left out keep their default share
+export const ScoringWeightsSchema = z.object({
+  coverage: weight,
+  premium: weight,
+  insurerRating: weight,
+  networkSize: weight,
+  benefits: weight,
+  ageAppropriate: weight,
+  locationCoverage: weight,
+  conditionCover: weight,
+}).partial();
+
 interface PlanScore {
-  score: number;
-  breakdown: {
-    coverageScore: number;
-    premiumScore: number;
-    insurerScore: number;
-    networkScore: number;
-    benefitsScore: number;
-    ageScore: number;
-    locationScore: number;
-  };
+  total: number;
+  breakdown: ScoreBreakdown;
   reasons: string[];
 }
 
-interface NetworkHospital {
-  hospital: Hospital;
-  cashless: boolean;
+const RECOMMENDABLE_PLAN_INCLUDE = {
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+      rating: true,
+    },
+  },
+  benefits: {
+    where: { status: 'ACTIVE' },
+    select: {
+      name: true,
+      description: true,
+      coverageAmount: true,
+    },
+  },
+  waitingPeriods: {
+    select: {
+      type: true,
+      days: true,
+      conditions: true,
+    },
+  },
+  networkHospitals: {
+    select: {
+      cashless: true,
+      hospital: {
+        select: { address: true },
+      },
+    },
+  },
+} as const;
+
+export type RecommendablePlan = Prisma.ProductPlanGetPayload<{ include: typeof RECOMMENDABLE_PLAN_INCLUDE }>;
+
+// A policy the customer already holds, so the same cover is not suggested again
+export interface ExistingCover {
+  planCode: string;
+  planName: string;
+  planType: PlanType;
+  coverageAmount: number;
 }
 
-interface ExtendedPlan extends ProductPlan {
-  insurer: Insurer;
-  benefits: Array<{
-    name: string;
-    coverageAmount: number;
-  }>;
-  networkHospitals: NetworkHospital[];
+/**
+ * Who the recommendations are for, from the customer's latest quote where
+ * there is one and otherwise from their profile and the family members on
+ * their policies.
+ */
+export interface RecommendationProfile {
+  age: number; // the eldest member, who drives pricing and age-related needs
+  memberCount: number;
+  city: string | null;
+  state: string | null;
+  conditions: DeclaredCondition[];
+  budget: number | null; // yearly premium ceiling
+  existingCover: ExistingCover[];
+  quoteInput: QuoteInput | null;
+  // Weights the customer saved, if any
+  savedWeights: ScoringWeights | null;
+}
+
+export interface RecommendationOptions {
+  // Defaults to the customer's saved weights
+  weights?: Partial<ScoringWeights>;
+  // Overrides the budget from the latest quote
+  budget?: number;
+  limit?: number;
+}
+
+export interface PlanRecommendation {
+  id: string;
+  name: string;
+  insurer: string;
+  coverageAmount: number;
+  // Yearly premium: quoted for the customer when there is a quote, otherwise the plan's base premium
   premium: number;
+  premiumQuoted: boolean;
+  underwritingDecision: UnderwritingDecision | null;
+  score: number;
+  scoreBreakdown: ScoreBreakdown;
+  reasons: string[];
 }
 
-const DEFAULT_WEIGHTS: ScoringWeights = {
-  coverage: 0.25,
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  coverage: 0.20,
   premium: 0.20,
-  insurerRating: 0.15,
-  networkSize: 0.15,
+  insurerRating: 0.10,
+  networkSize: 0.10,
   benefits: 0.10,
   ageAppropriate: 0.10,
-  locationCoverage: 0.05,
+  locationCoverage: 0.10,
+  conditionCover: 0.10,
 };
 
+/**
+ * Fills in missing weights from the defaults and scales them to sum to 1,
+ * so scores stay between 0 and 1 whatever the sliders are set to. All
+ * zeros means no preference, which is the defaults.
+ */
+export function normalizeWeights(weights: Partial<ScoringWeights> = {}): ScoringWeights {
+  const merged = { ...DEFAULT_WEIGHTS, ...weights };
+  const keys = Object.keys(DEFAULT_WEIGHTS) as (keyof ScoringWeights)[];
+  const total = keys.reduce((sum, key) => sum + merged[key], 0);
+  if (!total) return { ...DEFAULT_WEIGHTS };
+
+  return keys.reduce((normalized, key) => {
+    normalized[key] = merged[key] / total;
+    return normalized;
+  }, {} as ScoringWeights);
+}
+
+// Saved weights from the customer profile; null when unset or unreadable
+export function parseSavedWeights(value: Prisma.JsonValue | null): ScoringWeights | null {
+  const parsed = ScoringWeightsSchema.safeParse(value);
+  return parsed.success && value ? normalizeWeights(parsed.data) : null;
+}
+
 const BENEFIT_IMPORTANCE = {
   'Hospitalization': 10,
   'Pre & Post Hospitalization': 8,
@@ -68,6 +182,41 @@ const BENEFIT_IMPORTANCE = {
   'Covid-19': 8,
 };
 
+/**
+ * Words in a benefit's name or description that show it covers a declared
+ * condition, keyed by normalised condition code. A condition not listed
+ * here matches benefits that mention it by name.
+ */
+const CONDITION_BENEFIT_KEYWORDS: Record<string, string[]> = {
+  diabetes: ['diabetes', 'diabetic', 'chronic'],
+  hypertension: ['hypertension', 'blood pressure', 'chronic', 'cardiac'],
+  heartdisease: ['heart', 'cardiac', 'critical illness'],
+  asthma: ['asthma', 'respiratory', 'chronic'],
+  cancer: ['cancer', 'oncology', 'critical illness'],
+};
+
+// Policies in these states still provide cover
+const LIVE_POLICY_STATUSES = ['ACTIVE', 'PENDING', 'GRACE_PERIOD'] as const;
+
+// Pre-existing waiting periods are scored against the longest the regulator allows
+const MAX_PRE_EXISTING_WAIT_DAYS = 3 * 365;
+
+const DEFAULT_LIMIT = 5;
+
+const yearsSince = (date: Date, now: Date) => {
+  const years = now.getFullYear() - date.getFullYear();
+  const hadBirthday = now.getMonth() > date.getMonth() ||
+    (now.getMonth() === date.getMonth() && now.getDate() >= date.getDate());
+  return hadBirthday ? years : years - 1;
+};
+
+const addressField = (address: Prisma.JsonValue, field: 'city' | 'state'): string | null => {
+  const value = (address as Prisma.JsonObject | null)?.[field];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+const formatRupees = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
 /**
  * Calculates a normalized score between 0 and 1
  * @param value Current value
@@ -80,44 +229,51 @@ function normalizeScore(value: number, min: number, max: number): number {
   return Math.max(0, Math.min(1, (value - min) / (max - min)));
 }
 
+const hasBenefit = (plan: RecommendablePlan, keyword: string) =>
+  plan.benefits.some(b => b.name.toLowerCase().includes(keyword));
+
 /**
- * Calculates age-appropriate score based on plan benefits and user age
+ * Calculates age-appropriate score based on plan benefits and the eldest member's age
  */
-function calculateAgeScore(age: number, plan: ExtendedPlan): { score: number; reasons: string[] } {
-  let score = 1;
+function calculateAgeScore(age: number, plan: RecommendablePlan): { score: number; reasons: string[] } {
+  let score = 0.6;
   const reasons: string[] = [];
 
   // Young adults (18-30)
-  if (age >= 18 && age <= 30) {
-    if (plan.benefits.some((b: any) => b.name.toLowerCase().includes('maternity'))) {
+  if (age <= 30) {
+    if (hasBenefit(plan, 'maternity')) {
       score += 0.2;
       reasons.push('Includes maternity benefits suitable for age group');
     }
-    if (plan.benefits.some((b: any) => b.name.toLowerCase().includes('accident'))) {
+    if (hasBenefit(plan, 'accident')) {
       score += 0.2;
       reasons.push('Includes accident coverage important for young adults');
     }
   }
-  
+
   // Middle age (31-50)
-  else if (age >= 31 && age <= 50) {
-    if (plan.benefits.some((b: any) => b.name.toLowerCase().includes('critical illness'))) {
+  else if (age <= 50) {
+    if (hasBenefit(plan, 'critical illness')) {
       score += 0.2;
       reasons.push('Includes critical illness coverage important for middle age');
     }
-    if (plan.benefits.some((b: any) => b.name.toLowerCase().includes('health check'))) {
+    if (hasBenefit(plan, 'health check')) {
       score += 0.2;
       reasons.push('Includes preventive health check-ups');
     }
   }
-  
+
   // Senior (51+)
   else {
-    if (plan.benefits.some((b: any) => b.name.toLowerCase().includes('pre-existing'))) {
-      score += 0.3;
+    if (plan.planType === 'SENIOR') {
+      score += 0.2;
+      reasons.push('Designed for senior citizens');
+    }
+    if (hasBenefit(plan, 'pre-existing')) {
+      score += 0.2;
       reasons.push('Covers pre-existing conditions');
     }
-    if (plan.benefits.some((b: any) => b.name.toLowerCase().includes('day care'))) {
+    if (hasBenefit(plan, 'day care')) {
       score += 0.2;
       reasons.push('Includes day care procedures coverage');
     }
@@ -129,7 +285,7 @@ function calculateAgeScore(age: number, plan: ExtendedPlan): { score: number; re
 /**
  * Calculates benefits score based on coverage amounts and importance
  */
-function calculateBenefitsScore(benefits: ExtendedPlan['benefits']): { score: number; reasons: string[] } {
+function calculateBenefitsScore(benefits: RecommendablePlan['benefits']): { score: number; reasons: string[] } {
   let totalScore = 0;
   const reasons: string[] = [];
   let totalWeight = 0;
@@ -137,85 +293,119 @@ function calculateBenefitsScore(benefits: ExtendedPlan['benefits']): { score: nu
   benefits.forEach(benefit => {
     const importance = BENEFIT_IMPORTANCE[benefit.name as keyof typeof BENEFIT_IMPORTANCE] || 5;
     totalWeight += importance;
-    
+
     // Score based on coverage amount and importance
     const coverageScore = normalizeScore(
       Number(benefit.coverageAmount),
       0,
       10000000 // 1 Crore as max reference
     );
-    
+
     totalScore += coverageScore * importance;
-    
+
     if (coverageScore > 0.8) {
       reasons.push(`High coverage for ${benefit.name}`);
     }
   });
 
   return {
-    score: totalScore / totalWeight,
+    score: totalWeight ? totalScore / totalWeight : 0,
     reasons,
   };
 }
 
 /**
- * Gets plan recommendations based on user preferences and profile
+ * How well a plan suits the declared conditions: half for a benefit that
+ * covers the condition, half for a short pre-existing waiting period. Each
+ * condition counts once however many members declared it.
  */
-export async function getRecommendations(
-  customerId: string,
-  weights: Partial<ScoringWeights> = {}
-) {
-  // Merge custom weights with defaults
-  const scoringWeights = { ...DEFAULT_WEIGHTS, ...weights };
+function calculateConditionScore(
+  conditions: DeclaredCondition[],
+  plan: RecommendablePlan
+): { score: number; reasons: string[] } {
+  const codes = Array.from(new Set(conditions.map(c => normalizeCondition(c.condition))));
+  if (!codes.length) return { score: 1, reasons: [] };
 
-  // Fetch user data
-  const customer = await prisma.customer.findUnique({
-    where: { id: customerId },
-    select: {
-      id: true,
-      dateOfBirth: true,
-      address: true,
-      policies: {
-        select: {
-          id: true,
-          planId: true,
-          status: true,
-        },
-      },
-    },
-  });
+  const reasons: string[] = [];
+  const total = codes.reduce((sum, code) => {
+    const label = conditions.find(c => normalizeCondition(c.condition) === code)!.condition;
+    const keywords = CONDITION_BENEFIT_KEYWORDS[code] ?? [code];
+    const benefit = plan.benefits.find(b => {
+      const text = normalizeCondition(`${b.name} ${b.description}`);
+      return keywords.some(keyword => text.includes(normalizeCondition(keyword)));
+    });
+    if (benefit) reasons.push(`${benefit.name} covers declared ${label}`);
 
-  if (!customer) {
-    throw new Error('Customer not found');
+    // The longest pre-existing wait that applies to this condition
+    const waitDays = Math.max(0, ...plan.waitingPeriods
+      .filter(p => p.type === 'PRE_EXISTING' &&
+        (!p.conditions.length || p.conditions.some(c => normalizeCondition(c) === code)))
+      .map(p => p.days));
+    const waitScore = 1 - Math.min(waitDays, MAX_PRE_EXISTING_WAIT_DAYS) / MAX_PRE_EXISTING_WAIT_DAYS;
+
+    return sum + (benefit ? 0.5 : 0) + waitScore * 0.5;
+  }, 0);
+
+  const preExistingDays = Math.max(0, ...plan.waitingPeriods.filter(p => p.type === 'PRE_EXISTING').map(p => p.days));
+  if (preExistingDays && preExistingDays <= 365) {
+    reasons.push(`Pre-existing conditions covered after ${preExistingDays} days`);
+  } else if (!preExistingDays) {
+    reasons.push('No waiting period for pre-existing conditions');
   }
 
-  // Calculate age
-  const age = new Date().getFullYear() - new Date(customer.dateOfBirth).getFullYear();
-  const address = customer.address as Prisma.JsonObject;
+  return { score: total / codes.length, reasons };
+}
+
+/**
+ * Whether a plan would duplicate cover the customer already has: the same
+ * plan (in any version), or a plan of the same type that adds no cover.
+ */
+function duplicatesExistingCover(plan: RecommendablePlan, existingCover: ExistingCover[]): boolean {
+  return existingCover.some(cover =>
+    cover.planCode === plan.planCode ||
+    (cover.planType === plan.planType && cover.coverageAmount >= Number(plan.coverageAmount))
+  );
+}
 
-  // Fetch all plans with related data
-  const plans = await prisma.productPlan.findMany({
-    include: {
-      insurer: true,
-      benefits: {
-        select: {
-          name: true,
-          coverageAmount: true,
-        },
-      },
-      networkHospitals: {
-        include: {
-          hospital: true,
-        },
-      },
-    },
-  }) as unknown as ExtendedPlan[];
+// Plans a customer with this many members can buy; more than one member needs a family floater
+const suitsMembers = (plan: RecommendablePlan, memberCount: number) =>
+  memberCount > 1 ? plan.planType === 'FAMILY' : plan.planType !== 'FAMILY';
+
+/**
+ * Scores and ranks plans for a profile. Plans that do not suit the members,
+ * duplicate existing cover, or cost more a year than the budget are left
+ * out; the rest are scored against each other.
+ * @param plans Plans on sale
+ * @param profile Who the recommendations are for
+ * @param weights Weight of each score in the total
+ * @param quoted Premiums quoted for the profile, by plan id
+ */
+export function rankPlans(
+  plans: RecommendablePlan[],
+  profile: RecommendationProfile,
+  weights: ScoringWeights = DEFAULT_WEIGHTS,
+  quoted: Map<string, RecommendedPlan> = new Map()
+): PlanRecommendation[] {
+  const yearlyPremium = (plan: RecommendablePlan) => {
+    const quote = quoted.get(plan.id);
+    return quote
+      ? quote.breakdown.yearlyPremiums?.[0]?.premium ?? quote.premium / (quote.breakdown.policyTerm || 1)
+      : Number(plan.premiumAmount);
+  };
+
+  const candidates = plans.filter(plan =>
+    suitsMembers(plan, profile.memberCount) &&
+    !duplicatesExistingCover(plan, profile.existingCover) &&
+    (profile.budget === null || yearlyPremium(plan) <= profile.budget) &&
+    quoted.get(plan.id)?.underwriting.decision !== 'DECLINE'
+  );
+  if (!candidates.length) return [];
 
   // Get min/max values for normalization
-  const premiums = plans.map(p => p.premium);
-  const coverages = plans.map(p => Number(p.coverageAmount));
-  const networkSizes = plans.map(p => p.networkHospitals.length);
-  
+  const premiums = candidates.map(yearlyPremium);
+  const coverages = candidates.map(p => Number(p.coverageAmount));
+  const networkSizes = candidates.map(p => p.networkHospitals.length);
+
   const minPremium = Math.min(...premiums);
   const maxPremium = Math.max(...premiums);
   const minCoverage = Math.min(...coverages);
@@ -223,96 +413,226 @@ export async function getRecommendations(
   const minNetworkSize = Math.min(...networkSizes);
   const maxNetworkSize = Math.max(...networkSizes);
 
-  // Score each plan
-  const scoredPlans = plans.map(plan => {
-    const coverageScore = normalizeScore(
-      Number(plan.coverageAmount),
-      minCoverage,
-      maxCoverage
-    );
+  // Hospitals in the customer's city, or failing that their state
+  const area = profile.city ?? profile.state;
+  const inArea = (address: Prisma.JsonValue) => {
+    const value = addressField(address, profile.city ? 'city' : 'state');
+    return Boolean(area && value && value.toLowerCase() === area.toLowerCase());
+  };
+
+  const scoredPlans = candidates.map(plan => {
+    const premium = yearlyPremium(plan);
+    const quote = quoted.get(plan.id);
+
+    const coverageScore = normalizeScore(Number(plan.coverageAmount), minCoverage, maxCoverage);
 
     // Lower premium is better
-    const premiumScore = 1 - normalizeScore(
-      plan.premium,
-      minPremium,
-      maxPremium
-    );
+    const premiumScore = 1 - normalizeScore(premium, minPremium, maxPremium);
 
     const insurerScore = normalizeScore(
-      Number(plan.insurer.rating),
+      Number(plan.insurer.rating ?? 0),
       3.0, // Minimum acceptable rating
       5.0  // Maximum rating
     );
 
-    const networkScore = normalizeScore(
-      plan.networkHospitals.length,
-      minNetworkSize,
-      maxNetworkSize
-    );
+    const networkScore = normalizeScore(plan.networkHospitals.length, minNetworkSize, maxNetworkSize);
 
     // Calculate location coverage
-    const nearbyHospitals = plan.networkHospitals.filter(np => 
-      (np.hospital.address as Prisma.JsonObject).state === address.state
-    ).length;
-    const locationScore = normalizeScore(nearbyHospitals, 0, plan.networkHospitals.length);
+    const nearbyHospitals = plan.networkHospitals.filter(nh => inArea(nh.hospital.address)).length;
+    const locationScore = area && plan.networkHospitals.length
+      ? normalizeScore(nearbyHospitals, 0, plan.networkHospitals.length)
+      : 0;
 
-    // Calculate benefits score
     const { score: benefitsScore, reasons: benefitReasons } = calculateBenefitsScore(plan.benefits);
-
-    // Calculate age-appropriate score
-    const { score: ageScore, reasons: ageReasons } = calculateAgeScore(age, plan);
+    const { score: ageScore, reasons: ageReasons } = calculateAgeScore(profile.age, plan);
+    const { score: conditionScore, reasons: conditionReasons } = calculateConditionScore(profile.conditions, plan);
 
     // Calculate weighted total score
     const totalScore =
-      coverageScore * scoringWeights.coverage +
-      premiumScore * scoringWeights.premium +
-      insurerScore * scoringWeights.insurerRating +
-      networkScore * scoringWeights.networkSize +
-      benefitsScore * scoringWeights.benefits +
-      ageScore * scoringWeights.ageAppropriate +
-      locationScore * scoringWeights.locationCoverage;
+      coverageScore * weights.coverage +
+      premiumScore * weights.premium +
+      insurerScore * weights.insurerRating +
+      networkScore * weights.networkSize +
+      benefitsScore * weights.benefits +
+      ageScore * weights.ageAppropriate +
+      locationScore * weights.locationCoverage +
+      conditionScore * weights.conditionCover;
 
     // Compile reasons for the score
     const reasons = [
-      coverageScore > 0.7 && `High coverage amount of ₹${plan.coverageAmount.toString()}`,
-      premiumScore > 0.7 && 'Competitive premium pricing',
+      coverageScore > 0.7 && `High coverage amount of ${formatRupees(Number(plan.coverageAmount))}`,
+      premiumScore > 0.7 && (quote ? `Competitive premium of ${formatRupees(premium)} a year for your family` : 'Competitive premium pricing'),
+      profile.budget !== null && `Within your budget of ${formatRupees(profile.budget)} a year`,
       insurerScore > 0.7 && `High insurer rating of ${plan.insurer.rating}`,
       networkScore > 0.7 && `Large network of ${plan.networkHospitals.length} hospitals`,
-      locationScore > 0.7 && `Good coverage in ${(address as any).state}`,
+      locationScore > 0.3 && `${nearbyHospitals} network hospitals in ${area}`,
+      quote?.underwriting.decision === 'REFER' && 'Needs a manual underwriting review before purchase',
+      ...conditionReasons,
       ...benefitReasons,
       ...ageReasons,
     ].filter(Boolean) as string[];
 
-    return {
-      plan,
-      score: {
-        total: totalScore,
-        breakdown: {
-          coverageScore,
-          premiumScore,
-          insurerScore,
-          networkScore,
-          benefitsScore,
-          ageScore,
-          locationScore,
-        },
-        reasons,
+    const score: PlanScore = {
+      total: totalScore,
+      breakdown: {
+        coverageScore,
+        premiumScore,
+        insurerScore,
+        networkScore,
+        benefitsScore,
+        ageScore,
+        locationScore,
+        conditionScore,
       },
+      reasons,
     };
+
+    return { plan, premium, quote, score };
   });
 
-  // Sort by score and return top recommendations
+  // Sort by score and return the recommendations
   return scoredPlans
     .sort((a, b) => b.score.total - a.score.total)
-    .slice(0, 5)
-    .map(({ plan, score }) => ({
+    .map(({ plan, premium, quote, score }) => ({
       id: plan.id,
       name: plan.name,
       insurer: plan.insurer.name,
-      coverageAmount: plan.coverageAmount,
-      premium: plan.premium,
+      coverageAmount: Number(plan.coverageAmount),
+      premium: Math.round(premium),
+      premiumQuoted: Boolean(quote),
+      underwritingDecision: quote?.underwriting.decision ?? null,
       score: score.total,
       scoreBreakdown: score.breakdown,
       reasons: score.reasons,
     }));
 }
+
+/**
+ * Builds the profile to recommend for. The latest quote supplies members,
+ * ages, conditions, city and budget; without one the customer's own age and
+ * address and the family members on their policies are used.
+ */
+export async function getRecommendationProfile(customerId: string, now: Date = new Date()): Promise<RecommendationProfile> {
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: {
+      id: true,
+      dateOfBirth: true,
+      address: true,
+      recommendationWeights: true,
+      quotes: {
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { details: true },
+      },
+      policies: {
+        where: { status: { in: [...LIVE_POLICY_STATUSES] } },
+        select: {
+          plan: {
+            select: {
+              planCode: true,
+              name: true,
+              planType: true,
+              coverageAmount: true,
+            },
+          },
+          familyMembers: {
+            select: {
+              firstName: true,
+              lastName: true,
+              dateOfBirth: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!customer) {
+    throw new Error('Customer not found');
+  }
+
+  const latestQuote = customer.quotes[0];
+  const parsedInput = latestQuote
+    ? QuoteInputSchema.safeParse((latestQuote.details as Prisma.JsonObject | null)?.input)
+    : null;
+  const quoteInput = parsedInput?.success ? parsedInput.data : null;
+
+  const existingCover = customer.policies.map(policy => ({
+    planCode: policy.plan.planCode,
+    planName: policy.plan.name,
+    planType: policy.plan.planType,
+    coverageAmount: Number(policy.plan.coverageAmount),
+  }));
+
+  if (quoteInput) {
+    const members = quoteInput.members ?? [];
+    return {
+      age: Math.max(quoteInput.age, ...members.map(member => member.age)),
+      memberCount: getMemberCount(quoteInput),
+      city: quoteInput.city,
+      state: addressField(customer.address, 'state'),
+      conditions: getDeclaredConditions(quoteInput),
+      budget: quoteInput.budget ?? null,
+      existingCover,
+      quoteInput,
+      savedWeights: parseSavedWeights(customer.recommendationWeights),
+    };
+  }
+
+  // Family members on the customer's policies, each counted once
+  const familyMembers = customer.policies
+    .flatMap(policy => policy.familyMembers)
+    .filter((member, index, all) => all.findIndex(other =>
+      other.firstName === member.firstName &&
+      other.lastName === member.lastName &&
+      other.dateOfBirth.getTime() === member.dateOfBirth.getTime()
+    ) === index);
+
+  return {
+    age: Math.max(yearsSince(customer.dateOfBirth, now), ...familyMembers.map(m => yearsSince(m.dateOfBirth, now))),
+    memberCount: 1 + familyMembers.length,
+    city: addressField(customer.address, 'city'),
+    state: addressField(customer.address, 'state'),
+    conditions: [],
+    budget: null,
+    existingCover,
+    quoteInput: null,
+    savedWeights: parseSavedWeights(customer.recommendationWeights),
+  };
+}
+
+/**
+ * Gets plan recommendations for a customer from their latest quote or
+ * profile. When the customer has a quote, every candidate plan is priced
+ * for the quoted members so premiums and the budget are compared like for
+ * like. Returns the weights used alongside the ranked plans.
+ */
+export async function getRecommendations(
+  customerId: string,
+  options: RecommendationOptions = {}
+): Promise<{ weights: ScoringWeights; recommendations: PlanRecommendation[] }> {
+  const profile = await getRecommendationProfile(customerId);
+
+  // Weights passed in win over the customer's saved ones
+  const scoringWeights = options.weights
+    ? normalizeWeights(options.weights)
+    : profile.savedWeights ?? DEFAULT_WEIGHTS;
+  if (options.budget !== undefined) profile.budget = options.budget;
+
+  const plans = await prisma.productPlan.findMany({
+    where: { status: 'ACTIVE' },
+    include: RECOMMENDABLE_PLAN_INCLUDE,
+  });
+
+  const quoted = new Map<string, RecommendedPlan>();
+  if (profile.quoteInput && plans.length) {
+    const quote = await calculateQuote(profile.quoteInput, { planIds: plans.map(plan => plan.id) });
+    quote.recommendedPlans.forEach(plan => quoted.set(plan.planId, plan));
+  }
+
+  return {
+    weights: scoringWeights,
+    recommendations: rankPlans(plans, profile, scoringWeights, quoted).slice(0, options.limit ?? DEFAULT_LIMIT),
+  };
+}
@@ -0,0 +1,107 @@
+import { z } from 'zod'
+import { PlanRider, RiderType } from '@prisma/client'
+import { QuoteMember, YearlyPremium } from './quote-engine'
+
+// Selected riders on a quote; each rider can only be picked once
+export const SelectedRidersSchema = z
+  .array(z.nativeEnum(RiderType))
+  .max(Object.keys(RiderType).length)
+  .refine(riders => new Set(riders).size === riders.length, {
+    message: 'Each rider can only be selected once',
+  })
+
+export type RiderPricingType = 'FLAT' | 'PER_MEMBER' | 'PREMIUM_PERCENT'
+
+export interface RiderPremium {
+  riderId: string
+  type: RiderType
+  name: string
+  coverageAmount: number | null
+  pricingType: RiderPricingType
+  eligibleMembers: number
+  premium: number
+}
+
+// Rider as recorded on a policy at checkout
+export type PolicyRider = Pick<RiderPremium, 'riderId' | 'type' | 'name' | 'coverageAmount' | 'premium'>
+
+// Priced cover checkout writes into Policy.coverageDetails
+export interface PolicyCoverageDetails {
+  quoteNumber: string
+  coverageAmount: number
+  planPremium: number
+  yearlyPremiums: YearlyPremium[]
+  riders: PolicyRider[]
+}
+
+export interface UnavailableRider {
+  type: RiderType
+  reason: string
+}
+
+type RiderMember = Pick<QuoteMember, 'age' | 'gender'>
+
+// Whether a member meets the rider's age and gender rules
+export function isEligibleForRider(rider: PlanRider, member: RiderMember): boolean {
+  if (rider.minAge !== null && member.age < rider.minAge) return false
+  if (rider.maxAge !== null && member.age > rider.maxAge) return false
+  if (rider.genders.length && (!member.gender || !rider.genders.includes(member.gender))) return false
+  return true
+}
+
+// Premium for one rider under its pricing rule
+const getRiderPremium = (rider: PlanRider, eligibleMembers: number, planPremium: number): number => {
+  const rate = Number(rider.rate)
+
+  switch (rider.pricingType as RiderPricingType) {
+    case 'FLAT':
+      return Math.round(rate)
+    case 'PER_MEMBER':
+      return Math.round(rate * eligibleMembers)
+    case 'PREMIUM_PERCENT':
+      return Math.round(planPremium * rate)
+    default:
+      throw new Error(`Unknown rider pricing type: ${rider.pricingType}`)
+  }
+}
+
+/**
+ * Prices the selected riders a plan offers. Riders the plan does not offer,
+ * or that no covered member is eligible for, are returned with a reason
+ * instead of failing the quote.
+ */
+export function priceRiders(
+  planRiders: PlanRider[],
+  selected: RiderType[],
+  members: RiderMember[],
+  planPremium: number
+): { riders: RiderPremium[]; unavailable: UnavailableRider[] } {
+  const riders: RiderPremium[] = []
+  const unavailable: UnavailableRider[] = []
+
+  for (const type of selected) {
+    const rider = planRiders.find(r => r.type === type && r.status === 'ACTIVE')
+    if (!rider) {
+      unavailable.push({ type, reason: 'Not offered with this plan' })
+      continue
+    }
+
+    const eligibleMembers = members.filter(member => isEligibleForRider(rider, member)).length
+    if (!eligibleMembers) {
+      unavailable.push({ type, reason: 'No covered member meets the age or gender requirements' })
+      continue
+    }
+
+    riders.push({
+      riderId: rider.id,
+      type: rider.type,
+      name: rider.name,
+      coverageAmount: rider.coverageAmount === null ? null : Number(rider.coverageAmount),
+      pricingType: rider.pricingType as RiderPricingType,
+      eligibleMembers,
+      premium: getRiderPremium(rider, eligibleMembers, planPremium),
+    })
+  }
+
+  return { riders, unavailable }
+}
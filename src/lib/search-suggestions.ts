@@ -0,0 +1,223 @@
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+
+export type SuggestionType = 'plan' | 'insurer' | 'hospital' | 'city' | 'specialty';
+
+export interface Suggestion {
+  type: SuggestionType;
+  label: string;
+  url: string;
+}
+
+export interface RecentQuery {
+  query: string;
+  count: number;
+  lastSearchedAt: Date;
+}
+
+export const SuggestQuerySchema = z.object({
+  q: z.string().trim().max(100).default(''),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+export type SuggestQuery = z.infer<typeof SuggestQuerySchema>;
+
+// A suggestion filed under the text from one of its word starts, so
+// "apollo" finds "Indraprastha Apollo Hospital" as well as "Apollo Clinic"
+interface IndexEntry {
+  key: string;
+  suggestion: Suggestion;
+}
+
+// Catalogue names change rarely; typeahead answers from memory and the
+// index is rebuilt in the background once stale
+const INDEX_TTL_MS = 5 * 60 * 1000;
+// Matches looked at per query, so one-letter prefixes stay fast
+const MAX_CANDIDATES = 200;
+const HISTORY_LIMIT = 5;
+
+const TYPE_ORDER: SuggestionType[] = ['plan', 'insurer', 'hospital', 'specialty', 'city'];
+
+let index: { entries: IndexEntry[]; loadedAt: number } | null = null;
+let loading: Promise<IndexEntry[]> | null = null;
+
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Files each suggestion under every word start of its label and sorts the
+ * keys, so the matches for a prefix are one contiguous run.
+ */
+export function buildSuggestionIndex(suggestions: Suggestion[]): IndexEntry[] {
+  const entries: IndexEntry[] = [];
+  for (const suggestion of suggestions) {
+    const label = normalizeQuery(suggestion.label);
+    for (let i = 0; i < label.length; i++) {
+      const wordStart = i === 0 || !/[a-z0-9]/.test(label[i - 1]);
+      if (wordStart && /[a-z0-9]/.test(label[i])) {
+        entries.push({ key: label.slice(i), suggestion });
+      }
+    }
+  }
+  return entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+// First entry whose key is not before the prefix
+function lowerBound(entries: IndexEntry[], prefix: string): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (entries[mid].key < prefix) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Suggestions with a word starting with the query. Labels that start with
+ * it come first, then by type and the shorter label.
+ */
+export function findSuggestions(entries: IndexEntry[], query: string, limit: number): Suggestion[] {
+  const prefix = normalizeQuery(query);
+  if (!prefix) return [];
+
+  const matches: Suggestion[] = [];
+  const seen = new Set<Suggestion>();
+  for (let i = lowerBound(entries, prefix); i < entries.length && matches.length < MAX_CANDIDATES; i++) {
+    const { key, suggestion } = entries[i];
+    if (!key.startsWith(prefix)) break;
+    if (!seen.has(suggestion)) {
+      seen.add(suggestion);
+      matches.push(suggestion);
+    }
+  }
+
+  const startsWith = (suggestion: Suggestion) =>
+    normalizeQuery(suggestion.label).startsWith(prefix) ? 0 : 1;
+
+  return matches
+    .sort((a, b) =>
+      startsWith(a) - startsWith(b) ||
+      TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+      a.label.length - b.label.length ||
+      a.label.localeCompare(b.label)
+    )
+    .slice(0, limit);
+}
+
+async function loadSuggestions(): Promise<Suggestion[]> {
+  const [plans, insurers, hospitals] = await Promise.all([
+    prisma.productPlan.findMany({
+      where: { status: 'ACTIVE' },
+      select: { id: true, name: true },
+    }),
+    prisma.insurer.findMany({ select: { id: true, name: true } }),
+    prisma.hospital.findMany({ select: { id: true, name: true, address: true, specialties: true } }),
+  ]);
+
+  // Cities and specialties are listed once however many hospitals share them
+  const cities = new Map<string, string>();
+  const specialties = new Map<string, string>();
+  hospitals.forEach(hospital => {
+    const city = (hospital.address as { city?: string } | null)?.city?.trim();
+    if (city && !cities.has(normalizeQuery(city))) cities.set(normalizeQuery(city), city);
+    hospital.specialties.forEach(specialty => {
+      if (!specialties.has(normalizeQuery(specialty))) specialties.set(normalizeQuery(specialty), specialty);
+    });
+  });
+
+  return [
+    ...plans.map(plan => ({ type: 'plan' as const, label: plan.name, url: `/plans/${plan.id}` })),
+    ...insurers.map(insurer => ({ type: 'insurer' as const, label: insurer.name, url: `/plans?insurerIds=${insurer.id}` })),
+    ...hospitals.map(hospital => ({ type: 'hospital' as const, label: hospital.name, url: `/hospitals/${hospital.id}` })),
+    ...Array.from(cities.values()).map(city => ({
+      type: 'city' as const,
+      label: city,
+      url: `/hospitals?city=${encodeURIComponent(city)}`,
+    })),
+    ...Array.from(specialties.values()).map(specialty => ({
+      type: 'specialty' as const,
+      label: specialty,
+      url: `/hospitals?specialty=${encodeURIComponent(specialty)}`,
+    })),
+  ];
+}
+
+function refreshIndex(): Promise<IndexEntry[]> {
+  if (!loading) {
+    loading = loadSuggestions()
+      .then(suggestions => {
+        const entries = buildSuggestionIndex(suggestions);
+        index = { entries, loadedAt: Date.now() };
+        return entries;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+// The current index; only the very first call waits for it to load
+async function getSuggestionIndex(): Promise<IndexEntry[]> {
+  if (!index) return refreshIndex();
+  if (Date.now() - index.loadedAt > INDEX_TTL_MS) {
+    refreshIndex().catch(error => console.error('Suggestion index refresh error:', error));
+  }
+  return index.entries;
+}
+
+export async function getSuggestions(query: string, limit = 8): Promise<Suggestion[]> {
+  if (!normalizeQuery(query)) return [];
+  return findSuggestions(await getSuggestionIndex(), query, limit);
+}
+
+/**
+ * A user's recent and most searched queries, narrowed to those starting
+ * with the query when one is typed.
+ */
+export async function getSearchHistory(
+  userId: string,
+  query = ''
+): Promise<{ recent: RecentQuery[]; popular: RecentQuery[] }> {
+  const where = {
+    userId,
+    ...(normalizeQuery(query) && { normalizedQuery: { startsWith: normalizeQuery(query) } }),
+  };
+  const select = { query: true, count: true, lastSearchedAt: true };
+
+  const [recent, popular] = await Promise.all([
+    prisma.searchHistory.findMany({
+      where,
+      select,
+      orderBy: { lastSearchedAt: 'desc' },
+      take: HISTORY_LIMIT,
+    }),
+    prisma.searchHistory.findMany({
+      where: { ...where, count: { gt: 1 } },
+      select,
+      orderBy: [{ count: 'desc' }, { lastSearchedAt: 'desc' }],
+      take: HISTORY_LIMIT,
+    }),
+  ]);
+
+  return { recent, popular };
+}
+
+// Counts a search the user ran, keeping the wording they last used
+export async function recordSearch(userId: string, query: string): Promise<void> {
+  const normalizedQuery = normalizeQuery(query);
+  if (!normalizedQuery) return;
+
+  await prisma.searchHistory.upsert({
+    where: { userId_normalizedQuery: { userId, normalizedQuery } },
+    create: { userId, query: query.trim(), normalizedQuery },
+    update: {
+      query: query.trim(),
+      count: { increment: 1 },
+      lastSearchedAt: new Date(),
+    },
+  });
+}
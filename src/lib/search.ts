@@ -1,94 +1,199 @@
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { GeoPoint } from '@/lib/geo';
+import { findCentroid } from '@/lib/geocoding';
+import { hospitalService, HospitalWithDetails } from '@/lib/services/hospital-service';
+
+export const SEARCH_RESULT_TYPES = ['plan', 'hospital', 'insurer', 'benefit', 'policy', 'claim'] as const;
+
+export type SearchResultType = typeof SEARCH_RESULT_TYPES[number];
+
+// Only searched for a signed-in customer, and only across their own records
+const CUSTOMER_RESULT_TYPES: SearchResultType[] = ['policy', 'claim'];
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(100),
+  // Empty = every type the caller may see
+  types: z.array(z.enum(SEARCH_RESULT_TYPES)).default([]),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
 
 export interface SearchResult {
   id: string;
   title: string;
   description: string;
-  type: 'plan' | 'hospital' | 'insurer';
+  // Best-matching part of the description, matched words wrapped in <mark></mark>
+  snippet: string;
+  type: SearchResultType;
+  url: string;
+  score: number;
   metadata?: Record<string, any>;
 }
 
-export async function globalSearch(query: string, limit = 10): Promise<SearchResult[]> {
-  const results: SearchResult[] = [];
+interface SearchRow {
+  id: string;
+  type: SearchResultType;
+  title: string;
+  description: string;
+  snippet: string;
+  score: number;
+  metadata: Record<string, any> | null;
+}
 
-  // Search plans
-  const plans = await prisma.productPlan.findMany({
-    where: {
-      OR: [
-        { name: { contains: query, mode: 'insensitive' } },
-        { description: { contains: query, mode: 'insensitive' } },
-      ],
-    },
-    include: {
-      insurer: true,
-    },
-    take: Math.ceil(limit / 3),
-  });
+export const SNIPPET_START = '<mark>';
+export const SNIPPET_END = '</mark>';
 
-  plans.forEach(plan => {
-    results.push({
-      id: plan.id,
-      title: plan.name,
-      description: plan.description,
-      type: 'plan',
-      metadata: {
-        insurer: plan.insurer.name,
-        coverage: plan.coverageAmount,
-        planType: plan.planType,
-      },
-    });
-  });
+const HEADLINE_OPTIONS = `StartSel=${SNIPPET_START}, StopSel=${SNIPPET_END}, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" … "`;
 
-  // Search hospitals
-  const hospitals = await prisma.hospital.findMany({
-    where: {
-      OR: [
-        { name: { contains: query, mode: 'insensitive' } },
-        { specialties: { hasSome: [query] } },
-      ],
-    },
-    take: Math.ceil(limit / 3),
+/**
+ * Reads a search query from URL search params. Types may repeat the key or
+ * be comma-separated, e.g. types=plan,hospital.
+ */
+export function parseSearchQuery(searchParams: URLSearchParams): SearchQuery {
+  return SearchQuerySchema.parse({
+    q: searchParams.get('q') ?? '',
+    types: searchParams.getAll('types').flatMap(value => value.split(',')).filter(Boolean),
+    limit: searchParams.get('limit') ?? undefined,
   });
+}
 
-  hospitals.forEach(hospital => {
-    results.push({
-      id: hospital.id,
-      title: hospital.name,
-      description: `Specialties: ${hospital.specialties.join(', ')}`,
-      type: 'hospital',
-      metadata: {
-        address: hospital.address,
-        rating: hospital.rating,
-        emergencyServices: hospital.emergencyServices,
-      },
-    });
-  });
+/**
+ * Turns free text into a prefix tsquery so partial words match as they are
+ * typed ("cardio" finds "Cardiology"). Only letters (Latin and Devanagari)
+ * and digits are kept, which also keeps to_tsquery from rejecting the
+ * input. Null when nothing searchable is left.
+ */
+export function toPrefixTsQuery(text: string): string | null {
+  const terms = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f\u0900-\u097f]+/g);
+  return terms ? terms.map(term => `${term}:*`).join(' & ') : null;
+}
 
-  // Search insurers
-  const insurers = await prisma.insurer.findMany({
-    where: {
-      OR: [
-        { name: { contains: query, mode: 'insensitive' } },
-        { description: { contains: query, mode: 'insensitive' } },
-      ],
-    },
-    take: Math.ceil(limit / 3),
-  });
+function resultUrl(row: SearchRow): string {
+  switch (row.type) {
+    case 'plan':
+      return `/plans/${row.id}`;
+    case 'benefit':
+      return `/plans/${row.metadata?.planId}`;
+    case 'hospital':
+      return `/hospitals/${row.id}`;
+    case 'insurer':
+      return `/plans?insurerIds=${row.id}`;
+    case 'policy':
+      return '/customer/policies';
+    case 'claim':
+      return '/customer/claims';
+  }
+}
 
-  insurers.forEach(insurer => {
-    results.push({
-      id: insurer.id,
-      title: insurer.name,
-      description: insurer.description,
-      type: 'insurer',
-      metadata: {
-        rating: insurer.rating,
-        establishedYear: insurer.establishedYear,
-      },
-    });
-  });
+// One SELECT per result type, all with the same columns: the text searched
+// (document), what is shown (title, body) and extra fields for the result
+function searchSources(customerId: string | null): Record<SearchResultType, Prisma.Sql | null> {
+  return {
+    plan: Prisma.sql`
+      SELECT p.id, 'plan' AS type, p.name AS title, p.description AS body,
+        concat_ws(' ', p.name, p.description, i.name, p."planType") AS document,
+        jsonb_build_object('insurer', i.name, 'planType', p."planType", 'coverage', p."coverageAmount") AS metadata
+      FROM "ProductPlan" p
+      JOIN "Insurer" i ON i.id = p."insurerId"
+      WHERE p.status = 'ACTIVE'`,
+    hospital: Prisma.sql`
+      SELECT h.id, 'hospital' AS type, h.name AS title,
+        concat_ws(' · ', h.address->>'city', 'Specialties: ' || array_to_string(h.specialties, ', ')) AS body,
+        concat_ws(' ', h.name, array_to_string(h.specialties, ' '), h.address->>'city', h.address->>'state') AS document,
+        jsonb_build_object('address', h.address, 'rating', h.rating, 'specialties', h.specialties) AS metadata
+      FROM "Hospital" h`,
+    insurer: Prisma.sql`
+      SELECT ins.id, 'insurer' AS type, ins.name AS title,
+        concat_ws(' · ', 'Insurer', 'est. ' || ins."establishedYear", 'rated ' || ins.rating) AS body,
+        ins.name AS document,
+        jsonb_build_object('rating', ins.rating, 'establishedYear', ins."establishedYear", 'logo', ins.logo) AS metadata
+      FROM "Insurer" ins`,
+    benefit: Prisma.sql`
+      SELECT b.id, 'benefit' AS type, b.name AS title, b.description AS body,
+        concat_ws(' ', b.name, b.description, bp.name) AS document,
+        jsonb_build_object('planId', bp.id, 'planName', bp.name, 'coverage', b."coverageAmount") AS metadata
+      FROM "PlanBenefit" b
+      JOIN "ProductPlan" bp ON bp.id = b."planId"
+      WHERE b.status = 'ACTIVE' AND bp.status = 'ACTIVE'`,
+    policy: customerId ? Prisma.sql`
+      SELECT pol.id, 'policy' AS type, pol."policyNumber" AS title,
+        concat_ws(' · ', pp.name, pol.status) AS body,
+        concat_ws(' ', pol."policyNumber", pp.name, pol.status) AS document,
+        jsonb_build_object('planName', pp.name, 'status', pol.status, 'expirationDate', pol."expirationDate") AS metadata
+      FROM "Policy" pol
+      JOIN "ProductPlan" pp ON pp.id = pol."planId"
+      WHERE pol."customerId" = ${customerId}` : null,
+    claim: customerId ? Prisma.sql`
+      SELECT c.id, 'claim' AS type, c."claimNumber" AS title,
+        concat_ws(' · ', c."claimType", c.description) AS body,
+        concat_ws(' ', c."claimNumber", c."claimType", c.description, c.condition, cpol."policyNumber") AS document,
+        jsonb_build_object('status', c.status, 'policyNumber', cpol."policyNumber", 'totalAmount', c."totalAmount") AS metadata
+      FROM "Claim" c
+      JOIN "Policy" cpol ON cpol.id = c."policyId"
+      WHERE cpol."customerId" = ${customerId}` : null,
+  };
+}
 
-  return results.slice(0, limit);
+/**
+ * Searches plans, hospitals, insurers and benefits, plus the customer's own
+ * policies and claims when a customer is given, into one ranked list.
+ *
+ * A record matches when its text contains every word as a prefix (full-text)
+ * or is close enough by trigram word similarity, which catches typos.
+ * Results are ranked by full-text rank plus similarity, with title matches
+ * counting most. The text matched is built per row from several columns,
+ * so no index covers it and each source table is scanned.
+ */
+export async function globalSearch(
+  query: Pick<SearchQuery, 'q'> & Partial<Omit<SearchQuery, 'q'>>,
+  customerId: string | null = null
+): Promise<SearchResult[]> {
+  const tsQuery = toPrefixTsQuery(query.q);
+  if (!tsQuery) return [];
+
+  const sources = searchSources(customerId);
+  const types = query.types?.length
+    ? query.types
+    : SEARCH_RESULT_TYPES.filter(type => customerId || !CUSTOMER_RESULT_TYPES.includes(type));
+  const selected = types
+    .map(type => sources[type])
+    .filter((source): source is Prisma.Sql => source !== null);
+  if (!selected.length) return [];
+
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    WITH search AS (
+      SELECT to_tsquery('simple', ${tsQuery}) AS tsq, ${query.q}::text AS text
+    ),
+    documents AS (${Prisma.join(selected, ' UNION ALL ')})
+    SELECT d.id, d.type, d.title, coalesce(d.body, '') AS description,
+      ts_headline('simple', coalesce(d.body, ''), s.tsq, ${HEADLINE_OPTIONS}) AS snippet,
+      (
+        ts_rank(to_tsvector('simple', d.document), s.tsq)
+        + 2 * word_similarity(s.text, d.title)
+        + word_similarity(s.text, d.document)
+      )::float8 AS score,
+      d.metadata
+    FROM documents d, search s
+    WHERE to_tsvector('simple', d.document) @@ s.tsq
+      OR s.text <% d.title
+      OR s.text <% d.document
+    ORDER BY score DESC, d.title
+    LIMIT ${query.limit ?? SearchQuerySchema.shape.limit.parse(undefined)}
+  `;
+
+  return rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    snippet: row.snippet,
+    type: row.type,
+    url: resultUrl(row),
+    score: row.score,
+    metadata: row.metadata ?? undefined,
+  }));
 }
 
 export async function searchPlans(
@@ -103,6 +208,7 @@ export async function searchPlans(
 ) {
   const where: any = {
     AND: [
+      { status: 'ACTIVE' },
       {
         OR: [
           { name: { contains: query, mode: 'insensitive' } },
@@ -145,14 +251,11 @@ export async function searchPlans(
   });
 }
 
-interface GeoPoint {
-  lat: number;
-  lng: number;
-}
-
 interface SearchOptions {
   city?: string;
   state?: string;
+  // Centre of a radius search when no location is given
+  pincode?: string;
   specialties?: string[];
   planId?: string;
   cashless?: boolean;
@@ -163,104 +266,58 @@ interface SearchOptions {
   limit?: number;
 }
 
-/**
- * Calculates the Haversine distance between two points on Earth
- * @param point1 First point with latitude and longitude
- * @param point2 Second point with latitude and longitude
- * @returns Distance in kilometers
- */
-function calculateHaversineDistance(point1: GeoPoint, point2: GeoPoint): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = toRadians(point2.lat - point1.lat);
-  const dLng = toRadians(point2.lng - point1.lng);
-  
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(point1.lat)) * Math.cos(toRadians(point2.lat)) * 
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+const HOSPITAL_SEARCH_INCLUDE = {
+  networkPlans: {
+    include: {
+      plan: {
+        include: {
+          insurer: true,
+        },
+      },
+    },
+  },
+} as const;
 
-/**
- * Converts degrees to radians
- */
-function toRadians(degrees: number): number {
-  return degrees * Math.PI / 180;
-}
+type SearchedHospital = HospitalWithDetails & { distanceKm?: number };
 
 /**
- * Calculates bounding box coordinates for a given point and radius
- * @param center Center point
- * @param radius Radius in kilometers
- * @returns Bounding box coordinates
- */
-function calculateBoundingBox(center: GeoPoint, radius: number) {
-  const latRange = radius / 111; // Approximate km per degree latitude
-  const lngRange = radius / (111 * Math.cos(center.lat * Math.PI / 180));
-  
-  return {
-    minLat: center.lat - latRange,
-    maxLat: center.lat + latRange,
-    minLng: center.lng - lngRange,
-    maxLng: center.lng + lngRange,
-  };
-}
-
-/**
- * Searches for hospitals based on various criteria including location
+ * Searches for hospitals based on various criteria including location.
+ * With a location, or a pincode from the centroid table, only hospitals
+ * within the radius are returned, nearest first; otherwise by name.
  */
 export async function searchHospitals(options: SearchOptions) {
   const {
     city,
     state,
+    pincode,
     specialties,
     planId,
     cashless,
     search,
-    location,
     radius = 10, // Default 10km radius
     cursor,
     limit = 10,
   } = options;
 
-  // Build base query
-  const where: any = {
-    AND: [],
-  };
+  const and: Prisma.HospitalWhereInput[] = [];
 
   // Location-based filtering
   if (city) {
-    where.AND.push({
-      address: {
-        path: ['city'],
-        equals: city,
-      },
-    });
+    and.push({ address: { path: ['city'], equals: city } });
   }
 
   if (state) {
-    where.AND.push({
-      address: {
-        path: ['state'],
-        equals: state,
-      },
-    });
+    and.push({ address: { path: ['state'], equals: state } });
   }
 
   // Specialty filtering
   if (specialties?.length) {
-    where.AND.push({
-      specialties: {
-        hasSome: specialties,
-      },
-    });
+    and.push({ specialties: { hasSome: specialties } });
   }
 
   // Plan and cashless filtering
   if (planId) {
-    where.AND.push({
+    and.push({
       networkPlans: {
         some: {
           planId,
@@ -272,119 +329,65 @@ export async function searchHospitals(options: SearchOptions) {
 
   // Text search
   if (search) {
-    where.AND.push({
+    and.push({
       OR: [
         { name: { contains: search, mode: 'insensitive' } },
-        {
-          specialties: {
-            hasSome: [search],
-          },
-        },
+        { specialties: { hasSome: [search] } },
       ],
     });
   }
 
-  // Geospatial search
-  if (location) {
-    const bbox = calculateBoundingBox(location, radius);
-    
-    where.AND.push({
-      AND: [
-        {
-          location: {
-            path: ['lat'],
-            gte: bbox.minLat,
-          },
-        },
-        {
-          location: {
-            path: ['lat'],
-            lte: bbox.maxLat,
-          },
-        },
-        {
-          location: {
-            path: ['lng'],
-            gte: bbox.minLng,
-          },
-        },
-        {
-          location: {
-            path: ['lng'],
-            lte: bbox.maxLng,
-          },
-        },
-      ],
-    });
+  const center = options.location ?? (pincode ? await findCentroid({ pincode }) : null);
+  if (pincode && !center) {
+    // Not in the centroid table; fall back to hospitals with that pincode
+    and.push({ address: { path: ['pincode'], equals: pincode } });
   }
 
-  // Fetch hospitals
-  const hospitals = await prisma.hospital.findMany({
-    where,
-    take: limit + 1,
-    cursor: cursor ? { id: cursor } : undefined,
-    include: {
-      networkPlans: {
-        where: planId ? { planId } : undefined,
-        include: {
-          plan: {
-            select: {
-              id: true,
-              name: true,
-              insurer: {
-                select: {
-                  id: true,
-                  name: true,
-                },
-              },
-            },
-          },
-        },
-      },
-    },
-  });
-
-  // Post-process results for exact distance filtering
-  let results = hospitals;
-  if (location) {
-    results = hospitals
-      .map(hospital => ({
-        ...hospital,
-        distance: calculateHaversineDistance(location, {
-          lat: (hospital.location as any).lat,
-          lng: (hospital.location as any).lng,
-        }),
-      }))
-      .filter(hospital => hospital.distance <= radius)
-      .sort((a, b) => a.distance - b.distance);
+  let page: SearchedHospital[];
+  let hasMore: boolean;
+  if (center) {
+    // Distance order is worked out in memory, so the cursor is found there too.
+    // A cursor no longer in the radius ends paging rather than starting over.
+    const nearby = await hospitalService.findWithinRadius(center, radius, { AND: and });
+    const start = cursor ? nearby.findIndex(hospital => hospital.id === cursor) + 1 : 0;
+    page = cursor && !start ? [] : nearby.slice(start, start + limit);
+    hasMore = page.length > 0 && nearby.length > start + limit;
+  } else {
+    const hospitals = await prisma.hospital.findMany({
+      where: { AND: and },
+      include: HOSPITAL_SEARCH_INCLUDE,
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    hasMore = hospitals.length > limit;
+    page = hasMore ? hospitals.slice(0, limit) : hospitals;
   }
 
-  // Handle pagination
-  const hasMore = results.length > limit;
-  const paginatedResults = hasMore ? results.slice(0, limit) : results;
-
   return {
-    hospitals: paginatedResults.map(hospital => ({
+    center,
+    hospitals: page.map(hospital => ({
       id: hospital.id,
       name: hospital.name,
       address: hospital.address,
-      location: hospital.location,
+      latitude: hospital.latitude,
+      longitude: hospital.longitude,
       specialties: hospital.specialties,
-      facilities: hospital.facilities,
-      emergencyServices: hospital.emergencyServices,
       rating: hospital.rating,
-      distance: 'distance' in hospital ? hospital.distance : undefined,
-      networkPlans: hospital.networkPlans.map(np => ({
-        planId: np.plan.id,
-        planName: np.plan.name,
-        insurerId: np.plan.insurer.id,
-        insurerName: np.plan.insurer.name,
-        cashless: np.cashless,
-      })),
+      distance: hospital.distanceKm,
+      networkPlans: hospital.networkPlans
+        .filter(np => !planId || np.plan.id === planId)
+        .map(np => ({
+          planId: np.plan.id,
+          planName: np.plan.name,
+          insurerId: np.plan.insurer.id,
+          insurerName: np.plan.insurer.name,
+          cashless: np.cashless,
+        })),
     })),
     pagination: {
       hasMore,
-      nextCursor: hasMore ? paginatedResults[paginatedResults.length - 1].id : null,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
     },
   };
 }
@@ -1,9 +1,12 @@
 import { prisma } from '../prisma'
 import { CoinService } from '../coins'
-import { Claim, ClaimStatus, ClaimType, Document } from '@prisma/client'
+import { checkWaitingPeriods, WaitingPeriodViolation } from '../waiting-periods'
+import { Claim, ClaimStatus, Document, Prisma } from '@prisma/client'
 import { z } from 'zod'
 
 // Types
+export type ClaimType = 'CASHLESS' | 'REIMBURSEMENT' | 'EMERGENCY'
+
 export type ClaimWithDetails = Claim & {
   documents: Document[]
   policy: {
@@ -18,50 +21,45 @@ export type ClaimWithDetails = Claim & {
   }
 }
 
-export type ClaimInput = {
-  policyId: string
-  type: ClaimType
-  hospitalId?: string
-  admissionDate?: Date
-  dischargeDate?: Date
-  diagnosis: string
-  treatmentDetails: string
-  claimAmount: number
-  documents: {
-    type: string
-    url: string
-    name: string
-  }[]
+export type ClaimInput = z.input<typeof ClaimInputSchema>
+
+export type ClaimSubmission = {
+  claim: Claim
+  // Why the claim was rejected on submission; empty when it went to review
+  rejectionReasons: WaitingPeriodViolation[]
 }
 
 // Validation schemas
 export const ClaimInputSchema = z.object({
   policyId: z.string(),
   type: z.enum(['CASHLESS', 'REIMBURSEMENT', 'EMERGENCY']),
-  hospitalId: z.string().optional(),
-  admissionDate: z.date().optional(),
-  dischargeDate: z.date().optional(),
-  diagnosis: z.string(),
-  treatmentDetails: z.string(),
+  incidentDate: z.coerce.date(),
+  condition: z.string().optional(), // Condition code, e.g. diabetes or cataract
+  benefitId: z.string().optional(),
+  isAccident: z.boolean().default(false),
+  description: z.string().optional(),
   claimAmount: z.number().positive(),
-  documents: z.array(
-    z.object({
-      type: z.string(),
-      url: z.string().url(),
-      name: z.string(),
-    })
-  ),
+  // Documents the user already uploaded, moved onto the claim once it exists
+  documentIds: z.array(z.string()).default([]),
 })
 
 // Constants
 const CLAIM_SUBMISSION_COINS = 100
 const DOCUMENT_UPLOAD_COINS = 50
 
+// Claims can only be made on policies that are in force
+const IN_FORCE_POLICY_STATUSES = ['ACTIVE', 'GRACE_PERIOD'] as const
+
 class ClaimService {
   private coinService = CoinService.getInstance()
 
-  // Submit a new claim
-  async submitClaim(userId: string, input: ClaimInput): Promise<ClaimWithDetails> {
+  /**
+   * Submits a claim against one of the user's in-force policies, with any
+   * documents they uploaded for it. A claim whose incident falls inside a
+   * waiting period is recorded as rejected, with the periods that apply and
+   * the dates they end, rather than sent for review.
+   */
+  async submitClaim(userId: string, input: ClaimInput): Promise<ClaimSubmission> {
     // Validate input
     const validatedInput = ClaimInputSchema.parse(input)
 
@@ -69,14 +67,10 @@ class ClaimService {
     const policy = await prisma.policy.findFirst({
       where: {
         id: validatedInput.policyId,
-        userId,
+        customer: { userId },
       },
       include: {
-        productPlan: {
-          include: {
-            insurer: true,
-          },
-        },
+        waitingPeriods: true,
       },
     })
 
@@ -84,61 +78,111 @@ class ClaimService {
       throw new Error('Policy not found or unauthorized')
     }
 
+    if (!(IN_FORCE_POLICY_STATUSES as readonly string[]).includes(policy.status)) {
+      throw new Error('Policy is not in force')
+    }
+
+    if (
+      validatedInput.incidentDate < policy.effectiveDate ||
+      validatedInput.incidentDate > policy.expirationDate
+    ) {
+      throw new Error('Incident date is outside the policy period')
+    }
+
+    const rejectionReasons = checkWaitingPeriods(
+      policy.effectiveDate,
+      policy.waitingPeriods,
+      validatedInput
+    )
+
     // Start a transaction for claim creation and coin rewards
-    const result = await prisma.$transaction(async (tx) => {
-      // Create claim
+    const claim = await prisma.$transaction(async (tx) => {
       const claim = await tx.claim.create({
         data: {
-          type: validatedInput.type,
-          status: ClaimStatus.SUBMITTED,
-          hospitalId: validatedInput.hospitalId,
-          admissionDate: validatedInput.admissionDate,
-          dischargeDate: validatedInput.dischargeDate,
-          diagnosis: validatedInput.diagnosis,
-          treatmentDetails: validatedInput.treatmentDetails,
-          claimAmount: validatedInput.claimAmount,
-          policy: { connect: { id: policy.id } },
-          documents: {
-            create: validatedInput.documents.map((doc) => ({
-              type: doc.type,
-              url: doc.url,
-              name: doc.name,
-            })),
-          },
-        },
-        include: {
-          documents: true,
-          policy: {
-            include: {
-              productPlan: {
-                include: {
-                  insurer: true,
-                },
-              },
-            },
-          },
+          policyId: policy.id,
+          claimNumber: this.generateClaimNumber(),
+          status: rejectionReasons.length ? ClaimStatus.REJECTED : ClaimStatus.SUBMITTED,
+          claimType: validatedInput.type,
+          incidentDate: validatedInput.incidentDate,
+          totalAmount: validatedInput.claimAmount,
+          description: validatedInput.description,
+          condition: validatedInput.condition,
+          benefitId: validatedInput.benefitId,
+          isAccident: validatedInput.isAccident,
+          rejectionReasons: rejectionReasons.length
+            ? (rejectionReasons as unknown as Prisma.InputJsonValue)
+            : undefined,
         },
       })
 
-      // Award coins for claim submission
-      await this.coinService.earnCoins(userId, 'DOCUMENT_UPLOAD', CLAIM_SUBMISSION_COINS, {
-        claimId: claim.id,
-        action: 'claim_submission',
-      })
+      if (validatedInput.documentIds.length) {
+        const { count } = await tx.document.updateMany({
+          where: { id: { in: validatedInput.documentIds }, uploadedById: userId },
+          data: { entityType: 'CLAIM', entityId: claim.id, claimId: claim.id },
+        })
+        if (count !== validatedInput.documentIds.length) {
+          throw new Error('Document not found or unauthorized')
+        }
+      }
 
-      // Award coins for each document
-      for (const doc of validatedInput.documents) {
-        await this.coinService.earnCoins(userId, 'DOCUMENT_UPLOAD', DOCUMENT_UPLOAD_COINS, {
+      // Award coins for claim submission, unless it was rejected outright
+      if (!rejectionReasons.length) {
+        await this.coinService.earnCoins(userId, 'DOCUMENT_UPLOAD', CLAIM_SUBMISSION_COINS, {
           claimId: claim.id,
-          documentName: doc.name,
-          action: 'document_upload',
+          action: 'claim_submission',
         })
       }
 
       return claim
     })
 
-    return result
+    return { claim, rejectionReasons }
+  }
+
+  /**
+   * Raises the cashless claim for a discharged pre-authorization, inside the
+   * caller's transaction. The insurer pays the bill up to the authorised
+   * amount, so the claim is approved for that much straight away.
+   */
+  async createCashlessClaim(
+    tx: Prisma.TransactionClient,
+    {
+      policyId,
+      admissionDate,
+      finalBillAmount,
+      authorisedAmount,
+      preAuthNumber,
+      diagnosis,
+      condition,
+      benefitId,
+      isAccident,
+    }: {
+      policyId: string
+      admissionDate: Date
+      finalBillAmount: number
+      authorisedAmount: number
+      preAuthNumber: string
+      diagnosis: string
+      condition: string | null
+      benefitId: string | null
+      isAccident: boolean
+    }
+  ): Promise<Claim> {
+    return tx.claim.create({
+      data: {
+        policyId,
+        claimNumber: this.generateClaimNumber(),
+        status: ClaimStatus.APPROVED,
+        claimType: 'CASHLESS',
+        incidentDate: admissionDate,
+        totalAmount: finalBillAmount,
+        approvedAmount: Math.min(finalBillAmount, authorisedAmount),
+        description: `${diagnosis} (pre-authorization ${preAuthNumber})`,
+        condition,
+        benefitId,
+        isAccident,
+      },
+    })
   }
 
   // Get claims for a user with filtering and pagination
@@ -354,6 +398,13 @@ class ClaimService {
   }
 
   // Private helper methods
+  private generateClaimNumber(): string {
+    const prefix = 'CLM'
+    const timestamp = Date.now().toString().slice(-8)
+    const random = Math.random().toString(36).substring(2, 6).toUpperCase()
+    return `${prefix}${timestamp}${random}`
+  }
+
   private async verifyAdminPermissions(userId: string): Promise<boolean> {
     const user = await prisma.user.findUnique({
       where: { id: userId },
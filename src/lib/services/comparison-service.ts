@@ -0,0 +1,135 @@
+import crypto from 'crypto'
+import { prisma } from '../prisma'
+import { buildComparison, ComparablePlan, ComparisonResult } from '../comparison'
+import { calculateQuote, QuoteInput, QuoteOptions, RecommendedPlan } from '../quote-engine'
+import { PlanComparison, Prisma } from '@prisma/client'
+
+// Constants
+export const SHARE_LINK_VALIDITY_DAYS = 7
+
+// Types
+export type ComparisonSnapshotData = {
+  comparison: ComparisonResult
+  // Premiums for the quote inputs, frozen at the time the snapshot was taken
+  premiums: RecommendedPlan[]
+  pricedAt: string
+}
+
+export type ComparisonSnapshot = Omit<PlanComparison, 'quoteInput' | 'snapshot'> & {
+  quoteInput: QuoteInput
+  snapshot: ComparisonSnapshotData
+}
+
+const getShareLinkSecret = (): string => {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('SHARE_LINK_SECRET is not configured')
+  }
+  return secret
+}
+
+const signShareToken = (payload: string): string =>
+  crypto.createHmac('sha256', getShareLinkSecret()).update(payload).digest('base64url')
+
+class ComparisonService {
+  // Premiums for the compared plans under one set of quote inputs, in plan
+  // order; asOf prices them as a saved quote was, with the tables of the day
+  async priceComparison(
+    planIds: string[],
+    quoteInput: QuoteInput,
+    { asOf }: Pick<QuoteOptions, 'asOf'> = {}
+  ): Promise<Pick<ComparisonSnapshotData, 'premiums' | 'pricedAt'>> {
+    const quote = await calculateQuote(quoteInput, { planIds, asOf })
+    return {
+      premiums: planIds
+        .map(id => quote.recommendedPlans.find(plan => plan.planId === id))
+        .filter((plan): plan is RecommendedPlan => Boolean(plan)),
+      pricedAt: quote.pricedAt,
+    }
+  }
+
+  /**
+   * Saves a comparison together with the quote inputs it was priced for.
+   * Snapshots are never updated, so a shared link keeps showing the plans
+   * and premiums as they were at the time it was created.
+   */
+  async createSnapshot(
+    customerId: string,
+    plans: ComparablePlan[],
+    quoteInput: QuoteInput,
+    options: Pick<QuoteOptions, 'asOf'> = {}
+  ): Promise<ComparisonSnapshot> {
+    const planIds = plans.map(plan => plan.id)
+
+    const snapshot: ComparisonSnapshotData = {
+      // Round-trip through JSON so Decimal values are stored as plain numbers
+      comparison: JSON.parse(JSON.stringify(buildComparison(plans, { city: quoteInput.city }))),
+      ...await this.priceComparison(planIds, quoteInput, options),
+    }
+
+    const comparison = await prisma.planComparison.create({
+      data: {
+        customerId,
+        planIds,
+        quoteInput: quoteInput as unknown as Prisma.InputJsonValue,
+        snapshot: snapshot as unknown as Prisma.InputJsonValue,
+        shareExpiresAt: new Date(Date.now() + SHARE_LINK_VALIDITY_DAYS * 24 * 60 * 60 * 1000),
+      },
+    })
+
+    return comparison as unknown as ComparisonSnapshot
+  }
+
+  // A customer's saved snapshots, newest first
+  async getSnapshots(customerId: string): Promise<ComparisonSnapshot[]> {
+    const comparisons = await prisma.planComparison.findMany({
+      where: { customerId, snapshot: { not: Prisma.DbNull } },
+      orderBy: { comparisonDate: 'desc' },
+    })
+    return comparisons as unknown as ComparisonSnapshot[]
+  }
+
+  // Share tokens carry the snapshot ID and expiry, signed so neither can be altered
+  createShareToken(comparison: Pick<PlanComparison, 'id' | 'shareExpiresAt'>): string | null {
+    if (!comparison.shareExpiresAt) return null
+
+    const payload = `${comparison.id}.${Math.floor(comparison.shareExpiresAt.getTime() / 1000)}`
+    return `${payload}.${signShareToken(payload)}`
+  }
+
+  getShareUrl(comparison: Pick<PlanComparison, 'id' | 'shareExpiresAt'>): string | null {
+    const token = this.createShareToken(comparison)
+    return token ? `${process.env.NEXT_PUBLIC_BASE_URL}/compare/shared/${token}` : null
+  }
+
+  // Snapshot ID for a valid, unexpired share token
+  verifyShareToken(token: string, now: Date = new Date()): string | null {
+    const [id, expires, signature] = token.split('.')
+    if (!id || !expires || !signature) return null
+
+    const expected = Buffer.from(signShareToken(`${id}.${expires}`))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null
+    }
+
+    if (Number(expires) * 1000 <= now.getTime()) return null
+
+    return id
+  }
+
+  // The snapshot behind a share link, or null if the link is invalid or expired
+  async getSharedSnapshot(token: string): Promise<ComparisonSnapshot | null> {
+    const id = this.verifyShareToken(token)
+    if (!id) return null
+
+    const comparison = await prisma.planComparison.findUnique({ where: { id } })
+    if (!comparison?.snapshot || !comparison.shareExpiresAt || comparison.shareExpiresAt <= new Date()) {
+      return null
+    }
+
+    return comparison as unknown as ComparisonSnapshot
+  }
+}
+
+export const comparisonService = new ComparisonService()
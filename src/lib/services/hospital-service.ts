@@ -1,20 +1,65 @@
 import { prisma } from '../prisma'
-import { Hospital } from '@prisma/client'
+import { Prisma } from '@prisma/client'
 import { z } from 'zod'
+import { boundingBox, GeoPoint, haversineKm } from '../geo'
+import { geocodeAddress } from '../geocoding'
 
-// Types
-export type HospitalWithDetails = Hospital & {
+const HOSPITAL_DETAILS_INCLUDE = {
   networkPlans: {
-    plan: {
-      id: string
-      name: string
-      insurer: {
-        id: string
-        name: string
-      }
-    }
-    cashless: boolean
-  }[]
+    include: {
+      plan: {
+        include: {
+          insurer: true,
+        },
+      },
+    },
+  },
+} as const
+
+// Types
+export type HospitalWithDetails = Prisma.HospitalGetPayload<{ include: typeof HOSPITAL_DETAILS_INCLUDE }>
+
+export type HospitalWithDistance = HospitalWithDetails & {
+  distanceKm: number
+}
+
+export type HospitalNetworkPlan = {
+  planId: string
+  planName: string
+  planType: string
+  cashless: boolean
+}
+
+export type HospitalNetworkInsurer = {
+  id: string
+  name: string
+  logo: string | null
+  rating: number | null
+  plans: HospitalNetworkPlan[]
+}
+
+// How one of the customer's policies is treated at a hospital
+export type PolicyNetworkStatus = {
+  policyId: string
+  policyNumber: string
+  planName: string
+  status: 'CASHLESS' | 'REIMBURSEMENT' | 'OUT_OF_NETWORK'
+}
+
+export type HospitalProfile = {
+  id: string
+  name: string
+  address: Prisma.JsonValue
+  latitude: number | null
+  longitude: number | null
+  specialties: string[]
+  rating: number | null
+  // Plans on sale that list the hospital, grouped by insurer
+  insurers: HospitalNetworkInsurer[]
+  cashlessPlanCount: number
+  reimbursementPlanCount: number
+  // Only for a signed-in customer
+  policies?: PolicyNetworkStatus[]
 }
 
 export type HospitalSearchOptions = {
@@ -40,16 +85,26 @@ export const HospitalSearchSchema = z.object({
   limit: z.number().min(1).max(50).optional(),
 })
 
+const DEFAULT_RADIUS_KM = 5
+
+const roundKm = (km: number) => Math.round(km * 10) / 10
+
+// Policies that currently give cover
+const IN_FORCE_POLICY_STATUSES = ['ACTIVE', 'GRACE_PERIOD'] as const
+
 class HospitalService {
   // Search hospitals with filtering and geolocation
   async searchHospitals(options: HospitalSearchOptions = {}): Promise<{
-    hospitals: HospitalWithDetails[]
+    hospitals: (HospitalWithDetails | HospitalWithDistance)[]
     total: number
     page: number
     totalPages: number
   }> {
     const {
       query,
+      latitude,
+      longitude,
+      radius = DEFAULT_RADIUS_KM,
       specialties,
       insurerId,
       page = 1,
@@ -85,6 +140,17 @@ class HospitalService {
       }
     }
 
+    // Near a point the results are ordered by distance, so they are paged here
+    if (latitude !== undefined && longitude !== undefined) {
+      const nearby = await this.findWithinRadius({ lat: latitude, lng: longitude }, radius, where)
+      return {
+        hospitals: nearby.slice((page - 1) * limit, page * limit),
+        total: nearby.length,
+        page,
+        totalPages: Math.ceil(nearby.length / limit),
+      }
+    }
+
     const [hospitals, total] = await Promise.all([
       prisma.hospital.findMany({
         where,
@@ -132,6 +198,71 @@ class HospitalService {
     })
   }
 
+  /**
+   * A hospital with every plan on sale that lists it, cashless or
+   * reimbursement only, grouped by insurer. Given a customer, also how each
+   * of their in-force policies is treated there.
+   */
+  async getHospitalProfile(hospitalId: string, customerId?: string): Promise<HospitalProfile | null> {
+    const hospital = await this.getHospitalById(hospitalId)
+    if (!hospital) return null
+
+    const onSale = hospital.networkPlans.filter(np => np.plan.status === 'ACTIVE')
+
+    const insurers = new Map<string, HospitalNetworkInsurer>()
+    onSale.forEach(({ plan, cashless }) => {
+      const insurer = insurers.get(plan.insurer.id) ?? {
+        id: plan.insurer.id,
+        name: plan.insurer.name,
+        logo: plan.insurer.logo,
+        rating: plan.insurer.rating,
+        plans: [],
+      }
+      insurer.plans.push({ planId: plan.id, planName: plan.name, planType: plan.planType, cashless })
+      insurers.set(insurer.id, insurer)
+    })
+
+    // Cashless first, then by name
+    const byCashlessThenName = (a: HospitalNetworkPlan, b: HospitalNetworkPlan) =>
+      Number(b.cashless) - Number(a.cashless) || a.planName.localeCompare(b.planName)
+    const groupedInsurers = Array.from(insurers.values())
+      .map(insurer => ({ ...insurer, plans: insurer.plans.sort(byCashlessThenName) }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    const profile: HospitalProfile = {
+      id: hospital.id,
+      name: hospital.name,
+      address: hospital.address,
+      latitude: hospital.latitude,
+      longitude: hospital.longitude,
+      specialties: hospital.specialties,
+      rating: hospital.rating,
+      insurers: groupedInsurers,
+      cashlessPlanCount: onSale.filter(np => np.cashless).length,
+      reimbursementPlanCount: onSale.filter(np => !np.cashless).length,
+    }
+
+    if (customerId) {
+      // Policies may be on archived plan versions, so every listing counts here
+      const cashlessByPlan = new Map(hospital.networkPlans.map(np => [np.plan.id, np.cashless] as [string, boolean]))
+      const policies = await prisma.policy.findMany({
+        where: { customerId, status: { in: [...IN_FORCE_POLICY_STATUSES] } },
+        select: { id: true, policyNumber: true, planId: true, plan: { select: { name: true } } },
+        orderBy: { effectiveDate: 'desc' },
+      })
+      profile.policies = policies.map(policy => ({
+        policyId: policy.id,
+        policyNumber: policy.policyNumber,
+        planName: policy.plan.name,
+        status: !cashlessByPlan.has(policy.planId)
+          ? 'OUT_OF_NETWORK'
+          : cashlessByPlan.get(policy.planId) ? 'CASHLESS' : 'REIMBURSEMENT',
+      }))
+    }
+
+    return profile
+  }
+
   // Check if hospital is in network for a specific policy
   async checkNetworkStatus(
     hospitalId: string,
@@ -173,31 +304,81 @@ class HospitalService {
     }
   }
 
-  // Get nearby hospitals
-  // Note: This is a simplified version without actual geolocation
-  // Would need PostGIS for proper implementation
+  /**
+   * Hospitals within radiusKm of a point, nearest first. The stored
+   * coordinates narrow the search to a bounding box on the index; exact
+   * distances are then measured and anything outside the circle dropped.
+   */
+  async findWithinRadius(
+    center: GeoPoint,
+    radiusKm: number,
+    where: Prisma.HospitalWhereInput = {}
+  ): Promise<HospitalWithDistance[]> {
+    const box = boundingBox(center, radiusKm)
+    const hospitals = await prisma.hospital.findMany({
+      where: {
+        AND: [
+          where,
+          { latitude: { gte: box.minLat, lte: box.maxLat } },
+          { longitude: { gte: box.minLng, lte: box.maxLng } },
+        ],
+      },
+      include: HOSPITAL_DETAILS_INCLUDE,
+    })
+
+    // Filter and sort on the exact distance; it is rounded only for output
+    return hospitals
+      .map(hospital => ({
+        hospital,
+        distance: haversineKm(center, { lat: hospital.latitude!, lng: hospital.longitude! }),
+      }))
+      .filter(({ distance }) => distance <= radiusKm)
+      .sort((a, b) => a.distance - b.distance || a.hospital.name.localeCompare(b.hospital.name))
+      .map(({ hospital, distance }) => ({ ...hospital, distanceKm: roundKm(distance) }))
+  }
+
+  // Get nearby hospitals, nearest first
   async getNearbyHospitals(
-    _latitude: number,
-    _longitude: number,
-    _radius: number = 5, // Default 5km radius
+    latitude: number,
+    longitude: number,
+    radius: number = DEFAULT_RADIUS_KM,
     limit: number = 10
-  ): Promise<HospitalWithDetails[]> {
-    // For now, just return hospitals sorted by name
-    return prisma.hospital.findMany({
-      include: {
-        networkPlans: {
-          include: {
-            plan: {
-              include: {
-                insurer: true,
-              },
-            },
-          },
-        },
-      },
-      orderBy: { name: 'asc' },
-      take: limit,
+  ): Promise<HospitalWithDistance[]> {
+    const nearby = await this.findWithinRadius({ lat: latitude, lng: longitude }, radius)
+    return nearby.slice(0, limit)
+  }
+
+  /**
+   * Stores coordinates for hospitals saved without them, from their address
+   * or else the centre of their pincode or city. Returns the hospitals that
+   * could not be placed.
+   */
+  async geocodeMissingCoordinates(): Promise<{
+    geocoded: number
+    unresolved: { id: string; name: string }[]
+  }> {
+    const hospitals = await prisma.hospital.findMany({
+      where: { OR: [{ latitude: null }, { longitude: null }] },
+      select: { id: true, name: true, address: true },
     })
+
+    let geocoded = 0
+    const unresolved: { id: string; name: string }[] = []
+    for (const hospital of hospitals) {
+      const point = await geocodeAddress(hospital.address)
+      if (!point) {
+        unresolved.push({ id: hospital.id, name: hospital.name })
+        continue
+      }
+
+      await prisma.hospital.update({
+        where: { id: hospital.id },
+        data: { latitude: point.lat, longitude: point.lng, locationSource: point.source },
+      })
+      geocoded++
+    }
+
+    return { geocoded, unresolved }
   }
 
   // Get hospitals by specialty
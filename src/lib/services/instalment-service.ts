@@ -0,0 +1,242 @@
+import { prisma } from '../prisma'
+import { PAYMENT_FREQUENCIES } from '../quote-engine'
+import { PaymentFrequency, PolicyInstalment, PolicyStatus, Prisma } from '@prisma/client'
+
+// Constants
+// Days after a missed instalment's due date before the policy lapses
+export const GRACE_PERIOD_DAYS: Record<PaymentFrequency, number> = {
+  ANNUAL: 30,
+  HALF_YEARLY: 30,
+  QUARTERLY: 30,
+  MONTHLY: 15,
+}
+
+// Types
+export type InstalmentScheduleItem = {
+  sequence: number
+  dueDate: Date
+  amount: number
+}
+
+export type InstalmentOutcome = {
+  instalment: PolicyInstalment | null
+  policyStatus: PolicyStatus
+}
+
+// Equal instalments over the whole policy term, the first due on the start date
+export function buildInstalmentSchedule(
+  instalmentAmount: number,
+  frequency: PaymentFrequency,
+  startDate: Date,
+  policyTerm: number = 1
+): InstalmentScheduleItem[] {
+  const { instalments, intervalMonths } = PAYMENT_FREQUENCIES[frequency]
+
+  return Array.from({ length: instalments * policyTerm }, (_, index) => ({
+    sequence: index + 1,
+    dueDate: getDueDate(startDate, intervalMonths, index + 1),
+    amount: instalmentAmount,
+  }))
+}
+
+function getDueDate(startDate: Date, intervalMonths: number, sequence: number): Date {
+  const dueDate = new Date(startDate)
+  dueDate.setUTCMonth(dueDate.getUTCMonth() + (sequence - 1) * intervalMonths)
+  return dueDate
+}
+
+class InstalmentService {
+  // Store the schedule for a new policy, inside the caller's transaction
+  async createSchedule(
+    tx: Prisma.TransactionClient,
+    policyId: string,
+    instalmentAmount: number,
+    frequency: PaymentFrequency,
+    policyTerm: number = 1,
+    startDate: Date = new Date()
+  ): Promise<void> {
+    await tx.policyInstalment.createMany({
+      data: buildInstalmentSchedule(instalmentAmount, frequency, startDate, policyTerm).map(item => ({
+        ...item,
+        policyId,
+      })),
+    })
+  }
+
+  /**
+   * Moves the due dates to run from the date cover started, inside the
+   * caller's transaction. The schedule is stored at checkout, before payment
+   * fixes the policy's effective date.
+   */
+  async rescheduleFrom(tx: Prisma.TransactionClient, policyId: string, startDate: Date): Promise<void> {
+    const policy = await tx.policy.findUniqueOrThrow({
+      where: { id: policyId },
+      select: { paymentFrequency: true },
+    })
+    const { intervalMonths } = PAYMENT_FREQUENCIES[policy.paymentFrequency]
+    const instalments = await tx.policyInstalment.findMany({
+      where: { policyId },
+      select: { id: true, sequence: true },
+    })
+
+    for (const instalment of instalments) {
+      await tx.policyInstalment.update({
+        where: { id: instalment.id },
+        data: { dueDate: getDueDate(startDate, intervalMonths, instalment.sequence) },
+      })
+    }
+  }
+
+  async getSchedule(policyId: string): Promise<PolicyInstalment[]> {
+    return prisma.policyInstalment.findMany({
+      where: { policyId },
+      orderBy: { sequence: 'asc' },
+    })
+  }
+
+  /**
+   * Marks the earliest unpaid instalment as paid, or the failed one whose
+   * invoice was retried. Stripe can deliver the same invoice more than once,
+   * so an invoice that was already paid is a no-op. Given an amount, the
+   * collection is also recorded as a payment against the policy.
+   * A policy in its grace period becomes active again once nothing is overdue.
+   */
+  async recordPayment(
+    policyId: string,
+    payment: { invoiceId?: string; paidAt?: Date; amount?: number } = {}
+  ): Promise<InstalmentOutcome & { remaining: number }> {
+    return prisma.$transaction(async (tx) => {
+      const policy = await tx.policy.findUniqueOrThrow({ where: { id: policyId } })
+
+      // A failed charge keeps its invoice id, and Stripe retries that same
+      // invoice; only an instalment already paid makes the event a duplicate
+      const recorded = payment.invoiceId
+        ? await tx.policyInstalment.findUnique({
+          where: { stripeInvoiceId: payment.invoiceId },
+        })
+        : null
+      if (recorded?.status === 'PAID') {
+        const remaining = await tx.policyInstalment.count({
+          where: { policyId, status: { not: 'PAID' } },
+        })
+        return { instalment: recorded, policyStatus: policy.status, remaining }
+      }
+
+      const next = recorded ?? await tx.policyInstalment.findFirst({
+        where: { policyId, status: { not: 'PAID' } },
+        orderBy: { sequence: 'asc' },
+      })
+      if (!next) {
+        return { instalment: null, policyStatus: policy.status, remaining: 0 }
+      }
+
+      const instalment = await tx.policyInstalment.update({
+        where: { id: next.id },
+        data: {
+          status: 'PAID',
+          paidAt: payment.paidAt ?? new Date(),
+          stripeInvoiceId: payment.invoiceId,
+          failureReason: null,
+        },
+      })
+
+      if (payment.amount !== undefined) {
+        await tx.payment.create({
+          data: {
+            policyId,
+            customerId: policy.customerId,
+            amount: payment.amount,
+            status: 'COMPLETED',
+            paymentMethod: 'STRIPE',
+            transactionId: payment.invoiceId,
+          },
+        })
+      }
+
+      const overdue = await tx.policyInstalment.count({
+        where: { policyId, status: 'FAILED' },
+      })
+      let policyStatus = policy.status
+      if (policy.status === 'GRACE_PERIOD' && !overdue) {
+        policyStatus = (await tx.policy.update({
+          where: { id: policyId },
+          data: { status: 'ACTIVE' },
+        })).status
+      }
+
+      const remaining = await tx.policyInstalment.count({
+        where: { policyId, status: { not: 'PAID' } },
+      })
+
+      return { instalment, policyStatus, remaining }
+    })
+  }
+
+  /**
+   * Marks the earliest unpaid instalment as failed and moves the policy into
+   * its grace period, or to LAPSED once the grace period has run out.
+   */
+  async recordFailure(
+    policyId: string,
+    failure: { invoiceId?: string; reason?: string; asOf?: Date } = {}
+  ): Promise<InstalmentOutcome> {
+    const asOf = failure.asOf ?? new Date()
+
+    return prisma.$transaction(async (tx) => {
+      const policy = await tx.policy.findUniqueOrThrow({ where: { id: policyId } })
+
+      const next = await tx.policyInstalment.findFirst({
+        where: { policyId, status: { not: 'PAID' } },
+        orderBy: { sequence: 'asc' },
+      })
+      if (!next) {
+        return { instalment: null, policyStatus: policy.status }
+      }
+
+      const instalment = await tx.policyInstalment.update({
+        where: { id: next.id },
+        data: {
+          status: 'FAILED',
+          attemptCount: { increment: 1 },
+          failureReason: failure.reason ?? 'Payment failed',
+          stripeInvoiceId: failure.invoiceId,
+        },
+      })
+
+      // A policy that is cancelled or already lapsed stays that way
+      if (policy.status !== 'ACTIVE' && policy.status !== 'GRACE_PERIOD') {
+        return { instalment, policyStatus: policy.status }
+      }
+
+      const graceEnds = new Date(instalment.dueDate)
+      graceEnds.setUTCDate(graceEnds.getUTCDate() + GRACE_PERIOD_DAYS[policy.paymentFrequency])
+
+      const updated = await tx.policy.update({
+        where: { id: policyId },
+        data: { status: asOf > graceEnds ? 'LAPSED' : 'GRACE_PERIOD' },
+      })
+
+      return { instalment, policyStatus: updated.status }
+    })
+  }
+
+  // Recurring billing stopped with instalments still unpaid
+  async lapseUnpaid(policyId: string): Promise<PolicyStatus> {
+    const unpaid = await prisma.policyInstalment.count({
+      where: { policyId, status: { not: 'PAID' } },
+    })
+    const policy = await prisma.policy.findUniqueOrThrow({ where: { id: policyId } })
+
+    if (!unpaid || (policy.status !== 'ACTIVE' && policy.status !== 'GRACE_PERIOD')) {
+      return policy.status
+    }
+
+    const updated = await prisma.policy.update({
+      where: { id: policyId },
+      data: { status: 'LAPSED' },
+    })
+    return updated.status
+  }
+}
+
+export const instalmentService = new InstalmentService()
@@ -0,0 +1,483 @@
+import { prisma } from '../prisma'
+import {
+  PlanDraftInput,
+  PlanDraftUpdate,
+  PlanStatus,
+  PlanValidationIssue,
+  validatePlanForPublish,
+} from '../plan-catalogue'
+import { ImportRowError, PlanImport, PlanImportRecord } from '../plan-catalogue-io'
+import { getRatingTableScopeKey } from '../rating-tables'
+import { Prisma, ProductPlan } from '@prisma/client'
+
+// Types
+export type CataloguePlan = Prisma.ProductPlanGetPayload<{ include: typeof CATALOGUE_INCLUDE }>
+
+export type PublishResult = {
+  plan: CataloguePlan | null
+  issues: PlanValidationIssue[]
+}
+
+export type CatalogueFilters = {
+  status?: PlanStatus
+  planCode?: string
+}
+
+export type ImportedPlan = {
+  row: number
+  id: string | null // null on a dry run
+  planCode: string | null // null for new plans without a code; one is assigned on import
+  name: string
+  version: number
+}
+
+export type CatalogueImportResult = {
+  dryRun: boolean
+  plans: ImportedPlan[]
+  errors: ImportRowError[]
+}
+
+const CATALOGUE_INCLUDE = {
+  insurer: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  benefits: true,
+  riders: true,
+  waitingPeriods: true,
+  networkHospitals: {
+    include: {
+      hospital: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+} as const
+
+type PlanChildren = Pick<PlanDraftInput, 'benefits' | 'networkHospitals' | 'waitingPeriods'>
+
+class PlanCatalogueService {
+  // Replace whichever of a draft's benefits, hospital links and waiting periods are given
+  private async writeChildren(tx: Prisma.TransactionClient, planId: string, children: PlanChildren) {
+    if (children.benefits) {
+      // Benefit waiting periods go with their benefits; plan-wide ones stay
+      await tx.waitingPeriod.deleteMany({ where: { planId, benefitId: { not: null } } })
+      await tx.planBenefit.deleteMany({ where: { planId } })
+      await tx.planBenefit.createMany({
+        data: children.benefits.map(benefit => ({
+          planId,
+          name: benefit.name,
+          description: benefit.description,
+          coverageAmount: benefit.coverageAmount,
+          waitingPeriod: benefit.waitingPeriod ?? null,
+          conditions: benefit.conditions === undefined
+            ? undefined
+            : (benefit.conditions as Prisma.InputJsonValue),
+        })),
+      })
+    }
+
+    if (children.networkHospitals) {
+      await tx.networkHospital.deleteMany({ where: { planId } })
+      await tx.networkHospital.createMany({
+        data: children.networkHospitals.map(link => ({ planId, ...link })),
+      })
+    }
+
+    if (children.waitingPeriods) {
+      const benefits = await tx.planBenefit.findMany({
+        where: { planId },
+        select: { id: true, name: true },
+      })
+      const benefitIds = new Map(benefits.map(b => [b.name.toLowerCase(), b.id]))
+
+      const rows = children.waitingPeriods.map(({ benefitName, ...period }) => {
+        const benefitId = benefitName ? benefitIds.get(benefitName.toLowerCase()) : null
+        if (benefitId === undefined) {
+          throw new Error(`Waiting period refers to unknown benefit: ${benefitName}`)
+        }
+        return { planId, benefitId, ...period }
+      })
+
+      await tx.waitingPeriod.deleteMany({ where: { planId } })
+      await tx.waitingPeriod.createMany({ data: rows })
+    }
+  }
+
+  // Riders carry over between versions of a plan unchanged
+  private async copyRiders(tx: Prisma.TransactionClient, fromPlanId: string, toPlanId: string) {
+    const riders = await tx.planRider.findMany({ where: { planId: fromPlanId } })
+    await tx.planRider.createMany({
+      data: riders.map(({ id, planId, createdAt, updatedAt, ...rider }) => ({
+        ...rider,
+        planId: toPlanId,
+      })),
+    })
+  }
+
+  async getPlans(filters: CatalogueFilters = {}) {
+    return prisma.productPlan.findMany({
+      where: {
+        status: filters.status,
+        planCode: filters.planCode,
+      },
+      include: CATALOGUE_INCLUDE,
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+    })
+  }
+
+  async getPlan(planId: string) {
+    return prisma.productPlan.findUnique({
+      where: { id: planId },
+      include: CATALOGUE_INCLUDE,
+    })
+  }
+
+  private async insertDraft(
+    tx: Prisma.TransactionClient,
+    input: PlanDraftInput,
+    version: { planCode?: string; version: number }
+  ): Promise<ProductPlan> {
+    const { benefits, networkHospitals, waitingPeriods, ...fields } = input
+
+    const plan = await tx.productPlan.create({
+      data: {
+        ...fields,
+        features: fields.features as Prisma.InputJsonValue,
+        status: 'DRAFT',
+        ...version,
+      },
+    })
+    await this.writeChildren(tx, plan.id, { benefits, networkHospitals, waitingPeriods })
+    return plan
+  }
+
+  // A new plan, saved as version 1 of its own plan code
+  async createDraft(input: PlanDraftInput): Promise<CataloguePlan> {
+    const plan = await prisma.$transaction(tx => this.insertDraft(tx, input, { version: 1 }))
+
+    return prisma.productPlan.findUniqueOrThrow({ where: { id: plan.id }, include: CATALOGUE_INCLUDE })
+  }
+
+  // Published versions are frozen; only drafts can be edited
+  async updateDraft(planId: string, input: PlanDraftUpdate): Promise<CataloguePlan> {
+    const { benefits, networkHospitals, waitingPeriods, ...fields } = input
+
+    await prisma.$transaction(async (tx) => {
+      const plan = await tx.productPlan.findUnique({ where: { id: planId } })
+      if (!plan) throw new Error('Plan not found')
+      if (plan.status !== 'DRAFT') throw new Error('Only draft plans can be edited')
+
+      await tx.productPlan.update({
+        where: { id: planId },
+        data: {
+          ...fields,
+          features: fields.features as Prisma.InputJsonValue | undefined,
+        },
+      })
+      await this.writeChildren(tx, planId, { benefits, networkHospitals, waitingPeriods })
+    })
+
+    return prisma.productPlan.findUniqueOrThrow({ where: { id: planId }, include: CATALOGUE_INCLUDE })
+  }
+
+  async deleteDraft(planId: string): Promise<void> {
+    const { count } = await prisma.productPlan.deleteMany({
+      where: { id: planId, status: 'DRAFT' },
+    })
+    if (!count) {
+      const plan = await prisma.productPlan.findUnique({ where: { id: planId } })
+      throw new Error(plan ? 'Only draft plans can be deleted' : 'Plan not found')
+    }
+  }
+
+  /**
+   * Starts the next version of a plan as a draft copy of the given version,
+   * so a published plan can be changed without touching the policies sold
+   * on it. A plan code has at most one draft at a time.
+   */
+  async createVersion(planId: string): Promise<CataloguePlan> {
+    const newPlanId = await prisma.$transaction(async (tx) => {
+      const source = await tx.productPlan.findUnique({
+        where: { id: planId },
+        include: { benefits: true, networkHospitals: true, waitingPeriods: true },
+      })
+      if (!source) throw new Error('Plan not found')
+
+      const existingDraft = await tx.productPlan.findFirst({
+        where: { planCode: source.planCode, status: 'DRAFT' },
+        select: { id: true },
+      })
+      if (existingDraft) throw new Error('This plan already has a draft version')
+
+      const latest = await tx.productPlan.findFirstOrThrow({
+        where: { planCode: source.planCode },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      })
+
+      const plan = await tx.productPlan.create({
+        data: {
+          name: source.name,
+          description: source.description,
+          planType: source.planType,
+          coverageAmount: source.coverageAmount,
+          premiumAmount: source.premiumAmount,
+          deductible: source.deductible,
+          features: source.features as Prisma.InputJsonValue,
+          insurerId: source.insurerId,
+          planCode: source.planCode,
+          version: latest.version + 1,
+          status: 'DRAFT',
+        },
+      })
+
+      // Benefits get new ids, so benefit-scoped waiting periods are re-pointed at the copies
+      const benefitIds = new Map<string, string>()
+      for (const benefit of source.benefits) {
+        const copy = await tx.planBenefit.create({
+          data: {
+            planId: plan.id,
+            name: benefit.name,
+            description: benefit.description,
+            coverageAmount: benefit.coverageAmount,
+            waitingPeriod: benefit.waitingPeriod,
+            conditions: benefit.conditions ?? undefined,
+            status: benefit.status,
+          },
+        })
+        benefitIds.set(benefit.id, copy.id)
+      }
+
+      await this.copyRiders(tx, source.id, plan.id)
+      await tx.networkHospital.createMany({
+        data: source.networkHospitals.map(link => ({
+          planId: plan.id,
+          hospitalId: link.hospitalId,
+          cashless: link.cashless,
+        })),
+      })
+      await tx.waitingPeriod.createMany({
+        data: source.waitingPeriods.map(period => ({
+          planId: plan.id,
+          benefitId: period.benefitId ? benefitIds.get(period.benefitId) ?? null : null,
+          type: period.type,
+          days: period.days,
+          conditions: period.conditions,
+          description: period.description,
+        })),
+      })
+
+      return plan.id
+    })
+
+    return prisma.productPlan.findUniqueOrThrow({ where: { id: newPlanId }, include: CATALOGUE_INCLUDE })
+  }
+
+  async validate(planId: string): Promise<PlanValidationIssue[]> {
+    const plan = await prisma.productPlan.findUnique({
+      where: { id: planId },
+      include: { benefits: true, networkHospitals: true, waitingPeriods: true },
+    })
+    if (!plan) throw new Error('Plan not found')
+
+    return validatePlanForPublish(plan)
+  }
+
+  /**
+   * Puts a draft on sale. The version it replaces is archived rather than
+   * changed, so policies keep pointing at the terms they were sold on. A
+   * plan-specific rating table is carried over when the new version has none.
+   */
+  async publish(planId: string, publishedById: string): Promise<PublishResult> {
+    const issues = await this.validate(planId)
+    if (issues.length) return { plan: null, issues }
+
+    await prisma.$transaction(async (tx) => {
+      const draft = await tx.productPlan.findUniqueOrThrow({ where: { id: planId } })
+
+      const { count } = await tx.productPlan.updateMany({
+        where: { id: planId, status: 'DRAFT' },
+        data: { status: 'ACTIVE', publishedAt: new Date(), publishedById },
+      })
+      if (!count) throw new Error('Only draft plans can be published')
+
+      await tx.productPlan.updateMany({
+        where: { planCode: draft.planCode, status: 'ACTIVE', id: { not: planId } },
+        data: { status: 'ARCHIVED' },
+      })
+
+      const hasRatingTable = await tx.ratingTable.findFirst({ where: { planId }, select: { id: true } })
+      if (!hasRatingTable) {
+        const previous = await tx.ratingTable.findFirst({
+          where: { plan: { planCode: draft.planCode }, planId: { not: planId } },
+          orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+        })
+        if (previous) {
+          await tx.ratingTable.create({
+            data: {
+              planId,
+              insurerId: previous.insurerId,
+              scopeKey: getRatingTableScopeKey({ insurerId: previous.insurerId, planId }),
+              version: 1,
+              effectiveFrom: previous.effectiveFrom,
+              cityTiers: previous.cityTiers as Prisma.InputJsonValue,
+              defaultCityMultiplier: previous.defaultCityMultiplier,
+              medicalConditionRisks: previous.medicalConditionRisks as Prisma.InputJsonValue,
+              ageBands: previous.ageBands as Prisma.InputJsonValue,
+              familyDiscounts: previous.familyDiscounts as Prisma.InputJsonValue,
+              notes: `Carried over from rating table ${previous.id}`,
+              createdById: publishedById,
+            },
+          })
+        }
+      }
+    })
+
+    const plan = await prisma.productPlan.findUniqueOrThrow({ where: { id: planId }, include: CATALOGUE_INCLUDE })
+    return { plan, issues: [] }
+  }
+
+  /**
+   * Loads a catalogue file as drafts. A plan whose code is already in the
+   * catalogue becomes its next version; any other plan is new. Nothing is
+   * written unless every plan passes, and a dry run only reports what would
+   * be created.
+   */
+  async importPlans(records: PlanImportRecord[], { dryRun }: { dryRun: boolean }): Promise<CatalogueImportResult> {
+    const errors: ImportRowError[] = []
+    const codes = records.map(r => r.plan.planCode).filter((code): code is string => Boolean(code))
+    const insurerIds = Array.from(new Set(records.map(r => r.plan.insurerId)))
+    const hospitalIds = Array.from(new Set(records.flatMap(r => r.plan.networkHospitals.map(h => h.hospitalId))))
+
+    const [insurers, hospitals, existing] = await Promise.all([
+      prisma.insurer.findMany({ where: { id: { in: insurerIds } }, select: { id: true } }),
+      prisma.hospital.findMany({ where: { id: { in: hospitalIds } }, select: { id: true } }),
+      prisma.productPlan.findMany({
+        where: { planCode: { in: codes } },
+        select: { id: true, planCode: true, version: true, status: true },
+      }),
+    ])
+    const knownInsurers = new Set(insurers.map(i => i.id))
+    const knownHospitals = new Set(hospitals.map(h => h.id))
+
+    const plans: ImportedPlan[] = records.map(({ row, plan }) => {
+      const planCode = plan.planCode ?? null
+      const fail = (field: string, message: string) =>
+        errors.push({ row, planCode: planCode ?? undefined, field, message })
+
+      if (planCode && codes.indexOf(planCode) !== codes.lastIndexOf(planCode)) {
+        fail('planCode', 'Plan code appears more than once')
+      }
+      if (!knownInsurers.has(plan.insurerId)) {
+        fail('insurerId', `Unknown insurer: ${plan.insurerId}`)
+      }
+      plan.networkHospitals
+        .filter(link => !knownHospitals.has(link.hospitalId))
+        .forEach(link => fail('networkHospitals', `Unknown hospital: ${link.hospitalId}`))
+
+      const benefitNames = new Set(plan.benefits.map(b => b.name.toLowerCase()))
+      plan.waitingPeriods
+        .filter(period => period.benefitName && !benefitNames.has(period.benefitName.toLowerCase()))
+        .forEach(period => fail('waitingPeriods', `Waiting period refers to unknown benefit: ${period.benefitName}`))
+
+      const versions = existing.filter(p => p.planCode === planCode)
+      if (versions.some(p => p.status === 'DRAFT')) {
+        fail('planCode', 'This plan already has a draft version')
+      }
+
+      return {
+        row,
+        id: null,
+        planCode,
+        name: plan.name,
+        version: Math.max(0, ...versions.map(p => p.version)) + 1,
+      }
+    })
+
+    if (errors.length || dryRun) {
+      return { dryRun, plans: errors.length ? [] : plans, errors: errors.sort((a, b) => a.row - b.row) }
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const saved: ImportedPlan[] = []
+      for (let i = 0; i < records.length; i++) {
+        const { planCode, ...input } = records[i].plan
+        const draft = await this.insertDraft(tx, input, { planCode, version: plans[i].version })
+        // Catalogue files have no riders, so a new version keeps the previous version's
+        const previous = existing.find(p => p.planCode === planCode && p.version === plans[i].version - 1)
+        if (previous) {
+          await this.copyRiders(tx, previous.id, draft.id)
+        }
+        saved.push({ ...plans[i], id: draft.id, planCode: draft.planCode })
+      }
+      return saved
+    }, { timeout: 60000 })
+
+    return { dryRun, plans: created, errors: [] }
+  }
+
+  // The catalogue in the import format, so an export can be edited and re-imported
+  async exportPlans(status: PlanStatus = 'ACTIVE'): Promise<PlanImport[]> {
+    const plans = await prisma.productPlan.findMany({
+      where: { status },
+      include: {
+        benefits: { where: { status: 'ACTIVE' } },
+        networkHospitals: true,
+        waitingPeriods: { include: { benefit: { select: { name: true } } } },
+      },
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+    })
+
+    return plans.map(plan => ({
+      planCode: plan.planCode,
+      name: plan.name,
+      description: plan.description,
+      planType: plan.planType,
+      insurerId: plan.insurerId,
+      coverageAmount: Number(plan.coverageAmount),
+      premiumAmount: Number(plan.premiumAmount),
+      deductible: Number(plan.deductible),
+      features: plan.features as Record<string, unknown>,
+      benefits: plan.benefits.map(benefit => ({
+        name: benefit.name,
+        description: benefit.description,
+        coverageAmount: Number(benefit.coverageAmount),
+        waitingPeriod: benefit.waitingPeriod,
+        conditions: benefit.conditions ?? undefined,
+      })),
+      waitingPeriods: plan.waitingPeriods.map(period => ({
+        type: period.type,
+        days: period.days,
+        conditions: period.conditions,
+        description: period.description ?? undefined,
+        benefitName: period.benefit?.name,
+      })),
+      networkHospitals: plan.networkHospitals.map(link => ({
+        hospitalId: link.hospitalId,
+        cashless: link.cashless,
+      })),
+    }))
+  }
+
+  // Withdraws a plan from sale; it stays readable for the policies sold on it
+  async archive(planId: string): Promise<ProductPlan> {
+    const { count } = await prisma.productPlan.updateMany({
+      where: { id: planId, status: 'ACTIVE' },
+      data: { status: 'ARCHIVED' },
+    })
+    if (!count) {
+      const plan = await prisma.productPlan.findUnique({ where: { id: planId } })
+      throw new Error(plan ? 'Only active plans can be archived' : 'Plan not found')
+    }
+
+    return prisma.productPlan.findUniqueOrThrow({ where: { id: planId } })
+  }
+}
+
+export const planCatalogueService = new PlanCatalogueService()
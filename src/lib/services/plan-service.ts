@@ -1,115 +1,43 @@
 import { prisma } from '../prisma'
-import { calculateQuote, QuoteInput, QuoteInputSchema } from '../quote-engine'
-import { ProductPlan, PlanBenefit, Insurer, PlanType, WaitingPeriod } from '@prisma/client'
-import { z } from 'zod'
+import {
+  calculateQuote,
+  calculatePlanPremium,
+  calculateTermRiskFactors,
+  PremiumBreakdown,
+  QuoteInput,
+  QuoteInputSchema,
+} from '../quote-engine'
+import { getActiveRatingTables } from '../rating-tables'
+import { PlanQueryInput, PlanQueryResult, queryPlans } from '../plan-query'
+import { ProductPlan, PlanBenefit, PlanRider, Insurer, PlanType, WaitingPeriod } from '@prisma/client'
 
 // Types
 export type PlanWithDetails = ProductPlan & {
   insurer: Insurer
   benefits: PlanBenefit[]
+  riders: PlanRider[]
   waitingPeriods: WaitingPeriod[]
 }
 
-export type PlanFilterOptions = {
-  coverageMin?: number
-  coverageMax?: number
-  premiumMin?: number
-  premiumMax?: number
-  insurerId?: string
-  planType?: PlanType
-  features?: string[]
-  sortBy?: 'premium' | 'coverage' | 'popularity'
-  sortOrder?: 'asc' | 'desc'
-  page?: number
-  limit?: number
-}
-
-export const PlanFilterSchema = z.object({
-  coverageMin: z.number().optional(),
-  coverageMax: z.number().optional(),
-  premiumMin: z.number().optional(),
-  premiumMax: z.number().optional(),
-  insurerId: z.string().optional(),
-  planType: z.enum(['INDIVIDUAL', 'FAMILY', 'SENIOR', 'GROUP']).optional(),
-  features: z.array(z.string()).optional(),
-  sortBy: z.enum(['premium', 'coverage', 'popularity']).optional(),
-  sortOrder: z.enum(['asc', 'desc']).optional(),
-  page: z.number().min(1).optional(),
-  limit: z.number().min(1).max(50).optional(),
-})
+// Riders on sale are part of every plan the service returns
+const PLAN_DETAILS_INCLUDE = {
+  insurer: true,
+  benefits: true,
+  riders: { where: { status: 'ACTIVE' } },
+  waitingPeriods: true,
+} as const
 
 class PlanService {
-  // Get plans with filtering and pagination
-  async getPlans(filters: PlanFilterOptions = {}): Promise<{
-    plans: PlanWithDetails[]
-    total: number
-    page: number
-    totalPages: number
-  }> {
-    const {
-      coverageMin,
-      coverageMax,
-      premiumMin,
-      premiumMax,
-      insurerId,
-      planType,
-      features,
-      sortBy = 'premium',
-      sortOrder = 'asc',
-      page = 1,
-      limit = 10,
-    } = filters
-
-    const where: any = {
-      ...(coverageMin && { coverageAmount: { gte: coverageMin } }),
-      ...(coverageMax && { coverageAmount: { lte: coverageMax } }),
-      ...(premiumMin && { basePremium: { gte: premiumMin } }),
-      ...(premiumMax && { basePremium: { lte: premiumMax } }),
-      ...(insurerId && { insurerId }),
-      ...(planType && { type: planType }),
-      ...(features?.length && {
-        benefits: {
-          some: {
-            name: { in: features },
-          },
-        },
-      }),
-    }
-
-    const [plans, total] = await Promise.all([
-      prisma.productPlan.findMany({
-        where,
-        include: {
-          insurer: true,
-          benefits: true,
-          waitingPeriods: true,
-        },
-        orderBy: {
-          [sortBy === 'popularity' ? 'purchaseCount' : sortBy]: sortOrder,
-        },
-        skip: (page - 1) * limit,
-        take: limit,
-      }),
-      prisma.productPlan.count({ where }),
-    ])
-
-    return {
-      plans,
-      total,
-      page,
-      totalPages: Math.ceil(total / limit),
-    }
+  // Get plans with filtering, cursor pagination and facet counts
+  async getPlans(filters: PlanQueryInput = {}): Promise<PlanQueryResult> {
+    return queryPlans(filters)
   }
 
   // Get detailed plan information
   async getPlanById(planId: string): Promise<PlanWithDetails | null> {
     return prisma.productPlan.findUnique({
       where: { id: planId },
-      include: {
-        insurer: true,
-        benefits: true,
-        waitingPeriods: true,
-      },
+      include: PLAN_DETAILS_INCLUDE,
     })
   }
 
@@ -119,11 +47,7 @@ class PlanService {
       where: {
         id: { in: planIds },
       },
-      include: {
-        insurer: true,
-        benefits: true,
-        waitingPeriods: true,
-      },
+      include: PLAN_DETAILS_INCLUDE,
     })
   }
 
@@ -131,13 +55,7 @@ class PlanService {
   async calculatePlanPremium(planId: string, quoteInput: QuoteInput): Promise<{
     plan: PlanWithDetails
     premium: number
-    breakdown: {
-      basePremium: number
-      riskFactor: number
-      cityMultiplier: number
-      familyDiscount: number
-      finalPremium: number
-    }
+    breakdown: PremiumBreakdown
   }> {
     // Validate quote input
     const validatedInput = QuoteInputSchema.parse(quoteInput)
@@ -148,22 +66,21 @@ class PlanService {
       throw new Error('Plan not found')
     }
 
-    // Calculate quote using existing engine
-    const quote = await calculateQuote({
-      ...validatedInput,
-      coverageAmount: plan.coverageAmount,
+    // Price the plan on its own base rate, deductible and loadings, using
+    // the plan's currently active rating table
+    const { byPlan } = await getActiveRatingTables([plan])
+    const [factors, ...renewalFactors] =
+      calculateTermRiskFactors(validatedInput, byPlan[plan.id], validatedInput.policyTerm)
+    const breakdown = calculatePlanPremium(plan, factors, {
+      riders: validatedInput.riders,
+      paymentFrequency: validatedInput.paymentFrequency,
+      renewalFactors,
     })
 
     return {
       plan,
-      premium: quote.finalPremium,
-      breakdown: {
-        basePremium: quote.basePremium,
-        riskFactor: quote.riskFactor,
-        cityMultiplier: quote.cityMultiplier,
-        familyDiscount: quote.familyDiscount,
-        finalPremium: quote.finalPremium,
-      },
+      premium: breakdown.finalPremium,
+      breakdown,
     }
   }
 
@@ -182,18 +99,15 @@ class PlanService {
     const targetPremium = quote.finalPremium
     const plans = await prisma.productPlan.findMany({
       where: {
-        basePremium: {
+        status: 'ACTIVE',
+        premiumAmount: {
           gte: targetPremium * 0.8,
           lte: targetPremium * 1.2,
         },
       },
-      include: {
-        insurer: true,
-        benefits: true,
-        waitingPeriods: true,
-      },
+      include: PLAN_DETAILS_INCLUDE,
       orderBy: {
-        purchaseCount: 'desc',
+        policies: { _count: 'desc' },
       },
       take: 5,
     })
@@ -215,6 +129,7 @@ class PlanService {
   async searchPlans(query: string): Promise<PlanWithDetails[]> {
     return prisma.productPlan.findMany({
       where: {
+        status: 'ACTIVE',
         OR: [
           { name: { contains: query, mode: 'insensitive' } },
           { description: { contains: query, mode: 'insensitive' } },
@@ -227,25 +142,20 @@ class PlanService {
           },
         ],
       },
-      include: {
-        insurer: true,
-        benefits: true,
-        waitingPeriods: true,
-      },
+      include: PLAN_DETAILS_INCLUDE,
     })
   }
 
   // Get popular plans
   async getPopularPlans(limit = 5): Promise<PlanWithDetails[]> {
     return prisma.productPlan.findMany({
-      orderBy: {
-        purchaseCount: 'desc',
+      where: {
+        status: 'ACTIVE',
       },
-      include: {
-        insurer: true,
-        benefits: true,
-        waitingPeriods: true,
+      orderBy: {
+        policies: { _count: 'desc' },
       },
+      include: PLAN_DETAILS_INCLUDE,
       take: limit,
     })
   }
@@ -255,12 +165,9 @@ class PlanService {
     return prisma.productPlan.findMany({
       where: {
         insurerId,
+        status: 'ACTIVE',
       },
-      include: {
-        insurer: true,
-        benefits: true,
-        waitingPeriods: true,
-      },
+      include: PLAN_DETAILS_INCLUDE,
     })
   }
 
@@ -268,13 +175,10 @@ class PlanService {
   async getPlansByType(planType: PlanType): Promise<PlanWithDetails[]> {
     return prisma.productPlan.findMany({
       where: {
-        type: planType,
-      },
-      include: {
-        insurer: true,
-        benefits: true,
-        waitingPeriods: true,
+        planType,
+        status: 'ACTIVE',
       },
+      include: PLAN_DETAILS_INCLUDE,
     })
   }
 }
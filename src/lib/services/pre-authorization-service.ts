@@ -0,0 +1,353 @@
+import { prisma } from '../prisma'
+import { checkWaitingPeriods } from '../waiting-periods'
+import {
+  assessPreAuthorization,
+  canTransition,
+  DischargeInput,
+  DischargeInputSchema,
+  getAllowedFromStatuses,
+  getPolicyYear,
+  OPEN_PRE_AUTH_STATUSES,
+  PreAuthorizationInput,
+  PreAuthorizationInputSchema,
+  PreAuthReason,
+} from '../pre-authorization'
+import { claimService } from './claims-service'
+import { Claim, PreAuthorization, PreAuthStatus, Prisma } from '@prisma/client'
+
+// Types
+export type PreAuthSubmission = {
+  preAuthorization: PreAuthorization
+  // Why the request was rejected or only partly approved; empty when approved in full
+  reasons: PreAuthReason[]
+}
+
+export type PreAuthDischarge = {
+  preAuthorization: PreAuthorization
+  claim: Claim
+}
+
+const PRE_AUTH_INCLUDE = {
+  policy: {
+    select: {
+      policyNumber: true,
+      effectiveDate: true,
+      expirationDate: true,
+      customer: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+      plan: {
+        select: {
+          id: true,
+          name: true,
+          insurer: { select: { name: true } },
+        },
+      },
+    },
+  },
+  hospital: {
+    select: {
+      id: true,
+      name: true,
+      address: true,
+    },
+  },
+  claim: {
+    select: {
+      id: true,
+      claimNumber: true,
+      status: true,
+      approvedAmount: true,
+    },
+  },
+} as const
+
+// Policies a hospital can be authorised to treat cashless
+const IN_FORCE_POLICY_STATUSES = ['ACTIVE', 'GRACE_PERIOD'] as const
+
+class PreAuthorizationService {
+  /**
+   * Decides a planned admission as soon as it is submitted: the hospital's
+   * cashless status under the policy's plan, waiting periods on the
+   * admission date and the sum insured left in that policy year. Rejected
+   * requests are recorded with their reasons like any other, along with the
+   * documents uploaded for them.
+   */
+  async submitPreAuthorization(userId: string, input: PreAuthorizationInput): Promise<PreAuthSubmission> {
+    const validatedInput = PreAuthorizationInputSchema.parse(input)
+
+    const policy = await prisma.policy.findUnique({
+      where: { policyNumber: validatedInput.policyNumber },
+      include: {
+        waitingPeriods: true,
+        plan: { select: { coverageAmount: true } },
+      },
+    })
+
+    if (!policy) {
+      throw new Error('Policy not found')
+    }
+
+    if (!(IN_FORCE_POLICY_STATUSES as readonly string[]).includes(policy.status)) {
+      throw new Error('Policy is not in force')
+    }
+
+    if (
+      validatedInput.plannedAdmissionDate < policy.effectiveDate ||
+      validatedInput.plannedAdmissionDate > policy.expirationDate
+    ) {
+      throw new Error('Admission date is outside the policy period')
+    }
+
+    const hospital = await prisma.hospital.findUnique({
+      where: { id: validatedInput.hospitalId },
+      select: {
+        id: true,
+        networkPlans: {
+          where: { planId: policy.planId },
+          select: { cashless: true },
+        },
+      },
+    })
+
+    if (!hospital) {
+      throw new Error('Hospital not found')
+    }
+
+    const waitingPeriodViolations = checkWaitingPeriods(policy.effectiveDate, policy.waitingPeriods, {
+      incidentDate: validatedInput.plannedAdmissionDate,
+      condition: validatedInput.condition,
+      benefitId: validatedInput.benefitId,
+      isAccident: validatedInput.isAccident,
+    })
+
+    // The policy row is locked while the sum insured left is worked out and
+    // held, so concurrent requests cannot each be approved for all of it
+    const { preAuthorization, assessment } = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM "Policy" WHERE id = ${policy.id} FOR UPDATE`
+
+      const assessment = assessPreAuthorization({
+        cashless: hospital.networkPlans.length ? hospital.networkPlans[0].cashless : null,
+        waitingPeriodViolations,
+        remainingSumInsured: await this.getRemainingSumInsured(tx, policy, validatedInput.plannedAdmissionDate),
+        estimatedCost: validatedInput.estimatedCost,
+      })
+
+      const preAuthorization = await tx.preAuthorization.create({
+        data: {
+          preAuthNumber: this.generatePreAuthNumber(),
+          policyId: policy.id,
+          hospitalId: hospital.id,
+          submittedById: userId,
+          status: assessment.status,
+          diagnosis: validatedInput.diagnosis,
+          condition: validatedInput.condition,
+          benefitId: validatedInput.benefitId,
+          isAccident: validatedInput.isAccident,
+          plannedAdmissionDate: validatedInput.plannedAdmissionDate,
+          estimatedCost: validatedInput.estimatedCost,
+          approvedAmount: assessment.approvedAmount,
+          decisionReasons: assessment.reasons.length
+            ? (assessment.reasons as unknown as Prisma.InputJsonValue)
+            : undefined,
+        },
+      })
+
+      if (validatedInput.documentIds.length) {
+        const { count } = await tx.document.updateMany({
+          where: { id: { in: validatedInput.documentIds }, uploadedById: userId },
+          data: {
+            entityType: 'PRE_AUTHORIZATION',
+            entityId: preAuthorization.id,
+            preAuthorizationId: preAuthorization.id,
+          },
+        })
+        if (count !== validatedInput.documentIds.length) {
+          throw new Error('Document not found or unauthorized')
+        }
+      }
+
+      return { preAuthorization, assessment }
+    })
+
+    return { preAuthorization, reasons: assessment.reasons }
+  }
+
+  // Pre-authorizations for agents to work, most recent admissions first
+  async getPreAuthorizations({
+    status,
+    hospitalId,
+    policyNumber,
+  }: {
+    status?: PreAuthStatus
+    hospitalId?: string
+    policyNumber?: string
+  } = {}) {
+    return prisma.preAuthorization.findMany({
+      where: {
+        ...(status && { status }),
+        ...(hospitalId && { hospitalId }),
+        ...(policyNumber && { policy: { policyNumber } }),
+      },
+      include: PRE_AUTH_INCLUDE,
+      orderBy: { plannedAdmissionDate: 'desc' },
+    })
+  }
+
+  async getPreAuthorizationById(preAuthId: string) {
+    const preAuthorization = await prisma.preAuthorization.findUnique({
+      where: { id: preAuthId },
+      include: PRE_AUTH_INCLUDE,
+    })
+    if (!preAuthorization) return null
+
+    const documents = await prisma.document.findMany({
+      where: { entityType: 'PRE_AUTHORIZATION', entityId: preAuthId },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return { ...preAuthorization, documents }
+  }
+
+  /**
+   * Records the patient's admission or cancels the request. The update only
+   * applies from a status that allows the move, so two agents working the
+   * same request cannot overwrite each other.
+   */
+  async updateStatus(
+    preAuthId: string,
+    status: Extract<PreAuthStatus, 'ADMITTED' | 'CANCELLED'>
+  ): Promise<PreAuthorization> {
+    const { count } = await prisma.preAuthorization.updateMany({
+      where: { id: preAuthId, status: { in: getAllowedFromStatuses(status) } },
+      data: {
+        status,
+        ...(status === 'ADMITTED' && { admittedAt: new Date() }),
+      },
+    })
+
+    if (!count) {
+      await this.throwTransitionError(preAuthId, status)
+    }
+
+    return prisma.preAuthorization.findUniqueOrThrow({ where: { id: preAuthId } })
+  }
+
+  /**
+   * Closes an approved pre-authorization at discharge and raises the
+   * cashless claim for the final bill, both or neither.
+   */
+  async dischargePatient(preAuthId: string, input: DischargeInput): Promise<PreAuthDischarge> {
+    const validatedInput = DischargeInputSchema.parse(input)
+
+    return prisma.$transaction(async (tx) => {
+      const preAuth = await tx.preAuthorization.findUnique({ where: { id: preAuthId } })
+      if (!preAuth) {
+        throw new Error('Pre-authorization not found')
+      }
+
+      if (!canTransition(preAuth.status, 'DISCHARGED')) {
+        throw new Error(this.describeTransitionError(preAuth.status, 'DISCHARGED'))
+      }
+
+      const admissionDate = preAuth.admittedAt ?? preAuth.plannedAdmissionDate
+      if (validatedInput.dischargeDate < admissionDate) {
+        throw new Error('Discharge date is before admission')
+      }
+
+      const claim = await claimService.createCashlessClaim(tx, {
+        policyId: preAuth.policyId,
+        admissionDate,
+        finalBillAmount: validatedInput.finalBillAmount,
+        authorisedAmount: Number(preAuth.approvedAmount),
+        preAuthNumber: preAuth.preAuthNumber,
+        diagnosis: preAuth.diagnosis,
+        condition: preAuth.condition,
+        benefitId: preAuth.benefitId,
+        isAccident: preAuth.isAccident,
+      })
+
+      // Guarded on status so a request can only be discharged once
+      const { count } = await tx.preAuthorization.updateMany({
+        where: { id: preAuthId, status: { in: getAllowedFromStatuses('DISCHARGED') } },
+        data: {
+          status: 'DISCHARGED',
+          admittedAt: admissionDate,
+          dischargedAt: validatedInput.dischargeDate,
+          finalBillAmount: validatedInput.finalBillAmount,
+          claimId: claim.id,
+        },
+      })
+
+      if (!count) {
+        throw new Error('Pre-authorization has already been closed')
+      }
+
+      const preAuthorization = await tx.preAuthorization.findUniqueOrThrow({ where: { id: preAuthId } })
+      return { preAuthorization, claim }
+    })
+  }
+
+  // Sum insured less approved claims and open authorisations in the same policy year
+  private async getRemainingSumInsured(
+    tx: Prisma.TransactionClient,
+    policy: {
+      id: string
+      effectiveDate: Date
+      coverageDetails: Prisma.JsonValue
+      plan: { coverageAmount: Prisma.Decimal }
+    },
+    admissionDate: Date
+  ): Promise<number> {
+    const { start, end } = getPolicyYear(policy.effectiveDate, admissionDate)
+    const coverage = policy.coverageDetails as { coverageAmount?: number } | null
+    const sumInsured = coverage?.coverageAmount ?? Number(policy.plan.coverageAmount)
+
+    const [claims, preAuths] = await Promise.all([
+      tx.claim.aggregate({
+        where: {
+          policyId: policy.id,
+          status: 'APPROVED',
+          incidentDate: { gte: start, lt: end },
+        },
+        _sum: { approvedAmount: true },
+      }),
+      tx.preAuthorization.aggregate({
+        where: {
+          policyId: policy.id,
+          status: { in: OPEN_PRE_AUTH_STATUSES },
+          plannedAdmissionDate: { gte: start, lt: end },
+        },
+        _sum: { approvedAmount: true },
+      }),
+    ])
+
+    return sumInsured - Number(claims._sum.approvedAmount ?? 0) - Number(preAuths._sum.approvedAmount ?? 0)
+  }
+
+  private async throwTransitionError(preAuthId: string, status: PreAuthStatus): Promise<never> {
+    const preAuth = await prisma.preAuthorization.findUnique({
+      where: { id: preAuthId },
+      select: { status: true },
+    })
+    throw new Error(preAuth ? this.describeTransitionError(preAuth.status, status) : 'Pre-authorization not found')
+  }
+
+  private describeTransitionError(from: PreAuthStatus, to: PreAuthStatus): string {
+    const label = (status: PreAuthStatus) => status.toLowerCase().replace(/_/g, ' ')
+    return `A ${label(from)} pre-authorization cannot be ${label(to)}`
+  }
+
+  private generatePreAuthNumber(): string {
+    const prefix = 'PA'
+    const timestamp = Date.now().toString().slice(-8)
+    const random = Math.random().toString(36).substring(2, 6).toUpperCase()
+    return `${prefix}${timestamp}${random}`
+  }
+}
+
+export const preAuthorizationService = new PreAuthorizationService()
@@ -0,0 +1,169 @@
+import { prisma } from '../prisma'
+import { calculateQuote, QuoteInput, QuoteInputSchema, QuoteResult, RecommendedPlan } from '../quote-engine'
+import { underwritingService } from './underwriting-service'
+import { Quote, Prisma, UnderwritingReview } from '@prisma/client'
+
+// Constants
+export const QUOTE_VALIDITY_DAYS = 30
+
+// Types
+export type QuoteDetails = {
+  input: QuoteInput
+  pricedAt: string
+  planName: string
+  insurerName: string
+  deductible: number
+  breakdown: RecommendedPlan['breakdown']
+  features: string[]
+  requotedFrom?: string
+}
+
+export type SavedQuote = RecommendedPlan & {
+  quoteNumber: string
+  expiresAt: Date
+}
+
+export type QuoteWithPlan = Quote & {
+  plan: {
+    id: string
+    name: string
+    insurer: {
+      id: string
+      name: string
+    }
+  }
+  underwritingReview: Pick<UnderwritingReview, 'status' | 'reviewNotes' | 'reviewedAt'> | null
+}
+
+const QUOTE_INCLUDE = {
+  plan: {
+    select: {
+      id: true,
+      name: true,
+      insurer: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  underwritingReview: {
+    select: {
+      status: true,
+      reviewNotes: true,
+      reviewedAt: true,
+    },
+  },
+} as const
+
+class QuoteService {
+  // Store one quote per recommended plan; referred quotes get a review task
+  async saveQuotes(
+    customerId: string,
+    input: QuoteInput,
+    result: QuoteResult,
+    extraDetails: Partial<QuoteDetails> = {}
+  ): Promise<SavedQuote[]> {
+    const expiresAt = new Date(Date.now() + QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+
+    return prisma.$transaction(async (tx) => {
+      const saved: SavedQuote[] = []
+
+      for (const plan of result.recommendedPlans) {
+        const details: QuoteDetails = {
+          input,
+          pricedAt: result.pricedAt,
+          planName: plan.planName,
+          insurerName: plan.insurerName,
+          deductible: plan.deductible,
+          breakdown: plan.breakdown,
+          features: plan.features,
+          ...extraDetails,
+        }
+
+        const quote = await tx.quote.create({
+          data: {
+            customerId,
+            planId: plan.planId,
+            quoteNumber: this.generateQuoteNumber(),
+            coverageAmount: plan.coverageAmount,
+            premiumAmount: plan.premium,
+            riskFactor: plan.breakdown.riskFactor,
+            details: details as unknown as Prisma.InputJsonValue,
+            underwritingDecision: plan.underwriting.decision,
+            expiresAt,
+          },
+        })
+
+        if (plan.underwriting.decision === 'REFER') {
+          await underwritingService.createReview(tx, quote.id, plan.underwriting.reasons)
+        }
+
+        saved.push({ ...plan, quoteNumber: quote.quoteNumber, expiresAt: quote.expiresAt })
+      }
+
+      return saved
+    })
+  }
+
+  // Get a single quote by its quote number
+  async getQuoteByNumber(quoteNumber: string): Promise<QuoteWithPlan | null> {
+    return prisma.quote.findUnique({
+      where: { quoteNumber },
+      include: QUOTE_INCLUDE,
+    })
+  }
+
+  /**
+   * Re-price an expired quote with today's rating tables. A plan that has been
+   * republished since is quoted on its current version, as the old one is no
+   * longer on sale.
+   */
+  async requote(quote: Quote): Promise<SavedQuote> {
+    const details = quote.details as unknown as QuoteDetails
+    const input = QuoteInputSchema.parse(details.input)
+
+    const plan = await prisma.productPlan.findUnique({
+      where: { id: quote.planId },
+      select: { planCode: true },
+    })
+    const current = plan && await prisma.productPlan.findFirst({
+      where: { planCode: plan.planCode, status: 'ACTIVE' },
+      select: { id: true },
+    })
+    if (!current) {
+      throw new Error('Plan is no longer available')
+    }
+
+    const result = await calculateQuote(input, { planIds: [current.id] })
+    if (!result.recommendedPlans.length) {
+      throw new Error('Plan is no longer available')
+    }
+
+    const [saved] = await this.saveQuotes(quote.customerId, input, result, {
+      requotedFrom: quote.quoteNumber,
+    })
+    return saved
+  }
+
+  // When a saved quote was priced, to price alongside it with the same rating tables
+  getPricedAt(quote: Pick<Quote, 'details' | 'createdAt'>): Date {
+    const { pricedAt } = quote.details as unknown as Partial<QuoteDetails>
+    return pricedAt ? new Date(pricedAt) : quote.createdAt
+  }
+
+    isExpired(quote: Pick<Quote, 'expiresAt'>): boolean {
+    return quote.expiresAt.getTime() <= Date.now()
+  }
+
+  // Private helper methods
+  private generateQuoteNumber(): string {
+    const prefix = 'QTE'
+    const timestamp = Date.now().toString().slice(-8)
+    const random = Math.random().toString(36).substring(2, 6).toUpperCase()
+    return `${prefix}${timestamp}${random}`
+  }
+}
+
+export const quoteService = new QuoteService()
@@ -0,0 +1,120 @@
+import { prisma } from '../prisma'
+import { UnderwritingReason } from '../underwriting'
+import { Prisma, Quote, ReviewStatus, UnderwritingReview } from '@prisma/client'
+
+// Types
+export type ReviewOutcome = {
+  status: Exclude<ReviewStatus, 'PENDING'>
+  notes?: string
+}
+
+export type CheckoutQuote = Pick<Quote, 'underwritingDecision'> & {
+  underwritingReview: Pick<UnderwritingReview, 'status'> | null
+}
+
+const REVIEW_INCLUDE = {
+  quote: {
+    select: {
+      quoteNumber: true,
+      coverageAmount: true,
+      premiumAmount: true,
+      riskFactor: true,
+      details: true,
+      expiresAt: true,
+      customer: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          dateOfBirth: true,
+        },
+      },
+      plan: {
+        select: {
+          id: true,
+          name: true,
+          planType: true,
+        },
+      },
+    },
+  },
+} as const
+
+class UnderwritingService {
+  // Open a review task for a referred quote, inside the caller's transaction
+  async createReview(
+    tx: Prisma.TransactionClient,
+    quoteId: string,
+    reasons: UnderwritingReason[]
+  ): Promise<UnderwritingReview> {
+    return tx.underwritingReview.create({
+      data: {
+        quoteId,
+        reasons: reasons as unknown as Prisma.InputJsonValue,
+      },
+    })
+  }
+
+  // Review tasks for agents, oldest first so referrals are worked in order
+  async getReviews(status: ReviewStatus = 'PENDING') {
+    return prisma.underwritingReview.findMany({
+      where: { status },
+      include: REVIEW_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  async getReviewById(reviewId: string) {
+    return prisma.underwritingReview.findUnique({
+      where: { id: reviewId },
+      include: REVIEW_INCLUDE,
+    })
+  }
+
+  /**
+   * Records an agent's decision on a referral. Only a pending review can be
+   * decided, so two agents working the same task cannot overwrite each other.
+   */
+  async completeReview(
+    reviewId: string,
+    reviewerId: string,
+    outcome: ReviewOutcome
+  ): Promise<UnderwritingReview> {
+    const { count } = await prisma.underwritingReview.updateMany({
+      where: { id: reviewId, status: 'PENDING' },
+      data: {
+        status: outcome.status,
+        reviewNotes: outcome.notes,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+      },
+    })
+
+    if (!count) {
+      const review = await prisma.underwritingReview.findUnique({ where: { id: reviewId } })
+      throw new Error(review ? 'Review has already been completed' : 'Review not found')
+    }
+
+    return prisma.underwritingReview.findUniqueOrThrow({ where: { id: reviewId } })
+  }
+
+  // Why a quote cannot be bought yet, or null when it can
+  getCheckoutBlock(quote: CheckoutQuote): string | null {
+    if (quote.underwritingDecision === 'DECLINE') {
+      return 'This quote was declined by underwriting'
+    }
+    if (quote.underwritingDecision === 'REFER') {
+      switch (quote.underwritingReview?.status) {
+        case 'APPROVED':
+          return null
+        case 'DECLINED':
+          return 'This quote was declined after underwriting review'
+        default:
+          return 'This quote is awaiting underwriting review'
+      }
+    }
+    return null
+  }
+}
+
+export const underwritingService = new UnderwritingService()
@@ -0,0 +1,92 @@
+import { prisma } from '../prisma'
+import { QuoteInput } from '../quote-engine'
+import {
+  buildPolicyWaitingPeriods,
+  getClaimableFrom,
+  getDeclaredConditions,
+} from '../waiting-periods'
+import { Prisma, PolicyWaitingPeriod } from '@prisma/client'
+
+// Types
+export type ScheduledWaitingPeriod = PolicyWaitingPeriod & {
+  claimableFrom: Date
+}
+
+export type BenefitAvailability = {
+  benefitId: string
+  name: string
+  claimableFrom: Date
+}
+
+export type WaitingPeriodSchedule = {
+  effectiveDate: Date
+  periods: ScheduledWaitingPeriod[]
+  benefits: BenefitAvailability[]
+}
+
+class WaitingPeriodService {
+  // Fix the plan's waiting periods onto a new policy, inside the caller's transaction
+  async createForPolicy(
+    tx: Prisma.TransactionClient,
+    policyId: string,
+    planId: string,
+    quoteInput: QuoteInput
+  ): Promise<void> {
+    const periods = await tx.waitingPeriod.findMany({ where: { planId } })
+    const rows = buildPolicyWaitingPeriods(periods, getDeclaredConditions(quoteInput))
+    if (!rows.length) return
+
+    await tx.policyWaitingPeriod.createMany({
+      data: rows.map(row => ({ ...row, policyId })),
+    })
+  }
+
+  /**
+   * When each waiting period ends and each benefit becomes claimable. A
+   * benefit is claimable once both the initial period and its own period
+   * have run; condition-specific periods are listed but do not hold up a
+   * whole benefit.
+   */
+  async getSchedule(policyId: string): Promise<WaitingPeriodSchedule | null> {
+    const policy = await prisma.policy.findUnique({
+      where: { id: policyId },
+      include: {
+        waitingPeriods: { orderBy: { days: 'desc' } },
+        plan: {
+          select: {
+            benefits: {
+              where: { status: 'ACTIVE' },
+              select: { id: true, name: true },
+            },
+          },
+        },
+      },
+    })
+    if (!policy) return null
+
+    const periods = policy.waitingPeriods.map(period => ({
+      ...period,
+      claimableFrom: getClaimableFrom(policy.effectiveDate, period.days),
+    }))
+
+    const benefits = policy.plan.benefits.map(benefit => {
+      const days = Math.max(
+        0,
+        ...policy.waitingPeriods
+          .filter(period =>
+            period.type === 'INITIAL' && (!period.benefitId || period.benefitId === benefit.id)
+          )
+          .map(period => period.days)
+      )
+      return {
+        benefitId: benefit.id,
+        name: benefit.name,
+        claimableFrom: getClaimableFrom(policy.effectiveDate, days),
+      }
+    })
+
+    return { effectiveDate: policy.effectiveDate, periods, benefits }
+  }
+}
+
+export const waitingPeriodService = new WaitingPeriodService()
@@ -0,0 +1,174 @@
+import { z } from 'zod'
+import {
+  calculateQuote,
+  calculateRiskFactors,
+  getCityTierMultiplier,
+  QuoteInput,
+  QuoteInputObjectSchema,
+  refineQuoteMembers,
+} from './quote-engine'
+import { getActiveRatingTables } from './rating-tables'
+
+// Constants
+const LAKH = 100000
+
+// Cover a single healthy adult in a base-tier city should carry
+const BASE_SUM_INSURED = 5 * LAKH
+
+// Coverage levels priced when the caller does not ask for specific ones
+export const SUM_INSURED_LEVELS = [3, 5, 7.5, 10, 15, 20, 25, 50].map(l => l * LAKH)
+
+// Types
+export type SumInsuredInput = Omit<QuoteInput, 'coverageAmount'> & {
+  coverageAmount?: number
+}
+
+export interface SumInsuredRecommendation {
+  recommendedCoverage: number
+  estimatedNeed: number
+  factors: {
+    cityMultiplier: number
+    ageRisk: number
+    medicalRisk: number
+    memberFactor: number
+  }
+  reasons: string[]
+}
+
+export interface PremiumCurvePoint {
+  coverageAmount: number
+  premium: number // cheapest matching plan, or the benchmark when none matches
+  benchmarkPremium: number
+  planCount: number
+  cheapestPlan: {
+    planId: string
+    planName: string
+    insurerName: string
+  } | null
+  marginalCostPerLakh: number | null // extra premium per lakh over the previous level
+}
+
+export interface SumInsuredResult extends SumInsuredRecommendation {
+  pricedAt: string
+  curve: PremiumCurvePoint[]
+}
+
+export const SumInsuredInputSchema = QuoteInputObjectSchema.extend({
+  coverageAmount: z.number().min(100000).optional(),
+  coverageLevels: z.array(z.number().min(100000)).min(2).max(10).optional(),
+}).superRefine(refineQuoteMembers)
+
+const formatLakhs = (amount: number) => `₹${amount / LAKH}L`
+
+/**
+ * Estimates how much cover the proposer needs: a base sum insured scaled by
+ * hospital costs in their city tier, the number and ages of members covered
+ * and their declared conditions, rounded up to the next coverage level.
+ */
+export async function recommendSumInsured(
+  input: SumInsuredInput,
+  levels: number[] = SUM_INSURED_LEVELS
+): Promise<SumInsuredRecommendation> {
+  const { global: table } = await getActiveRatingTables([])
+
+  const cityMultiplier = getCityTierMultiplier(input.city, table)
+  const { ageRisk, medicalRisk, memberFactor } = calculateRiskFactors(
+    { ...input, coverageAmount: BASE_SUM_INSURED },
+    table
+  )
+
+  const estimatedNeed = Math.round(
+    BASE_SUM_INSURED * cityMultiplier * memberFactor * ageRisk * medicalRisk
+  )
+  const sortedLevels = [...levels].sort((a, b) => a - b)
+  const recommendedCoverage =
+    sortedLevels.find(level => level >= estimatedNeed) ?? sortedLevels[sortedLevels.length - 1]
+
+  const reasons = [`Base cover of ${formatLakhs(BASE_SUM_INSURED)} per policy`]
+  if (cityMultiplier > 1) {
+    reasons.push(`Higher hospital costs in ${input.city} (×${cityMultiplier.toFixed(2)})`)
+  }
+  if (memberFactor > 1) {
+    reasons.push(`Shared family floater cover (×${memberFactor.toFixed(2)})`)
+  }
+  if (ageRisk > 1) {
+    reasons.push(`Age of the eldest member (×${ageRisk.toFixed(2)})`)
+  }
+  if (medicalRisk > 1) {
+    reasons.push(`Declared medical conditions (×${medicalRisk.toFixed(2)})`)
+  }
+
+  return {
+    recommendedCoverage,
+    estimatedNeed,
+    factors: { cityMultiplier, ageRisk, medicalRisk, memberFactor },
+    reasons,
+  }
+}
+
+/**
+ * Prices the proposer at each coverage level so the cost of every extra lakh
+ * of cover is visible. Every plan offering at least the lowest level is
+ * priced once, and each level takes the cheapest of those covering it, so
+ * the marginal cost always compares prices from the same priced set.
+ */
+export async function getPremiumCurve(
+  input: SumInsuredInput,
+  levels: number[] = SUM_INSURED_LEVELS
+): Promise<PremiumCurvePoint[]> {
+  const sortedLevels = Array.from(new Set(levels)).sort((a, b) => a - b)
+
+  const quote = await calculateQuote({ ...input, coverageAmount: sortedLevels[0] }, { limit: null })
+
+  const points = sortedLevels.map(coverageAmount => {
+    // Recommended plans come back cheapest first
+    const covering = quote.recommendedPlans.filter(plan => plan.coverageAmount >= coverageAmount)
+    const cheapest = covering[0]
+    // The benchmark is a flat rate on the cover, so it scales with the level
+    const benchmarkPremium = Math.round(quote.finalPremium * coverageAmount / quote.coverageAmount)
+    return { coverageAmount, cheapest, planCount: covering.length, benchmarkPremium }
+  })
+
+  return points.map((point, index) => {
+    const premium = point.cheapest?.premium ?? point.benchmarkPremium
+
+    // Plan prices and the benchmark are not comparable with each other
+    let marginalCostPerLakh: number | null = null
+    const previous = points[index - 1]
+    if (previous && Boolean(previous.cheapest) === Boolean(point.cheapest)) {
+      const previousPremium = previous.cheapest?.premium ?? previous.benchmarkPremium
+      const extraLakhs = (point.coverageAmount - previous.coverageAmount) / LAKH
+      marginalCostPerLakh = Math.round((premium - previousPremium) / extraLakhs)
+    }
+
+    return {
+      coverageAmount: point.coverageAmount,
+      premium,
+      benchmarkPremium: point.benchmarkPremium,
+      planCount: point.planCount,
+      cheapestPlan: point.cheapest
+        ? {
+            planId: point.cheapest.planId,
+            planName: point.cheapest.planName,
+            insurerName: point.cheapest.insurerName,
+          }
+        : null,
+      marginalCostPerLakh,
+    }
+  })
+}
+
+// Recommendation plus the premium curve around it
+export async function optimizeSumInsured(
+  input: SumInsuredInput,
+  levels: number[] = SUM_INSURED_LEVELS
+): Promise<SumInsuredResult> {
+  const pricedAt = new Date().toISOString()
+  const recommendation = await recommendSumInsured(input, levels)
+
+  // Make sure the customer's own choice shows up on the curve
+  const curveLevels = input.coverageAmount ? [...levels, input.coverageAmount] : levels
+  const curve = await getPremiumCurve(input, curveLevels)
+
+  return { ...recommendation, pricedAt, curve }
+}
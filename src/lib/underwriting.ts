@@ -0,0 +1,188 @@
+import { prisma } from './prisma'
+import { z } from 'zod'
+import { PlanType, UnderwritingDecision, UnderwritingRuleSet } from '@prisma/client'
+import { QuoteMember } from './quote-engine'
+
+// Outcomes a rule can force; anything no rule catches is accepted
+const RuleDecisionSchema = z.enum(['REFER', 'DECLINE'])
+
+// Underwriting rule validation - shared by the admin API and the rule loader
+export const UnderwritingRulesSchema = z.object({
+  // Conditions that together on one member need an underwriter, or cannot be covered
+  conditionCombinations: z.array(z.object({
+    conditions: z.array(z.string().min(1)).min(1),
+    decision: RuleDecisionSchema,
+    reason: z.string().min(1),
+  })),
+  // Entry ages per plan type: minAge applies to the proposer, maxAge to every member
+  ageLimits: z.array(z.object({
+    planType: z.nativeEnum(PlanType),
+    minAge: z.number().int().min(0).nullable(),
+    maxAge: z.number().int().min(0).nullable(),
+    decision: RuleDecisionSchema,
+  })),
+  // Largest sum insured available without review, by the eldest member's age
+  maxSumInsuredByAge: z.array(z.object({
+    maxAge: z.number().int().min(0).nullable(), // null = open-ended top band
+    maxSumInsured: z.number().positive(),
+    decision: RuleDecisionSchema,
+  })).min(1),
+  // Rated risk above this needs an underwriter whatever the cause
+  maxRiskFactor: z.number().positive().nullable(),
+})
+
+export type UnderwritingRules = z.infer<typeof UnderwritingRulesSchema>
+
+export type UnderwritingRule = 'CONDITION_COMBINATION' | 'AGE_LIMIT' | 'SUM_INSURED' | 'RISK_FACTOR'
+
+export interface UnderwritingReason {
+  rule: UnderwritingRule
+  decision: Exclude<UnderwritingDecision, 'ACCEPT'>
+  message: string
+}
+
+export interface ActiveUnderwritingRules extends UnderwritingRules {
+  id: string | null
+  version: number
+  effectiveFrom: string
+}
+
+export interface UnderwritingResult {
+  decision: UnderwritingDecision
+  reasons: UnderwritingReason[]
+  ruleSet: { id: string | null; version: number }
+}
+
+// Built-in fallback used when no rule set has been published yet
+export const DEFAULT_UNDERWRITING_RULES: ActiveUnderwritingRules = {
+  id: null,
+  version: 0,
+  effectiveFrom: new Date(0).toISOString(),
+  conditionCombinations: [
+    { conditions: ['cancer', 'heartDisease'], decision: 'DECLINE', reason: 'Cancer with heart disease' },
+    { conditions: ['diabetes', 'heartDisease'], decision: 'REFER', reason: 'Diabetes with heart disease' },
+    { conditions: ['diabetes', 'hypertension'], decision: 'REFER', reason: 'Diabetes with hypertension' },
+    { conditions: ['cancer'], decision: 'REFER', reason: 'History of cancer' },
+  ],
+  ageLimits: [
+    { planType: 'INDIVIDUAL', minAge: 18, maxAge: 65, decision: 'REFER' },
+    { planType: 'FAMILY', minAge: 18, maxAge: 65, decision: 'REFER' },
+    { planType: 'SENIOR', minAge: 60, maxAge: 80, decision: 'DECLINE' },
+    { planType: 'GROUP', minAge: 18, maxAge: 65, decision: 'DECLINE' },
+  ],
+  maxSumInsuredByAge: [
+    { maxAge: 45, maxSumInsured: 10000000, decision: 'REFER' },
+    { maxAge: 60, maxSumInsured: 5000000, decision: 'REFER' },
+    { maxAge: 70, maxSumInsured: 2500000, decision: 'REFER' },
+    { maxAge: null, maxSumInsured: 1000000, decision: 'REFER' },
+  ],
+  maxRiskFactor: 3.0,
+}
+
+const MEMBER_LABELS: Record<QuoteMember['relationship'], string> = {
+  SELF: 'Proposer',
+  SPOUSE: 'Spouse',
+  CHILD: 'Child',
+  PARENT: 'Parent',
+  PARENT_IN_LAW: 'Parent-in-law',
+  SIBLING: 'Sibling',
+  OTHER: 'Member',
+}
+
+// Condition codes are compared loosely, e.g. "Heart Disease" matches heartDisease
+export const normalizeCondition = (condition: string) => condition.toLowerCase().replace(/[^a-z]/g, '')
+
+/**
+ * Runs the underwriting rules against a rated plan. Every rule that fires is
+ * reported; the most severe outcome decides, so one DECLINE outweighs any
+ * number of referrals.
+ */
+export function evaluateUnderwriting(
+  members: QuoteMember[],
+  plan: { planType: PlanType; coverageAmount: number },
+  riskFactor: number,
+  rules: ActiveUnderwritingRules = DEFAULT_UNDERWRITING_RULES
+): UnderwritingResult {
+  const reasons: UnderwritingReason[] = []
+
+  for (const member of members) {
+    const conditions = new Set((member.medicalConditions ?? []).map(normalizeCondition))
+    // Only the first matching combination per member, so a declined pair is
+    // not also referred for one of its conditions
+    const combination = rules.conditionCombinations.find(c =>
+      c.conditions.every(condition => conditions.has(normalizeCondition(condition)))
+    )
+    if (combination) {
+      reasons.push({
+        rule: 'CONDITION_COMBINATION',
+        decision: combination.decision,
+        message: `${MEMBER_LABELS[member.relationship]}: ${combination.reason}`,
+      })
+    }
+  }
+
+  const ageLimit = rules.ageLimits.find(limit => limit.planType === plan.planType)
+  if (ageLimit) {
+    const proposer = members.find(m => m.relationship === 'SELF') ?? members[0]
+    if (ageLimit.minAge !== null && proposer.age < ageLimit.minAge) {
+      reasons.push({
+        rule: 'AGE_LIMIT',
+        decision: ageLimit.decision,
+        message: `${plan.planType} plans need the proposer to be at least ${ageLimit.minAge}`,
+      })
+    }
+    const maxAge = ageLimit.maxAge
+    if (maxAge !== null) {
+      for (const member of members.filter(m => m.age > maxAge)) {
+        reasons.push({
+          rule: 'AGE_LIMIT',
+          decision: ageLimit.decision,
+          message: `${MEMBER_LABELS[member.relationship]} aged ${member.age} is above the ${plan.planType} entry age of ${maxAge}`,
+        })
+      }
+    }
+  }
+
+  const eldestAge = Math.max(...members.map(m => m.age))
+  const bands = [...rules.maxSumInsuredByAge].sort((a, b) => (a.maxAge ?? Infinity) - (b.maxAge ?? Infinity))
+  const band = bands.find(b => b.maxAge === null || eldestAge <= b.maxAge) ?? bands[bands.length - 1]
+  if (plan.coverageAmount > band.maxSumInsured) {
+    reasons.push({
+      rule: 'SUM_INSURED',
+      decision: band.decision,
+      message: `Sum insured of ₹${plan.coverageAmount.toLocaleString('en-IN')} is above the ₹${band.maxSumInsured.toLocaleString('en-IN')} limit at age ${eldestAge}`,
+    })
+  }
+
+  if (rules.maxRiskFactor !== null && riskFactor > rules.maxRiskFactor) {
+    reasons.push({
+      rule: 'RISK_FACTOR',
+      decision: 'REFER',
+      message: `Rated risk of ${riskFactor.toFixed(2)} is above ${rules.maxRiskFactor}`,
+    })
+  }
+
+  const decision: UnderwritingDecision = reasons.some(r => r.decision === 'DECLINE')
+    ? 'DECLINE'
+    : reasons.length ? 'REFER' : 'ACCEPT'
+
+  return { decision, reasons, ruleSet: { id: rules.id, version: rules.version } }
+}
+
+function toActiveUnderwritingRules(row: UnderwritingRuleSet): ActiveUnderwritingRules {
+  return {
+    ...UnderwritingRulesSchema.parse(row.rules),
+    id: row.id,
+    version: row.version,
+    effectiveFrom: row.effectiveFrom.toISOString(),
+  }
+}
+
+// The rule set active at `asOf`; the built-in defaults apply when none has been published
+export async function getActiveUnderwritingRules(asOf: Date = new Date()): Promise<ActiveUnderwritingRules> {
+  const row = await prisma.underwritingRuleSet.findFirst({
+    where: { effectiveFrom: { lte: asOf } },
+    orderBy: [{ effectiveFrom: 'desc' }, { version: 'desc' }],
+  })
+  return row ? toActiveUnderwritingRules(row) : DEFAULT_UNDERWRITING_RULES
+}
@@ -0,0 +1,135 @@
+import { Prisma, PolicyWaitingPeriod, WaitingPeriod, WaitingPeriodType } from '@prisma/client'
+import { getQuoteMembers, QuoteInput } from './quote-engine'
+import { normalizeCondition } from './underwriting'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Types
+export interface DeclaredCondition {
+  condition: string
+  memberRelationship: string
+}
+
+export type PolicyWaitingPeriodRow = Omit<Prisma.PolicyWaitingPeriodCreateManyInput, 'policyId'>
+
+export type AppliedWaitingPeriod = Pick<
+  PolicyWaitingPeriod,
+  'type' | 'condition' | 'benefitId' | 'memberRelationship' | 'days'
+>
+
+export interface ClaimIncident {
+  incidentDate: Date
+  condition?: string | null
+  benefitId?: string | null
+  isAccident?: boolean
+}
+
+export interface WaitingPeriodViolation {
+  type: WaitingPeriodType
+  condition: string | null
+  benefitId: string | null
+  claimableFrom: string
+  message: string
+}
+
+// Conditions each member declared on the quote, once per member
+export function getDeclaredConditions(input: QuoteInput): DeclaredCondition[] {
+  const declared = getQuoteMembers(input).flatMap(member =>
+    (member.medicalConditions ?? [])
+      .filter(condition => condition !== 'none')
+      .map(condition => ({ condition, memberRelationship: member.relationship }))
+  )
+
+  return declared.filter((item, index) =>
+    declared.findIndex(other =>
+      other.memberRelationship === item.memberRelationship &&
+      normalizeCondition(other.condition) === normalizeCondition(item.condition)
+    ) === index
+  )
+}
+
+/**
+ * The plan's waiting periods as they apply to a new policy. Specific-disease
+ * periods get one row per listed condition; pre-existing periods get one row
+ * per declared condition, limited to the listed conditions when there are any.
+ */
+export function buildPolicyWaitingPeriods(
+  periods: WaitingPeriod[],
+  declared: DeclaredCondition[]
+): PolicyWaitingPeriodRow[] {
+  return periods.flatMap((period): PolicyWaitingPeriodRow[] => {
+    const base = {
+      waitingPeriodId: period.id,
+      type: period.type,
+      benefitId: period.benefitId,
+      days: period.days,
+    }
+
+    switch (period.type) {
+      case 'INITIAL':
+        return [{ ...base, condition: null, memberRelationship: null }]
+      case 'SPECIFIC_DISEASE':
+        return period.conditions.map(condition => ({ ...base, condition, memberRelationship: null }))
+      case 'PRE_EXISTING': {
+        const listed = new Set(period.conditions.map(normalizeCondition))
+        return declared
+          .filter(item => !listed.size || listed.has(normalizeCondition(item.condition)))
+          .map(item => ({ ...base, condition: item.condition, memberRelationship: item.memberRelationship }))
+      }
+    }
+  })
+}
+
+export function getClaimableFrom(effectiveDate: Date, days: number): Date {
+  return new Date(effectiveDate.getTime() + days * DAY_MS)
+}
+
+// Whether a waiting period covers the claimed incident at all
+const appliesTo = (period: AppliedWaitingPeriod, incident: ClaimIncident): boolean => {
+  if (period.benefitId && period.benefitId !== incident.benefitId) return false
+
+  if (period.type === 'INITIAL') {
+    return !incident.isAccident
+  }
+  return Boolean(
+    period.condition &&
+    incident.condition &&
+    normalizeCondition(period.condition) === normalizeCondition(incident.condition)
+  )
+}
+
+const describeViolation = (period: AppliedWaitingPeriod, claimableFrom: string): string => {
+  if (period.type === 'PRE_EXISTING') {
+    const member = period.memberRelationship?.replace(/_/g, ' ').toLowerCase() ?? 'a member'
+    return `${period.condition} was declared as a pre-existing condition for ${member} and is covered from ${claimableFrom}`
+  }
+  if (period.type === 'SPECIFIC_DISEASE') {
+    return `${period.condition} has a ${period.days}-day waiting period and is covered from ${claimableFrom}`
+  }
+  if (period.benefitId) {
+    return `The benefit claimed has a ${period.days}-day waiting period and is covered from ${claimableFrom}`
+  }
+  return `Illnesses are covered from ${claimableFrom}, ${period.days} days after the policy started; only accidents are covered before then`
+}
+
+// Waiting periods still running on the incident date, each with an explanation
+export function checkWaitingPeriods(
+  effectiveDate: Date,
+  periods: AppliedWaitingPeriod[],
+  incident: ClaimIncident
+): WaitingPeriodViolation[] {
+  return periods
+    .filter(period => appliesTo(period, incident))
+    .map(period => ({ period, claimableFrom: getClaimableFrom(effectiveDate, period.days) }))
+    .filter(({ claimableFrom }) => incident.incidentDate < claimableFrom)
+    .map(({ period, claimableFrom }) => {
+      const date = claimableFrom.toISOString().slice(0, 10)
+      return {
+        type: period.type,
+        condition: period.condition,
+        benefitId: period.benefitId,
+        claimableFrom: date,
+        message: describeViolation(period, date),
+      }
+    })
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { claimService } from '@/lib/services/claims-service';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(jest.requireMock('@/lib/prisma').prisma)),
+    policy: { findFirst: jest.fn() },
+    claim: { create: jest.fn() },
+    document: { updateMany: jest.fn() },
+  },
+}));
+
+jest.mock('@/lib/coins', () => ({
+  CoinService: { getInstance: () => ({ earnCoins: jest.fn() }) },
+}));
+
+const policy = (status: string) => ({
+  id: 'policy-1',
+  status,
+  effectiveDate: new Date('2024-01-01T00:00:00.000Z'),
+  expirationDate: new Date('2024-12-31T00:00:00.000Z'),
+  waitingPeriods: [],
+});
+
+const claim = {
+  policyId: 'policy-1',
+  type: 'REIMBURSEMENT' as const,
+  incidentDate: new Date('2024-06-01T00:00:00.000Z'),
+  isAccident: true,
+  claimAmount: 25000,
+};
+
+describe('ClaimService.submitClaim', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.claim.create as jest.Mock).mockResolvedValue({ id: 'claim-1' });
+  });
+
+  it('refuses claims on policies that are not in force', async () => {
+    (prisma.policy.findFirst as jest.Mock).mockResolvedValue(policy('LAPSED'));
+
+    await expect(claimService.submitClaim('user-1', claim)).rejects.toThrow('Policy is not in force');
+    expect(prisma.claim.create).not.toHaveBeenCalled();
+  });
+
+  it("moves the user's uploaded documents onto the new claim", async () => {
+    (prisma.policy.findFirst as jest.Mock).mockResolvedValue(policy('GRACE_PERIOD'));
+    (prisma.document.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+    await claimService.submitClaim('user-1', { ...claim, documentIds: ['doc-1', 'doc-2'] });
+
+    expect(prisma.document.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['doc-1', 'doc-2'] }, uploadedById: 'user-1' },
+      data: { entityType: 'CLAIM', entityId: 'claim-1', claimId: 'claim-1' },
+    });
+  });
+
+  it('rejects documents the user did not upload', async () => {
+    (prisma.policy.findFirst as jest.Mock).mockResolvedValue(policy('ACTIVE'));
+    (prisma.document.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    await expect(claimService.submitClaim('user-1', { ...claim, documentIds: ['doc-1', 'doc-9'] }))
+      .rejects.toThrow('Document not found or unauthorized');
+  });
+});
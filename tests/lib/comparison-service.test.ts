@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { comparisonService, SHARE_LINK_VALIDITY_DAYS } from '@/lib/services/comparison-service';
+import { calculateQuote, QuoteInput } from '@/lib/quote-engine';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    planComparison: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/quote-engine', () => ({
+  ...jest.requireActual<object>('@/lib/quote-engine'),
+  calculateQuote: jest.fn(),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ComparisonService share links', () => {
+  const comparison = {
+    id: '6f1c2d9e-3b4a-4c5d-8e7f-0a1b2c3d4e5f',
+    shareExpiresAt: new Date(Date.now() + SHARE_LINK_VALIDITY_DAYS * DAY_MS),
+  };
+
+  beforeAll(() => {
+    process.env.SHARE_LINK_SECRET = 'test-share-secret';
+  });
+
+  it('verifies a token it signed until the link expires', () => {
+    const token = comparisonService.createShareToken(comparison)!;
+
+    expect(comparisonService.verifyShareToken(token)).toBe(comparison.id);
+    expect(
+      comparisonService.verifyShareToken(token, new Date(comparison.shareExpiresAt.getTime() + 1000))
+    ).toBeNull();
+  });
+
+  it('rejects tokens whose snapshot ID or expiry was altered', () => {
+    const token = comparisonService.createShareToken(comparison)!;
+    const [id, expires, signature] = token.split('.');
+    const laterExpiry = Number(expires) + 30 * 24 * 60 * 60;
+
+    expect(comparisonService.verifyShareToken(`${id}.${laterExpiry}.${signature}`)).toBeNull();
+    expect(comparisonService.verifyShareToken(`other-id.${expires}.${signature}`)).toBeNull();
+    expect(comparisonService.verifyShareToken('not-a-token')).toBeNull();
+  });
+
+  it('has no share link without an expiry', () => {
+    expect(comparisonService.getShareUrl({ id: comparison.id, shareExpiresAt: null })).toBeNull();
+  });
+});
+
+describe('ComparisonService pricing', () => {
+  it('prices a saved quote\'s comparison with the tables it was quoted on', async () => {
+    const pricedAt = new Date('2024-07-01T00:00:00.000Z');
+    (calculateQuote as jest.Mock).mockResolvedValue({
+      recommendedPlans: [{ planId: 'plan-b' }, { planId: 'plan-a' }],
+      pricedAt: pricedAt.toISOString(),
+    });
+
+    const result = await comparisonService.priceComparison(['plan-a', 'plan-b'], {} as QuoteInput, { asOf: pricedAt });
+
+    expect(calculateQuote).toHaveBeenCalledWith({}, { planIds: ['plan-a', 'plan-b'], asOf: pricedAt });
+    expect(result).toEqual({
+      premiums: [{ planId: 'plan-a' }, { planId: 'plan-b' }],
+      pricedAt: pricedAt.toISOString(),
+    });
+  });
+});
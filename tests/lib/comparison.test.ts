@@ -0,0 +1,127 @@
+import { describe, it, expect } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+import {
+  analyseNetworkOverlap,
+  buildComparison,
+  canonicalBenefitName,
+  ComparablePlan,
+  rateValues,
+} from '@/lib/comparison';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+const hospital = (id: string, city: string, cashless = true, coordinates?: { latitude: number; longitude: number }) => ({
+  cashless,
+  hospital: { id, name: `Hospital ${id}`, address: { city, coordinates }, specialties: [], rating: 4 },
+});
+
+const plan = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: `Plan ${id}`,
+  planType: 'INDIVIDUAL',
+  coverageAmount: new Prisma.Decimal(500000),
+  premiumAmount: new Prisma.Decimal(9000),
+  deductible: new Prisma.Decimal(0),
+  features: {},
+  insurer: { id: 'insurer-1', name: 'Acme Health', logo: null, rating: 4, establishedYear: 2001 },
+  benefits: [],
+  waitingPeriods: [],
+  networkHospitals: [],
+  _count: { policies: 0, networkHospitals: 0 },
+  ...overrides,
+}) as unknown as ComparablePlan;
+
+const benefit = (name: string, coverageAmount: number) => ({ name, coverageAmount, status: 'ACTIVE' });
+
+describe('plan comparison matrix', () => {
+  it('gives the same key to one benefit named differently by each insurer', () => {
+    expect(canonicalBenefitName('Hospitalisation Cover')).toBe('hospitalization');
+    expect(canonicalBenefitName('In-patient Hospitalization')).toBe('hospitalization');
+    expect(canonicalBenefitName('Pre & Post Hospitalisation Expenses')).toBe('pre and post hospitalization');
+  });
+
+  it('rates values against the other plans in the direction that favours the customer', () => {
+    expect(rateValues([9000, 12000], 'lower')).toEqual(['better', 'worse']);
+    expect(rateValues([500000, 500000, 500000], 'higher')).toEqual(['equal', 'equal', 'equal']);
+    expect(rateValues([Infinity, 5000, null], 'higher')).toEqual(['better', 'worse', null]);
+  });
+
+  it('lines up benefits, waiting periods and sub-limits across plans', () => {
+    const { matrix } = buildComparison([
+      plan('a', {
+        benefits: [benefit('Hospitalisation Cover', 500000)],
+        waitingPeriods: [{ type: 'PRE_EXISTING', days: 1095, benefitId: null, benefit: null }],
+        features: { benefits: { roomRent: { limit: 5000, subLimit: 'per day' } }, coPay: 20 },
+      }),
+      plan('b', {
+        benefits: [benefit('In-patient Hospitalization', 500000), benefit('Maternity', 50000)],
+        waitingPeriods: [{ type: 'PRE_EXISTING', days: 730, benefitId: null, benefit: null }],
+      }),
+    ]);
+
+    expect(matrix.benefits.items.map(item => item.label)).toEqual(['Hospitalisation Cover', 'Maternity']);
+    expect(matrix.benefits.items[0].differs).toBe(false);
+    expect(matrix.benefits.items[1].values.map(value => value.rating)).toEqual(['worse', 'better']);
+
+    const preExisting = matrix.waitingPeriods.items.find(item => item.key === 'waiting:preExisting')!;
+    expect(preExisting.values.map(value => value.rating)).toEqual(['worse', 'better']);
+
+    const roomRent = matrix.subLimits.items.find(item => item.key === 'subLimit:roomRent')!;
+    expect(roomRent.values.map(value => value.displayValue)).toEqual(['₹5,000 per day', 'No sub-limit']);
+    expect(roomRent.values.map(value => value.rating)).toEqual(['worse', 'better']);
+
+    const coPay = matrix.costSharing.items.find(item => item.key === 'coPay')!;
+    expect(coPay.values.map(value => value.rating)).toEqual(['worse', 'better']);
+  });
+
+  it('counts network overlap in the chosen city and can drop rows that do not differ', () => {
+    const { matrix, city } = buildComparison([
+      plan('a', { networkHospitals: [hospital('h1', 'Pune'), hospital('h2', 'Pune'), hospital('h3', 'Mumbai')] }),
+      plan('b', { networkHospitals: [hospital('h1', 'pune'), hospital('h3', 'Mumbai')] }),
+    ], { city: 'Pune', differencesOnly: true });
+
+    expect(city).toBe('Pune');
+    const rows = Object.fromEntries(matrix.network.items.map(item => [item.key, item.values.map(v => v.value)]));
+    expect(rows['network:hospitals']).toEqual([2, 1]);
+    expect(rows['network:unique']).toEqual([1, 0]);
+    // Both plans share h1, so the row is the same and is left out
+    expect(rows['network:shared']).toBeUndefined();
+    expect(matrix.basicInfo.items).toEqual([]);
+  });
+
+  it('checks chosen hospitals against each network and finds shared and unique ones', () => {
+    const plans = [
+      plan('a', { networkHospitals: [hospital('h1', 'Pune'), hospital('h2', 'Pune', false)] }),
+      plan('b', { networkHospitals: [hospital('h1', 'Pune', false), hospital('h3', 'Pune')] }),
+    ];
+    const chosen = ['h1', 'h2', 'h3', 'h4'].map(id => ({ id, name: `Hospital ${id}`, address: { city: 'Pune' }, latitude: null, longitude: null }));
+
+    const overlap = analyseNetworkOverlap(plans, { hospitals: chosen });
+
+    expect(overlap.sharedHospitalIds).toEqual(['h1']);
+    expect(overlap.plans[0]).toMatchObject({ inNetworkCount: 2, cashlessCount: 1, uniqueHospitalIds: ['h2'] });
+    expect(overlap.plans[1]).toMatchObject({ inNetworkCount: 2, cashlessCount: 1, uniqueHospitalIds: ['h3'] });
+    expect(overlap.plans[0].hospitals[1]).toEqual({ hospitalId: 'h2', inNetwork: true, cashless: false });
+    expect(overlap.hospitals[0].distanceKm).toBeNull();
+  });
+
+  it('uses network hospitals within the radius of a location, nearest first', () => {
+    const plans = [
+      plan('a', { networkHospitals: [
+        hospital('far', 'Mumbai', true, { latitude: 19.076, longitude: 72.8777 }),
+        hospital('near', 'Pune', true, { latitude: 18.53, longitude: 73.85 }),
+        hospital('nowhere', 'Pune'),
+      ] }),
+      plan('b', { networkHospitals: [hospital('next', 'Pune', true, { latitude: 18.52, longitude: 73.86 })] }),
+    ];
+
+    const { networkOverlap, matrix } = buildComparison(plans, { location: { lat: 18.5204, lng: 73.8567 } });
+
+    expect(networkOverlap!.radiusKm).toBe(10);
+    expect(networkOverlap!.hospitals.map(h => h.id)).toEqual(['next', 'near']);
+    expect(networkOverlap!.hospitals[1].distanceKm).toBeCloseTo(1.3, 1);
+    expect(matrix.preferredHospitals.items[0].values.map(v => v.displayValue)).toEqual(['1 of 2', '1 of 2']);
+  });
+});
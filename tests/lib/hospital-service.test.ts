@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { hospitalService } from '@/lib/services/hospital-service';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    hospital: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    policy: {
+      findMany: jest.fn(),
+    },
+    locationCentroid: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+    },
+  },
+}));
+
+const hospital = (id: string, latitude: number | null, longitude: number | null, address: object = {}) => ({
+  id,
+  name: `Hospital ${id}`,
+  address,
+  latitude,
+  longitude,
+  networkPlans: [],
+});
+
+// Andheri, Mumbai
+const center = { lat: 19.1136, lng: 72.8697 };
+
+describe('hospital service geospatial search', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('pre-filters on a bounding box, then keeps hospitals inside the radius nearest first', async () => {
+    (prisma.hospital.findMany as jest.Mock).mockResolvedValue([
+      hospital('far', 19.1136, 72.9130), // ~4.5 km east, in the box but outside 4 km
+      hospital('edge', 19.1500, 72.8697), // ~4.05 km north, rounds to 4.0 but is outside
+      hospital('near', 19.1236, 72.8697), // ~1.1 km north
+      hospital('here', 19.1136, 72.8697),
+    ]);
+
+    const nearby = await hospitalService.getNearbyHospitals(center.lat, center.lng, 4);
+
+    expect(nearby.map(h => [h.id, h.distanceKm])).toEqual([['here', 0], ['near', 1.1]]);
+    const { where } = (prisma.hospital.findMany as jest.Mock).mock.calls[0][0] as any;
+    expect(where.AND[1].latitude.gte).toBeCloseTo(center.lat - 4 / 111.32);
+    expect(where.AND[2].longitude.lte).toBeGreaterThan(center.lng + 4 / 111.32);
+  });
+
+  it('places hospitals without coordinates at their pincode or city centre', async () => {
+    (prisma.hospital.findMany as jest.Mock).mockResolvedValue([
+      hospital('pin', null, null, { city: 'Mumbai', pincode: '400 069' }),
+      hospital('own', null, null, { coordinates: { latitude: 19.07, longitude: 72.87 } }),
+      hospital('lost', null, null, { city: 'Atlantis' }),
+    ]);
+    (prisma.locationCentroid.findUnique as jest.Mock).mockImplementation((args: any) =>
+      Promise.resolve(args.where.pincode === '400069' ? { latitude: 19.11, longitude: 72.86 } : null)
+    );
+    (prisma.locationCentroid.findFirst as jest.Mock).mockResolvedValue(null);
+
+    const result = await hospitalService.geocodeMissingCoordinates();
+
+    expect(result).toEqual({ geocoded: 2, unresolved: [{ id: 'lost', name: 'Hospital lost' }] });
+    expect(prisma.hospital.update).toHaveBeenCalledWith({
+      where: { id: 'pin' },
+      data: { latitude: 19.11, longitude: 72.86, locationSource: 'PINCODE' },
+    });
+    expect(prisma.hospital.update).toHaveBeenCalledWith({
+      where: { id: 'own' },
+      data: { latitude: 19.07, longitude: 72.87, locationSource: 'ADDRESS' },
+    });
+  });
+
+  it('groups plans on sale by insurer and says how each in-force policy is treated', async () => {
+    const listing = (planId: string, cashless: boolean, status = 'ACTIVE', insurer = 'Acme Health') => ({
+      cashless,
+      plan: {
+        id: planId,
+        name: `Plan ${planId}`,
+        planType: 'INDIVIDUAL',
+        status,
+        insurer: { id: insurer, name: insurer, logo: null, rating: 4 },
+      },
+    });
+    (prisma.hospital.findUnique as jest.Mock).mockResolvedValue({
+      ...hospital('h-1', 19.1, 72.8),
+      specialties: ['Cardiology'],
+      rating: 4.2,
+      networkPlans: [
+        listing('reimburse', false),
+        listing('cashless', true),
+        listing('archived', true, 'ARCHIVED'),
+        listing('draft', true, 'DRAFT', 'Beta Insurance'),
+      ],
+    });
+    (prisma.policy.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', policyNumber: 'POL-1', planId: 'archived', plan: { name: 'Plan archived' } },
+      { id: 'p-2', policyNumber: 'POL-2', planId: 'reimburse', plan: { name: 'Plan reimburse' } },
+      { id: 'p-3', policyNumber: 'POL-3', planId: 'elsewhere', plan: { name: 'Plan elsewhere' } },
+    ]);
+
+    const profile = await hospitalService.getHospitalProfile('h-1', 'customer-1');
+
+    expect(profile?.insurers).toEqual([{
+      id: 'Acme Health',
+      name: 'Acme Health',
+      logo: null,
+      rating: 4,
+      plans: [
+        { planId: 'cashless', planName: 'Plan cashless', planType: 'INDIVIDUAL', cashless: true },
+        { planId: 'reimburse', planName: 'Plan reimburse', planType: 'INDIVIDUAL', cashless: false },
+      ],
+    }]);
+    expect(profile).toMatchObject({ cashlessPlanCount: 1, reimbursementPlanCount: 1 });
+    expect(profile?.policies?.map(p => [p.policyNumber, p.status])).toEqual([
+      ['POL-1', 'CASHLESS'],
+      ['POL-2', 'REIMBURSEMENT'],
+      ['POL-3', 'OUT_OF_NETWORK'],
+    ]);
+    expect((prisma.policy.findMany as jest.Mock).mock.calls[0][0]).toMatchObject({
+      where: { customerId: 'customer-1', status: { in: ['ACTIVE', 'GRACE_PERIOD'] } },
+    });
+  });
+});
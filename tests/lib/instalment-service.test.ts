@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { buildInstalmentSchedule, instalmentService } from '@/lib/services/instalment-service';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(jest.requireMock('@/lib/prisma').prisma)),
+    policy: {
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) => Promise.resolve({ id: 'policy-1', ...data })),
+    },
+    policyInstalment: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: 'instalment-2', dueDate: new Date('2024-02-01T00:00:00Z'), ...data })
+      ),
+      count: jest.fn(),
+    },
+    payment: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+describe('InstalmentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.policyInstalment.findFirst as jest.Mock).mockResolvedValue({
+      id: 'instalment-2',
+      sequence: 2,
+      dueDate: new Date('2024-02-01T00:00:00Z'),
+    });
+  });
+
+  it('builds equal instalments spaced by the payment interval', () => {
+    const schedule = buildInstalmentSchedule(1050, 'QUARTERLY', new Date('2024-01-15T00:00:00Z'));
+
+    expect(schedule).toHaveLength(4);
+    expect(schedule.map(i => i.dueDate.toISOString().slice(0, 10))).toEqual([
+      '2024-01-15',
+      '2024-04-15',
+      '2024-07-15',
+      '2024-10-15',
+    ]);
+    expect(schedule.every(i => i.amount === 1050)).toBe(true);
+  });
+
+  it('moves an active policy into its grace period when an instalment fails', async () => {
+    (prisma.policy.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+      id: 'policy-1',
+      status: 'ACTIVE',
+      paymentFrequency: 'MONTHLY',
+    });
+
+    const { policyStatus } = await instalmentService.recordFailure('policy-1', {
+      invoiceId: 'in_123',
+      asOf: new Date('2024-02-10T00:00:00Z'),
+    });
+
+    expect(policyStatus).toBe('GRACE_PERIOD');
+  });
+
+  it('lapses the policy once the grace period has run out', async () => {
+    (prisma.policy.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+      id: 'policy-1',
+      status: 'GRACE_PERIOD',
+      paymentFrequency: 'MONTHLY',
+    });
+
+    const { policyStatus } = await instalmentService.recordFailure('policy-1', {
+      asOf: new Date('2024-02-20T00:00:00Z'),
+    });
+
+    expect(policyStatus).toBe('LAPSED');
+  });
+
+  it('reactivates a policy in grace once the overdue instalment is paid', async () => {
+    (prisma.policy.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+      id: 'policy-1',
+      status: 'GRACE_PERIOD',
+      paymentFrequency: 'MONTHLY',
+    });
+    (prisma.policyInstalment.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.policyInstalment.count as jest.Mock).mockResolvedValueOnce(0).mockResolvedValueOnce(10);
+
+    const result = await instalmentService.recordPayment('policy-1', { invoiceId: 'in_456' });
+
+    expect(result.policyStatus).toBe('ACTIVE');
+    expect(result.remaining).toBe(10);
+  });
+
+  it('marks the failed instalment paid when the retry of the same invoice succeeds', async () => {
+    (prisma.policy.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+      id: 'policy-1',
+      status: 'ACTIVE',
+      paymentFrequency: 'MONTHLY',
+    });
+    await instalmentService.recordFailure('policy-1', {
+      invoiceId: 'in_789',
+      asOf: new Date('2024-02-05T00:00:00Z'),
+    });
+
+    (prisma.policy.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+      id: 'policy-1',
+      status: 'GRACE_PERIOD',
+      paymentFrequency: 'MONTHLY',
+    });
+    (prisma.policyInstalment.findUnique as jest.Mock).mockResolvedValue({
+      id: 'instalment-2',
+      status: 'FAILED',
+      stripeInvoiceId: 'in_789',
+    });
+    (prisma.policyInstalment.count as jest.Mock).mockResolvedValueOnce(0).mockResolvedValueOnce(10);
+
+    const result = await instalmentService.recordPayment('policy-1', { invoiceId: 'in_789' });
+
+    expect(prisma.policyInstalment.update).toHaveBeenLastCalledWith({
+      where: { id: 'instalment-2' },
+      data: expect.objectContaining({ status: 'PAID', stripeInvoiceId: 'in_789' }),
+    });
+    expect(result.policyStatus).toBe('ACTIVE');
+  });
+
+  it('ignores a repeated delivery of an invoice that was already paid', async () => {
+    (prisma.policy.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+      id: 'policy-1',
+      status: 'ACTIVE',
+      paymentFrequency: 'MONTHLY',
+    });
+    (prisma.policyInstalment.findUnique as jest.Mock).mockResolvedValue({
+      id: 'instalment-1',
+      status: 'PAID',
+      stripeInvoiceId: 'in_111',
+    });
+    (prisma.policyInstalment.count as jest.Mock).mockResolvedValue(11);
+
+    const result = await instalmentService.recordPayment('policy-1', { invoiceId: 'in_111' });
+
+    expect(prisma.policyInstalment.update).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ instalment: { id: 'instalment-1' }, remaining: 11 });
+  });
+
+  it('records a payment for each later instalment collected, once', async () => {
+    (prisma.policy.findUniqueOrThrow as jest.Mock).mockResolvedValue({
+      id: 'policy-1',
+      customerId: 'customer-1',
+      status: 'ACTIVE',
+      paymentFrequency: 'MONTHLY',
+    });
+    (prisma.policyInstalment.findUnique as jest.Mock).mockResolvedValueOnce(null);
+    (prisma.policyInstalment.count as jest.Mock).mockResolvedValue(10);
+
+    await instalmentService.recordPayment('policy-1', { invoiceId: 'in_222', amount: 1050 });
+
+    expect(prisma.payment.create).toHaveBeenCalledWith({
+      data: {
+        policyId: 'policy-1',
+        customerId: 'customer-1',
+        amount: 1050,
+        status: 'COMPLETED',
+        paymentMethod: 'STRIPE',
+        transactionId: 'in_222',
+      },
+    });
+
+    (prisma.policyInstalment.findUnique as jest.Mock).mockResolvedValueOnce({
+      id: 'instalment-2',
+      status: 'PAID',
+      stripeInvoiceId: 'in_222',
+    });
+    await instalmentService.recordPayment('policy-1', { invoiceId: 'in_222', amount: 1050 });
+
+    expect(prisma.payment.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves the due dates to run from the date cover started', async () => {
+    (prisma.policy.findUniqueOrThrow as jest.Mock).mockResolvedValue({ paymentFrequency: 'QUARTERLY' });
+    (prisma.policyInstalment.findMany as jest.Mock).mockResolvedValue([
+      { id: 'instalment-1', sequence: 1 },
+      { id: 'instalment-2', sequence: 2 },
+    ]);
+
+    await instalmentService.rescheduleFrom(prisma as never, 'policy-1', new Date('2024-03-10T00:00:00Z'));
+
+    expect((prisma.policyInstalment.update as jest.Mock).mock.calls.map(([args]) => args)).toEqual([
+      { where: { id: 'instalment-1' }, data: { dueDate: new Date('2024-03-10T00:00:00Z') } },
+      { where: { id: 'instalment-2' }, data: { dueDate: new Date('2024-06-10T00:00:00Z') } },
+    ]);
+  });
+});
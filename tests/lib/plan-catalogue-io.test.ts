@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseCatalogueCsv,
+  parseCatalogueJson,
+  parseCsv,
+  PlanImport,
+  toCatalogueCsv,
+} from '@/lib/plan-catalogue-io';
+
+const insurerId = '7b0c7a52-5f7e-4a51-9c55-0d1a4f0f2a11';
+const hospitalId = 'c1f3e9a4-2b1d-4a8e-9f3b-6a2d8e7c5b10';
+
+const plan: PlanImport = {
+  planCode: 'GOLD-IND',
+  name: 'Gold Individual',
+  description: 'Cover for one adult, with "cashless" claims',
+  planType: 'INDIVIDUAL',
+  insurerId,
+  coverageAmount: 500000,
+  premiumAmount: 9000,
+  deductible: 5000,
+  features: { roomRent: 'single, private' },
+  benefits: [
+    {
+      name: 'Hospitalization',
+      description: 'In-patient care',
+      coverageAmount: 500000,
+      conditions: { roomRentCap: 5000, excludes: ['cosmetic, elective'] },
+    },
+    { name: 'Maternity', description: 'Delivery and newborn care', coverageAmount: 50000, waitingPeriod: 730 },
+  ],
+  waitingPeriods: [
+    { type: 'INITIAL', days: 30, conditions: [] },
+    { type: 'SPECIFIC_DISEASE', days: 365, conditions: ['cataract', 'hernia'], description: 'Listed illnesses' },
+    { type: 'INITIAL', days: 730, conditions: [], benefitName: 'Maternity' },
+  ],
+  networkHospitals: [{ hospitalId, cashless: false }],
+};
+
+describe('plan catalogue files', () => {
+  it('splits quoted CSV cells containing commas, quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""\nthere"\r\nd,,e')).toEqual([
+      ['a', 'b, c', 'say "hi"\nthere'],
+      ['d', '', 'e'],
+    ]);
+  });
+
+  it('reads back an exported CSV as the same plans', () => {
+    const { records, errors } = parseCatalogueCsv(toCatalogueCsv([plan]));
+
+    expect(errors).toEqual([]);
+    expect(records).toHaveLength(1);
+    expect(records[0].row).toBe(2);
+    expect(records[0].plan).toMatchObject({
+      ...plan,
+      benefits: [
+        expect.objectContaining(plan.benefits[0]),
+        expect.objectContaining(plan.benefits[1]),
+      ],
+    });
+  });
+
+  it('reports CSV errors against the row they occur on', () => {
+    const csv = [
+      'recordType,planCode,name,description,planType,insurerId,coverageAmount,premiumAmount,deductible,days,waitingPeriodType,hospitalId',
+      `PLAN,GOLD,Gold,Gold cover,INDIVIDUAL,${insurerId},500000,abc,5000,,,`,
+      'WAITING_PERIOD,GOLD,,,,,,,,30,WEEKLY,',
+      `NETWORK_HOSPITAL,SILVER,,,,,,,,,,${hospitalId}`,
+    ].join('\n');
+
+    const { records, errors } = parseCatalogueCsv(csv);
+
+    expect(records).toEqual([]);
+    expect(errors.map(({ row, field }) => ({ row, field }))).toEqual([
+      { row: 2, field: 'premiumAmount' },
+      { row: 3, field: 'waitingPeriodType' },
+      { row: 4, field: 'planCode' },
+    ]);
+  });
+
+  it('reports JSON errors by plan position with the field path', () => {
+    const { records, errors } = parseCatalogueJson(JSON.stringify({
+      plans: [plan, { ...plan, planCode: 'BAD', benefits: [{ name: 'Hospitalization' }] }],
+    }));
+
+    expect(records).toHaveLength(1);
+    expect(errors).toEqual([
+      expect.objectContaining({ row: 2, planCode: 'BAD', field: 'benefits.0.description' }),
+      expect.objectContaining({ row: 2, planCode: 'BAD', field: 'benefits.0.coverageAmount' }),
+    ]);
+  });
+});
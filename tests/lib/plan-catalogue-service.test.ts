@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { planCatalogueService } from '@/lib/services/plan-catalogue-service';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(jest.requireMock('@/lib/prisma').prisma)),
+    insurer: {
+      findMany: jest.fn(),
+    },
+    hospital: {
+      findMany: jest.fn(),
+    },
+    productPlan: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+    planBenefit: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    planRider: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    networkHospital: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    waitingPeriod: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+  },
+}));
+
+describe('PlanCatalogueService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.productPlan.findUnique as jest.Mock).mockResolvedValue({ id: 'plan-1', status: 'DRAFT' });
+  });
+
+  it('keeps plan-wide waiting periods when only the benefits are replaced', async () => {
+    await planCatalogueService.updateDraft('plan-1', {
+      benefits: [{ name: 'Hospitalization', description: 'In-patient cover', coverageAmount: 500000 }],
+    });
+
+    expect(prisma.waitingPeriod.deleteMany).toHaveBeenCalledTimes(1);
+    expect(prisma.waitingPeriod.deleteMany).toHaveBeenCalledWith({
+      where: { planId: 'plan-1', benefitId: { not: null } },
+    });
+    expect(prisma.waitingPeriod.createMany).not.toHaveBeenCalled();
+  });
+
+  it('carries the previous version\'s riders over to a re-imported plan', async () => {
+    const insurerId = '7b0c7a52-5f7e-4a51-9c55-0d1a4f0f2a11';
+    const rider = {
+      id: 'rider-1',
+      planId: 'plan-1',
+      type: 'CRITICAL_ILLNESS',
+      name: 'Critical illness',
+      description: 'Lump sum on diagnosis',
+      coverageAmount: null,
+      pricingType: 'FLAT',
+      rate: 1200,
+      minAge: null,
+      maxAge: null,
+      genders: [],
+      status: 'ACTIVE',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    (prisma.insurer.findMany as jest.Mock).mockResolvedValue([{ id: insurerId }]);
+    (prisma.hospital.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.productPlan.findMany as jest.Mock).mockResolvedValue([
+      { id: 'plan-1', planCode: 'GOLD', version: 1, status: 'ARCHIVED' },
+      { id: 'plan-2', planCode: 'GOLD', version: 2, status: 'ACTIVE' },
+    ]);
+    (prisma.productPlan.create as jest.Mock).mockResolvedValue({ id: 'plan-3', planCode: 'GOLD' });
+    (prisma.planBenefit.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.planRider.findMany as jest.Mock).mockResolvedValue([{ ...rider, planId: 'plan-2' }]);
+
+    const result = await planCatalogueService.importPlans([{
+      row: 2,
+      plan: {
+        planCode: 'GOLD',
+        name: 'Gold',
+        description: 'Gold cover',
+        planType: 'INDIVIDUAL',
+        insurerId,
+        coverageAmount: 500000,
+        premiumAmount: 9000,
+        deductible: 5000,
+        features: {},
+        benefits: [],
+        networkHospitals: [],
+        waitingPeriods: [],
+      },
+    }], { dryRun: false });
+
+    expect(result.errors).toEqual([]);
+    expect(result.plans[0]).toMatchObject({ id: 'plan-3', version: 3 });
+    expect(prisma.planRider.findMany).toHaveBeenCalledWith({ where: { planId: 'plan-2' } });
+    const { id, createdAt, updatedAt, ...copied } = rider;
+    expect(prisma.planRider.createMany).toHaveBeenCalledWith({ data: [{ ...copied, planId: 'plan-3' }] });
+  });
+});
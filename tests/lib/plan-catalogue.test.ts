@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+import { PlanForValidation, validatePlanForPublish } from '@/lib/plan-catalogue';
+
+const benefit = (name: string) => ({
+  id: `benefit-${name}`,
+  planId: 'plan-1',
+  name,
+  description: `${name} cover`,
+  coverageAmount: new Prisma.Decimal(100000),
+  waitingPeriod: null,
+  conditions: null,
+  status: 'ACTIVE',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const draftPlan = (overrides: Partial<PlanForValidation> = {}): PlanForValidation => ({
+  id: 'plan-1',
+  name: 'Health Plus',
+  description: 'Comprehensive cover',
+  planType: 'INDIVIDUAL',
+  coverageAmount: new Prisma.Decimal(500000),
+  premiumAmount: new Prisma.Decimal(8000),
+  deductible: new Prisma.Decimal(5000),
+  features: {},
+  status: 'DRAFT',
+  insurerId: 'insurer-1',
+  planCode: 'code-1',
+  version: 1,
+  publishedAt: null,
+  publishedById: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  benefits: [benefit('Hospitalization')],
+  networkHospitals: [{
+    id: 'nh-1',
+    planId: 'plan-1',
+    hospitalId: 'hospital-1',
+    cashless: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }],
+  waitingPeriods: [],
+  ...overrides,
+});
+
+describe('validatePlanForPublish', () => {
+  it('accepts a complete draft', () => {
+    expect(validatePlanForPublish(draftPlan())).toEqual([]);
+  });
+
+  it('reports every missing or inconsistent part of a draft', () => {
+    const issues = validatePlanForPublish(draftPlan({
+      deductible: new Prisma.Decimal(600000),
+      benefits: [benefit('Daycare'), benefit('daycare')],
+      networkHospitals: [],
+      waitingPeriods: [{
+        id: 'wp-1',
+        planId: 'plan-1',
+        benefitId: null,
+        type: 'SPECIFIC_DISEASE',
+        days: 365,
+        conditions: [],
+        description: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }],
+    }));
+
+    expect(issues.map(issue => issue.field)).toEqual([
+      'deductible',
+      'benefits',
+      'networkHospitals',
+      'waitingPeriods',
+    ]);
+  });
+
+  it('refuses to republish a plan that is already on sale', () => {
+    const issues = validatePlanForPublish(draftPlan({ status: 'ACTIVE' }));
+
+    expect(issues).toEqual([expect.objectContaining({ field: 'status' })]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { parsePlanQuery, queryPlans } from '@/lib/plan-query';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    productPlan: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    planBenefit: {
+      groupBy: jest.fn(),
+    },
+    networkHospital: {
+      groupBy: jest.fn(),
+    },
+    insurer: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const plans = (...ids: string[]) => ids.map(id => ({ id, name: `Plan ${id}` }));
+
+describe('plan query', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.productPlan.count as jest.Mock).mockResolvedValue(3);
+    (prisma.productPlan.groupBy as jest.Mock).mockImplementation((args: any) =>
+      Promise.resolve(args.by[0] === 'planType'
+        ? [{ planType: 'FAMILY', _count: { _all: 1 } }, { planType: 'INDIVIDUAL', _count: { _all: 2 } }]
+        : [{ insurerId: 'insurer-1', _count: { _all: 3 } }])
+    );
+    (prisma.insurer.findMany as jest.Mock).mockResolvedValue([{ id: 'insurer-1', name: 'Acme Health' }]);
+    (prisma.planBenefit.groupBy as jest.Mock).mockResolvedValue([
+      { name: 'Maternity', planId: 'a' },
+      { name: 'Maternity', planId: 'b' },
+      { name: 'Daycare', planId: 'a' },
+    ]);
+  });
+
+  it('reads list filters from repeated or comma-separated params', () => {
+    const query = parsePlanQuery(new URLSearchParams(
+      'planTypes=FAMILY,SENIOR&benefits=Maternity&benefits=Daycare&premiumMax=12000&limit=5'
+    ));
+
+    expect(query).toMatchObject({
+      planTypes: ['FAMILY', 'SENIOR'],
+      benefits: ['Maternity', 'Daycare'],
+      premiumMax: 12000,
+      limit: 5,
+      sortBy: 'premium',
+    });
+  });
+
+  it('filters on real plan fields and sorts popularity by policies sold', async () => {
+    (prisma.networkHospital.groupBy as jest.Mock).mockResolvedValue([{ planId: 'a' }, { planId: 'b' }]);
+    (prisma.productPlan.findMany as jest.Mock).mockResolvedValue(plans('a', 'b'));
+
+    await queryPlans({
+      premiumMin: 5000,
+      deductibleMax: 10000,
+      minInsurerRating: 4,
+      minNetworkSize: 50,
+      benefits: ['Maternity'],
+      sortBy: 'popularity',
+      sortOrder: 'desc',
+    });
+
+    const { where, orderBy } = (prisma.productPlan.findMany as jest.Mock).mock.calls[0][0] as any;
+    expect(where.AND).toEqual(expect.arrayContaining([
+      { status: 'ACTIVE' },
+      { premiumAmount: { gte: 5000, lt: undefined } },
+      { deductible: { gte: undefined, lte: 10000 } },
+      { insurer: { rating: { gte: 4 } } },
+      { id: { in: ['a', 'b'] } },
+      { benefits: { some: { status: 'ACTIVE', name: { equals: 'Maternity', mode: 'insensitive' } } } },
+    ]));
+    expect(orderBy).toEqual([{ policies: { _count: 'desc' } }, { id: 'asc' }]);
+  });
+
+  it('pages with a cursor after the last plan returned', async () => {
+    (prisma.productPlan.findMany as jest.Mock).mockResolvedValue(plans('a', 'b', 'c'));
+
+    const first = await queryPlans({ limit: 2 });
+    expect(first.plans.map(p => p.id)).toEqual(['a', 'b']);
+    expect(first.nextCursor).toBe('b');
+
+    (prisma.productPlan.findMany as jest.Mock).mockResolvedValue(plans('c'));
+    const second = await queryPlans({ limit: 2, cursor: first.nextCursor! });
+
+    const pageCalls = (prisma.productPlan.findMany as jest.Mock).mock.calls
+      .map(([args]) => args as any)
+      .filter(args => args.include);
+    expect(pageCalls[1]).toMatchObject({
+      cursor: { id: 'b' },
+      skip: 1,
+      take: 3,
+    });
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('counts each facet without its own filter applied', async () => {
+    (prisma.productPlan.findMany as jest.Mock).mockResolvedValue(plans('a'));
+
+    const { facets } = await queryPlans({ planTypes: ['FAMILY'] });
+
+    const planTypeCall = (prisma.productPlan.groupBy as jest.Mock).mock.calls
+      .map(([args]) => args as any)
+      .find(args => args.by[0] === 'planType');
+    expect(planTypeCall.where.AND).not.toContainEqual({ planType: { in: ['FAMILY'] } });
+
+    expect(facets.planTypes.map(f => f.value)).toEqual(['INDIVIDUAL', 'FAMILY']);
+    expect(facets.insurers).toEqual([{ value: 'insurer-1', label: 'Acme Health', count: 3 }]);
+  });
+
+  it('buckets coverage and premium into bands counted without their own range', async () => {
+    (prisma.productPlan.findMany as jest.Mock).mockImplementation((args: any) => {
+      if (args.select?.coverageAmount) {
+        return Promise.resolve([299999.5, 500000, 750000].map(coverageAmount => ({ coverageAmount })));
+      }
+      if (args.select?.premiumAmount) {
+        return Promise.resolve([4500, 5000.5].map(premiumAmount => ({ premiumAmount })));
+      }
+      return Promise.resolve(plans('a'));
+    });
+
+    const { facets } = await queryPlans({ coverageMin: 500000, coverageMax: 1000000 });
+
+    const calls = (prisma.productPlan.findMany as jest.Mock).mock.calls.map(([args]) => args as any);
+    const coverageCall = calls.find(args => args.select?.coverageAmount);
+    expect(coverageCall.where.AND).not.toContainEqual({ coverageAmount: { gte: 500000, lt: 1000000 } });
+    expect(calls[0].where.AND).toContainEqual({ coverageAmount: { gte: 500000, lt: 1000000 } });
+
+    // Bands meet, so amounts between whole rupees still land in one
+    expect(facets.coverageBands.map(band => band.count)).toEqual([1, 0, 2, 0, 0]);
+    expect(facets.coverageBands[2]).toMatchObject({ value: '500000-1000000', min: 500000, max: 1000000 });
+    expect(facets.premiumBands.map(band => band.count)).toEqual([1, 1, 0, 0]);
+    expect(facets.premiumBands[3]).toMatchObject({ value: '20000-', max: null });
+    expect(facets.benefits).toEqual([
+      { value: 'Maternity', label: 'Maternity', count: 2 },
+      { value: 'Daycare', label: 'Daycare', count: 1 },
+    ]);
+  });
+});
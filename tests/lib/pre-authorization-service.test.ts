@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { preAuthorizationService } from '@/lib/services/pre-authorization-service';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma', () => {
+  const preAuthorization = {
+    create: jest.fn(),
+    aggregate: jest.fn(),
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  const claim = {
+    create: jest.fn(),
+    aggregate: jest.fn(),
+  };
+  const document = {
+    updateMany: jest.fn(),
+  };
+  const $queryRaw = jest.fn();
+  return {
+    prisma: {
+      policy: { findUnique: jest.fn() },
+      hospital: { findUnique: jest.fn() },
+      preAuthorization,
+      claim,
+      document,
+      $queryRaw,
+      $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn({ preAuthorization, claim, document, $queryRaw })),
+    },
+  };
+});
+
+const policy = {
+  id: 'policy-1',
+  planId: 'plan-1',
+  status: 'ACTIVE',
+  effectiveDate: new Date('2024-01-01T00:00:00.000Z'),
+  expirationDate: new Date('2024-12-31T00:00:00.000Z'),
+  coverageDetails: { coverageAmount: 500000 },
+  plan: { coverageAmount: 300000 },
+  waitingPeriods: [],
+};
+
+const submission = {
+  policyNumber: 'POL-1',
+  hospitalId: 'hospital-1',
+  diagnosis: 'Appendicitis',
+  plannedAdmissionDate: new Date('2024-06-01T00:00:00.000Z'),
+  estimatedCost: 150000,
+};
+
+describe('pre-authorization service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.policy.findUnique as jest.Mock).mockResolvedValue(policy);
+    (prisma.hospital.findUnique as jest.Mock).mockResolvedValue({
+      id: 'hospital-1',
+      networkPlans: [{ cashless: true }],
+    });
+    (prisma.preAuthorization.create as jest.Mock).mockImplementation((args: any) => Promise.resolve(args.data));
+  });
+
+  it('approves up to the sum insured left after approved claims and open authorisations', async () => {
+    (prisma.claim.aggregate as jest.Mock).mockResolvedValue({ _sum: { approvedAmount: 300000 } });
+    (prisma.preAuthorization.aggregate as jest.Mock).mockResolvedValue({ _sum: { approvedAmount: 100000 } });
+
+    const { preAuthorization, reasons } = await preAuthorizationService.submitPreAuthorization('agent-1', submission);
+
+    expect(preAuthorization).toMatchObject({ status: 'PARTIALLY_APPROVED', approvedAmount: 100000 });
+    expect(reasons.map(r => r.rule)).toEqual(['SUM_INSURED']);
+    const { where } = (prisma.claim.aggregate as jest.Mock).mock.calls[0][0] as any;
+    expect(where).toMatchObject({ policyId: 'policy-1', status: 'APPROVED' });
+    // The policy row is locked inside the transaction before the sums are read
+    const [sql, policyId] = (prisma.$queryRaw as jest.Mock).mock.calls[0] as [TemplateStringsArray, string];
+    expect(sql.join('?')).toContain('FOR UPDATE');
+    expect(policyId).toBe('policy-1');
+    expect((prisma.$queryRaw as jest.Mock).mock.invocationCallOrder[0])
+      .toBeLessThan((prisma.claim.aggregate as jest.Mock).mock.invocationCallOrder[0]);
+  });
+
+  it('moves the documents uploaded for the admission onto the request', async () => {
+    (prisma.claim.aggregate as jest.Mock).mockResolvedValue({ _sum: { approvedAmount: null } });
+    (prisma.preAuthorization.aggregate as jest.Mock).mockResolvedValue({ _sum: { approvedAmount: null } });
+    (prisma.preAuthorization.create as jest.Mock).mockImplementation((args: any) => Promise.resolve({ id: 'pa-1', ...args.data }));
+    (prisma.document.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+    await preAuthorizationService.submitPreAuthorization('agent-1', { ...submission, documentIds: ['doc-1', 'doc-2'] });
+
+    expect(prisma.document.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['doc-1', 'doc-2'] }, uploadedById: 'agent-1' },
+      data: { entityType: 'PRE_AUTHORIZATION', entityId: 'pa-1', preAuthorizationId: 'pa-1' },
+    });
+  });
+
+  it('rejects documents the submitter did not upload', async () => {
+    (prisma.claim.aggregate as jest.Mock).mockResolvedValue({ _sum: { approvedAmount: null } });
+    (prisma.preAuthorization.aggregate as jest.Mock).mockResolvedValue({ _sum: { approvedAmount: null } });
+    (prisma.document.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await expect(preAuthorizationService.submitPreAuthorization('agent-1', { ...submission, documentIds: ['doc-9'] }))
+      .rejects.toThrow('Document not found or unauthorized');
+  });
+
+  it('refuses policies that are not in force', async () => {
+    (prisma.policy.findUnique as jest.Mock).mockResolvedValue({ ...policy, status: 'LAPSED' });
+
+    await expect(preAuthorizationService.submitPreAuthorization('agent-1', submission))
+      .rejects.toThrow('Policy is not in force');
+    expect(prisma.preAuthorization.create).not.toHaveBeenCalled();
+  });
+
+  it('raises a cashless claim for the final bill, paid up to the authorised amount', async () => {
+    (prisma.preAuthorization.findUnique as jest.Mock).mockResolvedValue({
+      id: 'pa-1',
+      preAuthNumber: 'PA-1',
+      policyId: 'policy-1',
+      status: 'ADMITTED',
+      admittedAt: new Date('2024-06-02T00:00:00.000Z'),
+      plannedAdmissionDate: new Date('2024-06-01T00:00:00.000Z'),
+      approvedAmount: 150000,
+      diagnosis: 'Appendicitis',
+      condition: null,
+      benefitId: null,
+      isAccident: false,
+    });
+    (prisma.claim.create as jest.Mock).mockResolvedValue({ id: 'claim-1' });
+    (prisma.preAuthorization.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    await preAuthorizationService.dischargePatient('pa-1', { dischargeDate: new Date('2024-06-05T00:00:00.000Z'), finalBillAmount: 180000 });
+
+    const { data } = (prisma.claim.create as jest.Mock).mock.calls[0][0] as any;
+    expect(data).toMatchObject({
+      policyId: 'policy-1',
+      claimType: 'CASHLESS',
+      status: 'APPROVED',
+      totalAmount: 180000,
+      approvedAmount: 150000,
+      incidentDate: new Date('2024-06-02T00:00:00.000Z'),
+    });
+    expect((prisma.preAuthorization.updateMany as jest.Mock).mock.calls[0][0]).toMatchObject({
+      where: { id: 'pa-1', status: { in: ['APPROVED', 'PARTIALLY_APPROVED', 'ADMITTED'] } },
+      data: { status: 'DISCHARGED', claimId: 'claim-1' },
+    });
+  });
+
+  it('will not discharge a rejected request', async () => {
+    (prisma.preAuthorization.findUnique as jest.Mock).mockResolvedValue({ id: 'pa-1', status: 'REJECTED' });
+
+    await expect(preAuthorizationService.dischargePatient('pa-1', { dischargeDate: new Date('2024-06-05T00:00:00.000Z'), finalBillAmount: 1000 }))
+      .rejects.toThrow('A rejected pre-authorization cannot be discharged');
+    expect(prisma.claim.create).not.toHaveBeenCalled();
+  });
+});
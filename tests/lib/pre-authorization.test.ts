@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { assessPreAuthorization, canTransition, getPolicyYear } from '@/lib/pre-authorization';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+describe('pre-authorization assessment', () => {
+  const request = {
+    cashless: true,
+    waitingPeriodViolations: [],
+    remainingSumInsured: 500000,
+    estimatedCost: 200000,
+  };
+
+  it('approves the estimate in full when the sum insured covers it', () => {
+    expect(assessPreAuthorization(request)).toEqual({ status: 'APPROVED', approvedAmount: 200000, reasons: [] });
+  });
+
+  it('caps the approval at the sum insured left', () => {
+    const assessment = assessPreAuthorization({ ...request, remainingSumInsured: 150000 });
+
+    expect(assessment).toMatchObject({ status: 'PARTIALLY_APPROVED', approvedAmount: 150000 });
+    expect(assessment.reasons.map(r => r.rule)).toEqual(['SUM_INSURED']);
+  });
+
+  it('rejects with every reason that applies', () => {
+    const assessment = assessPreAuthorization({
+      ...request,
+      cashless: false,
+      remainingSumInsured: -1000,
+      waitingPeriodViolations: [{
+        type: 'SPECIFIC_DISEASE',
+        condition: 'cataract',
+        benefitId: null,
+        claimableFrom: '2025-01-01',
+        message: 'cataract has a 730-day waiting period and is covered from 2025-01-01',
+      }],
+    });
+
+    expect(assessment.status).toBe('REJECTED');
+    expect(assessment.approvedAmount).toBe(0);
+    expect(assessment.reasons.map(r => [r.rule, r.claimableFrom])).toEqual([
+      ['NETWORK', undefined],
+      ['WAITING_PERIOD', '2025-01-01'],
+      ['SUM_INSURED', undefined],
+    ]);
+  });
+
+  it('rejects hospitals outside the plan network', () => {
+    expect(assessPreAuthorization({ ...request, cashless: null }).reasons[0].message)
+      .toBe('The hospital is not in the network for this plan');
+  });
+});
+
+describe('pre-authorization lifecycle', () => {
+  it('only lets approved requests be admitted, discharged or cancelled', () => {
+    expect(canTransition('APPROVED', 'ADMITTED')).toBe(true);
+    expect(canTransition('ADMITTED', 'DISCHARGED')).toBe(true);
+    expect(canTransition('ADMITTED', 'APPROVED')).toBe(false);
+    expect(canTransition('REJECTED', 'ADMITTED')).toBe(false);
+    expect(canTransition('DISCHARGED', 'CANCELLED')).toBe(false);
+  });
+
+  it('finds the policy year an admission falls in', () => {
+    const effectiveDate = new Date('2024-03-15T00:00:00.000Z');
+
+    expect(getPolicyYear(effectiveDate, new Date('2024-12-01T00:00:00.000Z'))).toEqual({
+      start: effectiveDate,
+      end: new Date('2025-03-15T00:00:00.000Z'),
+    });
+    expect(getPolicyYear(effectiveDate, new Date('2026-01-10T00:00:00.000Z')).start)
+      .toEqual(new Date('2025-03-15T00:00:00.000Z'));
+    expect(getPolicyYear(effectiveDate, new Date('2026-03-15T00:00:00.000Z')).start)
+      .toEqual(new Date('2026-03-15T00:00:00.000Z'));
+  });
+});
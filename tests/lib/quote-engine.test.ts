@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
-import { calculateQuote } from '@/lib/quote-engine';
+import { calculateQuote, QuoteInputSchema } from '@/lib/quote-engine';
 import { prisma } from '@/lib/prisma';
 import { PlanType } from '@prisma/client';
 
@@ -9,6 +9,12 @@ jest.mock('@/lib/prisma', () => ({
     productPlan: {
       findMany: jest.fn(),
     },
+    ratingTable: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    underwritingRuleSet: {
+      findFirst: jest.fn().mockResolvedValue(null),
+    },
   },
 }));
 
@@ -38,6 +44,408 @@ const createMockPlan = (data: MockPlan): MockPlan => ({
 describe('Quote Engine', () => {
   // ... rest of the tests ...
 
+  describe('plan-specific pricing', () => {
+    const input = {
+      age: 30,
+      gender: 'MALE' as const,
+      city: 'Mumbai',
+      hasMedicalConditions: false,
+      familySize: 1,
+      coverageAmount: 500000,
+    };
+
+    const mockPlans = [
+      {
+        ...createMockPlan({ id: 'plan-a', name: 'Plan A' }),
+        coverageAmount: 500000,
+        premiumAmount: 12000,
+        deductible: 0,
+        features: {},
+        insurer: { id: 'insurer-a', name: 'Insurer A', rating: 4.5 },
+        benefits: [],
+      },
+      {
+        ...createMockPlan({ id: 'plan-b', name: 'Plan B', planType: PlanType.SENIOR }),
+        coverageAmount: 1000000,
+        premiumAmount: 9000,
+        deductible: 25000,
+        features: { loadings: { restoreBenefit: 0.05 } },
+        insurer: { id: 'insurer-b', name: 'Insurer B', rating: 4.2 },
+        benefits: [],
+      },
+    ];
+
+    beforeEach(() => {
+      (prisma.productPlan.findMany as jest.Mock).mockResolvedValue(mockPlans);
+    });
+
+    it('should price each plan from its own base rate', async () => {
+      const result = await calculateQuote(input);
+
+      const planA = result.recommendedPlans.find(p => p.planId === 'plan-a')!;
+      const planB = result.recommendedPlans.find(p => p.planId === 'plan-b')!;
+
+      expect(planA.premium).not.toBe(planB.premium);
+      expect(planA.breakdown.basePremium).toBe(12000);
+      expect(planB.breakdown.basePremium).toBe(9000);
+    });
+
+    it('should apply plan loadings and deductible credit', async () => {
+      const result = await calculateQuote(input);
+      const planB = result.recommendedPlans.find(p => p.planId === 'plan-b')!;
+
+      expect(planB.breakdown.planLoading).toBeCloseTo(1.25 * 1.05);
+      expect(planB.breakdown.deductibleCredit).toBe(0.1);
+      expect(planB.premium).toBe(
+        Math.round(9000 * 1.1 * 1.2 * 1.25 * 1.05 * 0.9)
+      );
+    });
+
+    it('should sort recommended plans by premium', async () => {
+      const result = await calculateQuote(input);
+      const premiums = result.recommendedPlans.map(p => p.premium);
+
+      expect(premiums).toEqual([...premiums].sort((a, b) => a - b));
+    });
+
+    it('should price every matching plan and recommend the three cheapest', async () => {
+      const plans = [15000, 14000, 13000, 8000].map((premiumAmount, index) => ({
+        ...mockPlans[0],
+        id: `plan-${index}`,
+        premiumAmount,
+      }));
+      (prisma.productPlan.findMany as jest.Mock).mockResolvedValue(plans);
+
+      const result = await calculateQuote(input);
+
+      expect(result.recommendedPlans.map(p => p.planId)).toEqual(['plan-3', 'plan-2', 'plan-1']);
+      expect((prisma.productPlan.findMany as jest.Mock).mock.calls[0][0]).not.toHaveProperty('take');
+    });
+  });
+
+  describe('rating tables', () => {
+    const input = {
+      age: 40,
+      gender: 'FEMALE' as const,
+      city: 'Nashik',
+      hasMedicalConditions: false,
+      familySize: 1,
+      coverageAmount: 500000,
+    };
+
+    const plan = {
+      ...createMockPlan({ id: 'plan-a', name: 'Plan A' }),
+      insurerId: 'insurer-a',
+      coverageAmount: 500000,
+      premiumAmount: 10000,
+      deductible: 0,
+      features: {},
+      insurer: { id: 'insurer-a', name: 'Insurer A', rating: 4.5 },
+      benefits: [],
+    };
+
+    const planTable = {
+      id: 'table-plan-a-v3',
+      planId: 'plan-a',
+      insurerId: null,
+      version: 3,
+      effectiveFrom: new Date('2024-06-01'),
+      cityTiers: [{ tier: 'TIER_2', multiplier: 1.05, cities: ['Nashik'] }],
+      defaultCityMultiplier: 1.0,
+      medicalConditionRisks: {},
+      ageBands: [{ maxAge: null, factor: 1.5 }],
+      familyDiscounts: [],
+    };
+
+    beforeEach(() => {
+      (prisma.productPlan.findMany as jest.Mock).mockResolvedValue([plan]);
+    });
+
+    afterEach(() => {
+      (prisma.ratingTable.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should fall back to the built-in table when none is published', async () => {
+      const result = await calculateQuote(input);
+
+      expect(result.ratingTable).toMatchObject({ version: 0, scope: 'DEFAULT' });
+      expect(result.recommendedPlans[0].breakdown.ageRisk).toBe(1.2);
+    });
+
+    it('should price with the plan table active at quote time', async () => {
+      (prisma.ratingTable.findMany as jest.Mock).mockResolvedValue([planTable]);
+      const asOf = new Date('2024-07-01');
+
+      const result = await calculateQuote(input, { asOf });
+      const { breakdown } = result.recommendedPlans[0];
+
+      expect(prisma.ratingTable.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ effectiveFrom: { lte: asOf } }),
+        })
+      );
+      expect(breakdown.ratingTable).toMatchObject({ id: 'table-plan-a-v3', version: 3, scope: 'PLAN' });
+      expect(breakdown.ageRisk).toBe(1.5);
+      expect(breakdown.cityMultiplier).toBe(1.05);
+      expect(result.pricedAt).toBe(asOf.toISOString());
+    });
+
+    it('should re-price named plans even once they are archived', async () => {
+      await calculateQuote(input, { planIds: ['plan-a'], asOf: new Date('2024-07-01') });
+
+      expect(prisma.productPlan.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { id: { in: ['plan-a'] } } })
+      );
+    });
+  });
+
+  describe('family floater pricing', () => {
+    const familyPlan = {
+      ...createMockPlan({ id: 'family-plan', name: 'Family Plan', planType: PlanType.FAMILY }),
+      insurerId: 'insurer-a',
+      coverageAmount: 1000000,
+      premiumAmount: 20000,
+      deductible: 0,
+      features: {},
+      insurer: { id: 'insurer-a', name: 'Insurer A', rating: 4.5 },
+      benefits: [],
+    };
+
+    const input = {
+      age: 40,
+      gender: 'MALE' as const,
+      city: 'Nashik',
+      hasMedicalConditions: false,
+      coverageAmount: 1000000,
+      members: [
+        { relationship: 'SELF' as const, age: 40 },
+        { relationship: 'SPOUSE' as const, age: 50, medicalConditions: ['diabetes'] },
+        { relationship: 'CHILD' as const, age: 8 },
+      ],
+    };
+
+    beforeEach(() => {
+      (prisma.productPlan.findMany as jest.Mock).mockResolvedValue([familyPlan]);
+    });
+
+    it('should only recommend family plans for more than one member', async () => {
+      await calculateQuote(input);
+
+      expect(prisma.productPlan.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ planType: 'FAMILY' }),
+        })
+      );
+    });
+
+    it('should treat a legacy family size as a family floater', async () => {
+      const { members, ...proposer } = input;
+      const result = await calculateQuote({ ...proposer, familySize: members.length });
+
+      expect(prisma.productPlan.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ planType: 'FAMILY' }),
+        })
+      );
+      expect(result.familyDiscount).toBeGreaterThan(0);
+    });
+
+    it('should use the eldest member for the age band', async () => {
+      const result = await calculateQuote(input);
+
+      expect(result.recommendedPlans[0].breakdown.ageRisk).toBe(1.3);
+    });
+
+    it('should show each member contribution adding up to the premium', async () => {
+      const result = await calculateQuote(input);
+      const { premium, breakdown } = result.recommendedPlans[0];
+
+      expect(breakdown.members).toHaveLength(3);
+      expect(breakdown.members.reduce((sum, m) => sum + m.premium, 0)).toBe(premium);
+
+      const spouse = breakdown.members.find(m => m.relationship === 'SPOUSE')!;
+      const child = breakdown.members.find(m => m.relationship === 'CHILD')!;
+      expect(spouse.medicalRisk).toBe(1.3);
+      expect(spouse.premium).toBeGreaterThan(child.premium);
+    });
+
+    it('should reject more children than a floater can cover', () => {
+      const result = QuoteInputSchema.safeParse({
+        ...input,
+        members: [
+          { relationship: 'SELF', age: 40 },
+          ...Array.from({ length: 5 }, () => ({ relationship: 'CHILD', age: 5 })),
+        ],
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('add-on riders', () => {
+    const rider = (type: string, pricingType: string, rate: number, extra: object = {}) => ({
+      id: `rider-${type}`,
+      planId: 'rider-plan',
+      type,
+      name: type,
+      description: '',
+      coverageAmount: null,
+      pricingType,
+      rate,
+      minAge: null,
+      maxAge: null,
+      genders: [],
+      status: 'ACTIVE',
+      ...extra,
+    });
+
+    const riderPlan = {
+      ...createMockPlan({ id: 'rider-plan', name: 'Rider Plan', planType: PlanType.FAMILY }),
+      insurerId: 'insurer-a',
+      coverageAmount: 1000000,
+      premiumAmount: 10000,
+      deductible: 0,
+      features: {},
+      insurer: { id: 'insurer-a', name: 'Insurer A', rating: 4.5 },
+      benefits: [],
+      riders: [
+        rider('OPD', 'PER_MEMBER', 2000),
+        rider('ROOM_RENT_WAIVER', 'PREMIUM_PERCENT', 0.1),
+        rider('MATERNITY', 'FLAT', 6000, { minAge: 18, maxAge: 45, genders: ['FEMALE'] }),
+      ],
+    };
+
+    const input = {
+      age: 40,
+      gender: 'MALE' as const,
+      city: 'Nashik',
+      hasMedicalConditions: false,
+      coverageAmount: 1000000,
+      members: [
+        { relationship: 'SELF' as const, age: 40, gender: 'MALE' as const },
+        { relationship: 'SPOUSE' as const, age: 50, gender: 'FEMALE' as const },
+      ],
+    };
+
+    beforeEach(() => {
+      (prisma.productPlan.findMany as jest.Mock).mockResolvedValue([riderPlan]);
+    });
+
+    it('should add each rider on its own pricing rule', async () => {
+      const result = await calculateQuote({ ...input, riders: ['OPD', 'ROOM_RENT_WAIVER'] });
+      const { breakdown, premium } = result.recommendedPlans[0];
+
+      const opd = breakdown.riders.find(r => r.type === 'OPD');
+      const waiver = breakdown.riders.find(r => r.type === 'ROOM_RENT_WAIVER');
+      expect(opd?.premium).toBe(4000);
+      expect(waiver?.premium).toBe(Math.round(breakdown.planPremium * 0.1));
+      expect(premium).toBe(breakdown.planPremium + 4000 + (waiver?.premium ?? 0));
+    });
+
+    it('should report riders no member is eligible for', async () => {
+      const result = await calculateQuote({ ...input, riders: ['MATERNITY', 'CRITICAL_ILLNESS'] });
+      const { breakdown } = result.recommendedPlans[0];
+
+      expect(breakdown.riders).toHaveLength(0);
+      expect(breakdown.riderPremium).toBe(0);
+      expect(breakdown.unavailableRiders.map(r => r.type)).toEqual(['MATERNITY', 'CRITICAL_ILLNESS']);
+    });
+
+    it('should reject a rider selected twice', () => {
+      expect(() => QuoteInputSchema.parse({ ...input, riders: ['OPD', 'OPD'] })).toThrow();
+    });
+  });
+
+  describe('payment frequency', () => {
+    const input = {
+      age: 30,
+      gender: 'MALE' as const,
+      city: 'Nashik',
+      hasMedicalConditions: false,
+      coverageAmount: 500000,
+    };
+
+    beforeEach(() => {
+      (prisma.productPlan.findMany as jest.Mock).mockResolvedValue([
+        {
+          ...createMockPlan({ id: 'plan-a', name: 'Plan A' }),
+          insurerId: 'insurer-a',
+          coverageAmount: 500000,
+          premiumAmount: 10000,
+          deductible: 0,
+          features: {},
+          insurer: { id: 'insurer-a', name: 'Insurer A', rating: 4.5 },
+          benefits: [],
+        },
+      ]);
+    });
+
+    it('should charge annual premiums as a single instalment without loading', async () => {
+      const { breakdown } = (await calculateQuote(input)).recommendedPlans[0];
+
+      expect(breakdown.paymentFrequency).toBe('ANNUAL');
+      expect(breakdown.instalmentCount).toBe(1);
+      expect(breakdown.finalPremium).toBe(breakdown.planPremium);
+    });
+
+    it('should load monthly premiums and split them into equal instalments', async () => {
+      const annual = (await calculateQuote(input)).recommendedPlans[0];
+      const monthly = (await calculateQuote({ ...input, paymentFrequency: 'MONTHLY' })).recommendedPlans[0];
+
+      expect(monthly.breakdown.instalmentCount).toBe(12);
+      expect(monthly.breakdown.instalmentAmount).toBe(Math.round(annual.premium * 1.05 / 12));
+      expect(monthly.premium).toBe(monthly.breakdown.instalmentAmount * 12);
+      expect(monthly.premium).toBeGreaterThan(annual.premium);
+    });
+  });
+
+  describe('policy terms', () => {
+    const input = {
+      age: 34,
+      gender: 'MALE' as const,
+      city: 'Nashik',
+      hasMedicalConditions: false,
+      coverageAmount: 500000,
+    };
+
+    beforeEach(() => {
+      (prisma.productPlan.findMany as jest.Mock).mockResolvedValue([
+        {
+          ...createMockPlan({ id: 'plan-a', name: 'Plan A' }),
+          insurerId: 'insurer-a',
+          coverageAmount: 500000,
+          premiumAmount: 10000,
+          deductible: 0,
+          features: {},
+          insurer: { id: 'insurer-a', name: 'Insurer A', rating: 4.5 },
+          benefits: [],
+        },
+      ]);
+    });
+
+    it('should price each year at the age reached that year', async () => {
+      const { breakdown } = (await calculateQuote({ ...input, policyTerm: 3 })).recommendedPlans[0];
+
+      expect(breakdown.policyTerm).toBe(3);
+      expect(breakdown.yearlyPremiums).toHaveLength(3);
+      // Turns 36 in the third year, moving into the next age band
+      expect(breakdown.yearlyPremiums[1].premium).toBe(breakdown.yearlyPremiums[0].premium);
+      expect(breakdown.yearlyPremiums[2].premium).toBeGreaterThan(breakdown.yearlyPremiums[1].premium);
+    });
+
+    it('should discount the whole term and charge it as one premium', async () => {
+      const oneYear = (await calculateQuote(input)).recommendedPlans[0];
+      const twoYears = (await calculateQuote({ ...input, policyTerm: 2 })).recommendedPlans[0];
+
+      expect(twoYears.breakdown.termDiscount).toBe(0.05);
+      expect(twoYears.breakdown.yearlyPremiums[0].premium).toBe(Math.round(oneYear.premium * 0.95));
+      expect(twoYears.premium).toBe(
+        twoYears.breakdown.yearlyPremiums.reduce((sum, y) => sum + y.premium, 0)
+      );
+      expect(twoYears.breakdown.instalmentCount).toBe(2);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle maximum age limit', async () => {
       const input = {
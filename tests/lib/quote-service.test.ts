@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { quoteService, QUOTE_VALIDITY_DAYS } from '@/lib/services/quote-service';
+import { calculateQuote, QuoteResult } from '@/lib/quote-engine';
+import { prisma } from '@/lib/prisma';
+import { Quote } from '@prisma/client';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn((fn: (tx: unknown) => unknown) => fn(jest.requireMock('@/lib/prisma').prisma)),
+    quote: {
+      create: jest.fn(({ data }: { data: Record<string, unknown> }) => Promise.resolve({ id: 'quote-1', ...data })),
+      findUnique: jest.fn(),
+    },
+    productPlan: {
+      findUnique: jest.fn(({ where }: { where: { id: string } }) => Promise.resolve({ planCode: `code-${where.id}` })),
+      findFirst: jest.fn(),
+    },
+    underwritingReview: {
+      create: jest.fn(({ data }: { data: Record<string, unknown> }) => Promise.resolve({ id: 'review-1', ...data })),
+    },
+  },
+}));
+
+jest.mock('@/lib/quote-engine', () => ({
+  ...jest.requireActual('@/lib/quote-engine'),
+  calculateQuote: jest.fn(),
+}));
+
+const input = {
+  age: 30,
+  gender: 'MALE' as const,
+  city: 'Mumbai',
+  hasMedicalConditions: false,
+  coverageAmount: 500000,
+};
+
+const recommendedPlan = (planId: string, premium: number, decision: 'ACCEPT' | 'REFER' = 'ACCEPT') => ({
+  planId,
+  planName: `Plan ${planId}`,
+  insurerName: 'Test Insurer',
+  coverageAmount: 500000,
+  deductible: 5000,
+  premium,
+  breakdown: { riskFactor: 1.1 },
+  features: [],
+  underwriting: {
+    decision,
+    reasons: decision === 'REFER'
+      ? [{ rule: 'SUM_INSURED', decision: 'REFER', message: 'Sum insured is above the limit' }]
+      : [],
+    ruleSet: { id: null, version: 0 },
+  },
+});
+
+const expiredQuote = (planId: string) =>
+  ({
+    id: 'quote-1',
+    customerId: 'customer-1',
+    planId,
+    quoteNumber: 'QTE12345678ABCD',
+    coverageAmount: 500000,
+    premiumAmount: 6000,
+    riskFactor: 1.1,
+    details: { input },
+    expiresAt: new Date(Date.now() - 1000),
+    createdAt: new Date(),
+  }) as unknown as Quote;
+
+const quoteResult = (plans: ReturnType<typeof recommendedPlan>[]) =>
+  ({
+    basePremium: 5000,
+    riskFactor: 1.1,
+    cityMultiplier: 1.2,
+    familyDiscount: 0,
+    finalPremium: 6600,
+    coverageAmount: 500000,
+    pricedAt: '2024-06-01T00:00:00.000Z',
+    recommendedPlans: plans,
+  }) as unknown as QuoteResult;
+
+describe('QuoteService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('stores one quote per recommended plan with the input and breakdown', async () => {
+    const saved = await quoteService.saveQuotes(
+      'customer-1',
+      input,
+      quoteResult([recommendedPlan('plan-a', 6000), recommendedPlan('plan-b', 7000)])
+    );
+
+    expect(prisma.quote.create).toHaveBeenCalledTimes(2);
+    const { data } = (prisma.quote.create as jest.Mock).mock.calls[0][0] as { data: any };
+    expect(data.planId).toBe('plan-a');
+    expect(data.premiumAmount).toBe(6000);
+    expect(data.details.input).toEqual(input);
+    expect(data.details.breakdown.riskFactor).toBe(1.1);
+
+    expect(saved.map(q => q.planId)).toEqual(['plan-a', 'plan-b']);
+    expect(saved[0].quoteNumber).toMatch(/^QTE\d{8}[A-Z0-9]{4}$/);
+    expect(saved[0].quoteNumber).not.toBe(saved[1].quoteNumber);
+
+    const validityMs = saved[0].expiresAt.getTime() - Date.now();
+    expect(validityMs).toBeGreaterThan((QUOTE_VALIDITY_DAYS - 1) * 24 * 60 * 60 * 1000);
+  });
+
+  it('opens a review task for referred quotes only', async () => {
+    await quoteService.saveQuotes(
+      'customer-1',
+      input,
+      quoteResult([recommendedPlan('plan-a', 6000), recommendedPlan('plan-b', 7000, 'REFER')])
+    );
+
+    const decisions = (prisma.quote.create as jest.Mock).mock.calls
+      .map(([args]) => (args as { data: any }).data.underwritingDecision);
+    expect(decisions).toEqual(['ACCEPT', 'REFER']);
+
+    expect(prisma.underwritingReview.create).toHaveBeenCalledTimes(1);
+    const { data } = (prisma.underwritingReview.create as jest.Mock).mock.calls[0][0] as { data: any };
+    expect(data.reasons[0].rule).toBe('SUM_INSURED');
+  });
+
+  it('re-quotes an expired quote for the same plan', async () => {
+    (prisma.productPlan.findFirst as jest.Mock).mockResolvedValue({ id: 'plan-a' });
+    (calculateQuote as jest.Mock).mockResolvedValue(quoteResult([recommendedPlan('plan-a', 6500)]));
+
+    const expired = expiredQuote('plan-a');
+
+    expect(quoteService.isExpired(expired)).toBe(true);
+
+    const requoted = await quoteService.requote(expired);
+
+    expect(calculateQuote).toHaveBeenCalledWith(input, { planIds: ['plan-a'] });
+    expect(requoted.premium).toBe(6500);
+    expect(requoted.quoteNumber).not.toBe(expired.quoteNumber);
+    const { data } = (prisma.quote.create as jest.Mock).mock.calls[0][0] as { data: any };
+    expect(data.details.requotedFrom).toBe('QTE12345678ABCD');
+  });
+
+  it('re-quotes onto the current version of a republished plan', async () => {
+    (prisma.productPlan.findFirst as jest.Mock).mockResolvedValue({ id: 'plan-a-v2' });
+    (calculateQuote as jest.Mock).mockResolvedValue(quoteResult([recommendedPlan('plan-a-v2', 6800)]));
+
+    const requoted = await quoteService.requote(expiredQuote('plan-a'));
+
+    expect(prisma.productPlan.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { planCode: 'code-plan-a', status: 'ACTIVE' } })
+    );
+    expect(calculateQuote).toHaveBeenCalledWith(input, { planIds: ['plan-a-v2'] });
+    expect(requoted.planId).toBe('plan-a-v2');
+  });
+
+  it('fails to re-quote when the plan is no longer offered', async () => {
+    (prisma.productPlan.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await expect(
+      quoteService.requote(expiredQuote('plan-gone'))
+    ).rejects.toThrow('Plan is no longer available');
+  });
+});
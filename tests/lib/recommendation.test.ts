@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+import { normalizeWeights, rankPlans, RecommendablePlan, RecommendationProfile } from '@/lib/recommendation';
+import type { RecommendedPlan } from '@/lib/quote-engine';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+const plan = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  planCode: `CODE-${id}`,
+  name: `Plan ${id}`,
+  planType: 'INDIVIDUAL',
+  coverageAmount: new Prisma.Decimal(500000),
+  premiumAmount: new Prisma.Decimal(9000),
+  insurer: { id: 'insurer-1', name: 'Acme Health', rating: 4.5 },
+  benefits: [],
+  waitingPeriods: [],
+  networkHospitals: [],
+  ...overrides,
+}) as unknown as RecommendablePlan;
+
+const profile: RecommendationProfile = {
+  age: 35,
+  memberCount: 1,
+  city: 'Pune',
+  state: 'Maharashtra',
+  conditions: [],
+  budget: null,
+  existingCover: [],
+  quoteInput: null,
+  savedWeights: null,
+};
+
+describe('plan recommendations', () => {
+  it('ranks on the real premium and leaves out plans over budget or already held', () => {
+    const plans = [
+      plan('cheap', { premiumAmount: new Prisma.Decimal(6000) }),
+      plan('dear', { premiumAmount: new Prisma.Decimal(15000) }),
+      plan('held', { premiumAmount: new Prisma.Decimal(5000) }),
+      plan('family', { planType: 'FAMILY', premiumAmount: new Prisma.Decimal(4000) }),
+    ];
+
+    const recommendations = rankPlans(plans, {
+      ...profile,
+      budget: 12000,
+      existingCover: [{ planCode: 'CODE-held', planName: 'Plan held', planType: 'INDIVIDUAL', coverageAmount: 300000 }],
+    });
+
+    expect(recommendations.map(r => r.id)).toEqual(['cheap']);
+    expect(recommendations[0]).toMatchObject({ premium: 6000, premiumQuoted: false });
+    expect(recommendations[0].reasons).toContain('Within your budget of ₹12,000 a year');
+  });
+
+  it('uses premiums quoted for the customer and drops declined plans', () => {
+    const quote = (planId: string, premium: number, decision: string) => ({
+      planId,
+      premium,
+      breakdown: { policyTerm: 1, yearlyPremiums: [{ year: 1, premium }] },
+      underwriting: { decision, reasons: [] },
+    }) as unknown as RecommendedPlan;
+
+    const recommendations = rankPlans(
+      [plan('a'), plan('b'), plan('c')],
+      profile,
+      undefined,
+      new Map([['a', quote('a', 18000, 'ACCEPT')], ['b', quote('b', 11000, 'REFER')], ['c', quote('c', 9000, 'DECLINE')]])
+    );
+
+    expect(recommendations.map(r => [r.id, r.premium])).toEqual([['b', 11000], ['a', 18000]]);
+    expect(recommendations[0].underwritingDecision).toBe('REFER');
+    expect(recommendations[0].scoreBreakdown.premiumScore).toBe(1);
+  });
+
+  it('favours plans that cover declared conditions with a short pre-existing wait', () => {
+    const plans = [
+      plan('covers', {
+        benefits: [{ name: 'Chronic Care', description: 'Diabetes management', coverageAmount: new Prisma.Decimal(100000) }],
+        waitingPeriods: [{ type: 'PRE_EXISTING', days: 365, conditions: [] }],
+      }),
+      plan('waits', {
+        waitingPeriods: [{ type: 'PRE_EXISTING', days: 1095, conditions: [] }],
+      }),
+    ];
+
+    const [first, second] = rankPlans(plans, {
+      ...profile,
+      conditions: [{ condition: 'diabetes', memberRelationship: 'SELF' }],
+    });
+
+    expect(first.id).toBe('covers');
+    expect(first.reasons).toContain('Chronic Care covers declared diabetes');
+    expect(first.scoreBreakdown.conditionScore).toBeCloseTo(0.5 + (1 - 365 / 1095) * 0.5);
+    expect(second.scoreBreakdown.conditionScore).toBe(0);
+  });
+
+  it('only suggests family floaters when several members need cover', () => {
+    const recommendations = rankPlans(
+      [plan('solo'), plan('floater', { planType: 'FAMILY' })],
+      { ...profile, memberCount: 3 }
+    );
+
+    expect(recommendations.map(r => r.id)).toEqual(['floater']);
+  });
+
+  it('scales slider weights to sum to one and treats all zeros as no preference', () => {
+    const weights = normalizeWeights({
+      coverage: 0, premium: 1, insurerRating: 1, networkSize: 0,
+      benefits: 0, ageAppropriate: 0, locationCoverage: 0, conditionCover: 0,
+    });
+
+    expect(weights.premium).toBe(0.5);
+    expect(weights.insurerRating).toBe(0.5);
+    expect(weights.coverage).toBe(0);
+    expect(normalizeWeights({
+      coverage: 0, premium: 0, insurerRating: 0, networkSize: 0,
+      benefits: 0, ageAppropriate: 0, locationCoverage: 0, conditionCover: 0,
+    }).coverage).toBe(0.2);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildSuggestionIndex, findSuggestions, Suggestion } from '@/lib/search-suggestions';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+const suggestions: Suggestion[] = [
+  { type: 'hospital', label: 'Indraprastha Apollo Hospital', url: '/hospitals/h-1' },
+  { type: 'insurer', label: 'Apollo Munich', url: '/plans?insurerIds=i-1' },
+  { type: 'specialty', label: 'Cardiology', url: '/hospitals?specialty=Cardiology' },
+  { type: 'city', label: 'Chennai', url: '/hospitals?city=Chennai' },
+  { type: 'plan', label: 'Care Classic', url: '/plans/p-1' },
+];
+
+describe('search suggestions', () => {
+  const index = buildSuggestionIndex(suggestions);
+
+  it('matches the start of any word, labels starting with the query first', () => {
+    expect(findSuggestions(index, 'apollo', 10).map(s => s.label))
+      .toEqual(['Apollo Munich', 'Indraprastha Apollo Hospital']);
+  });
+
+  it('ignores case and extra spaces, ranks by type and respects the limit', () => {
+    expect(findSuggestions(index, '  CAR', 10).map(s => s.type)).toEqual(['plan', 'specialty']);
+    expect(findSuggestions(index, 'c', 2).map(s => s.label)).toEqual(['Care Classic', 'Cardiology']);
+    expect(findSuggestions(index, 'ardio', 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+import { globalSearch, parseSearchQuery, searchHospitals, toPrefixTsQuery } from '@/lib/search';
+import { prisma } from '@/lib/prisma';
+import { hospitalService } from '@/lib/services/hospital-service';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/services/hospital-service', () => ({
+  hospitalService: {
+    findWithinRadius: jest.fn(),
+  },
+}));
+
+// The full SQL of the last search, with nested fragments expanded
+const lastSql = () => {
+  const [strings, ...values] = (prisma.$queryRaw as jest.Mock).mock.calls[0] as [TemplateStringsArray, ...unknown[]];
+  return Prisma.sql(strings, ...values);
+};
+
+describe('global search', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('matches every word as a prefix and drops punctuation', () => {
+    expect(toPrefixTsQuery('Cardio  care!')).toBe('cardio:* & care:*');
+    expect(toPrefixTsQuery("'&|:*")).toBeNull();
+  });
+
+  it('reads type filters from repeated or comma-separated params', () => {
+    const query = parseSearchQuery(new URLSearchParams('q=cardio&types=plan,hospital&types=benefit'));
+
+    expect(query).toEqual({ q: 'cardio', types: ['plan', 'hospital', 'benefit'], limit: 20 });
+    expect(() => parseSearchQuery(new URLSearchParams('q=x'))).toThrow();
+  });
+
+  it('only searches policies and claims for a customer, and only their own', async () => {
+    await globalSearch({ q: 'cardio' });
+    expect(lastSql().sql).not.toContain('"Policy"');
+
+    jest.clearAllMocks();
+    await globalSearch({ q: 'cardio' }, 'customer-1');
+    expect(lastSql().sql).toContain('"Claim"');
+    expect(lastSql().values).toContain('customer-1');
+  });
+
+  it('links each result to where it lives', async () => {
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([
+      { id: 'h-1', type: 'hospital', title: 'City Heart', description: '', snippet: '', score: 2.1, metadata: null },
+      { id: 'b-1', type: 'benefit', title: 'Cardiology', description: '', snippet: '', score: 1.4, metadata: { planId: 'plan-1' } },
+    ]);
+
+    const results = await globalSearch({ q: 'cardio', types: ['hospital', 'benefit'] });
+
+    expect(results.map(result => result.url)).toEqual(['/hospitals/h-1', '/plans/plan-1']);
+    expect(lastSql().sql).not.toContain('"Insurer" ins');
+  });
+});
+
+describe('hospital search by distance', () => {
+  const nearby = ['h-1', 'h-2', 'h-3'].map(id => ({ id, networkPlans: [], distanceKm: 1 }));
+  const location = { lat: 19.07, lng: 72.87 };
+
+  beforeEach(() => {
+    (hospitalService.findWithinRadius as jest.Mock).mockResolvedValue(nearby);
+  });
+
+  it('pages on from the cursor hospital', async () => {
+    const { hospitals, pagination } = await searchHospitals({ location, cursor: 'h-1', limit: 1 });
+
+    expect(hospitals.map(hospital => hospital.id)).toEqual(['h-2']);
+    expect(pagination).toEqual({ hasMore: true, nextCursor: 'h-2' });
+  });
+
+  it('ends paging when the cursor hospital is no longer in range', async () => {
+    const { hospitals, pagination } = await searchHospitals({ location, cursor: 'h-gone', limit: 2 });
+
+    expect(hospitals).toEqual([]);
+    expect(pagination).toEqual({ hasMore: false, nextCursor: null });
+  });
+});
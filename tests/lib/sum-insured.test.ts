@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { optimizeSumInsured, recommendSumInsured } from '@/lib/sum-insured';
+import { prisma } from '@/lib/prisma';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    productPlan: {
+      findMany: jest.fn(),
+    },
+    ratingTable: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    underwritingRuleSet: {
+      findFirst: jest.fn().mockResolvedValue(null),
+    },
+  },
+}));
+
+const plan = (id: string, coverageAmount: number, premiumAmount: number) => ({
+  id,
+  name: `Plan ${id}`,
+  insurerId: 'insurer-1',
+  planType: 'INDIVIDUAL',
+  coverageAmount,
+  premiumAmount,
+  deductible: 0,
+  features: {},
+  insurer: { id: 'insurer-1', name: 'Test Insurer' },
+  benefits: [],
+});
+
+const catalogue = [plan('silver', 500000, 6000), plan('gold', 1000000, 9000), plan('platinum', 2500000, 15000)];
+
+const baseInput = {
+  age: 30,
+  gender: 'MALE' as const,
+  city: 'Pune',
+  hasMedicalConditions: false,
+};
+
+describe('Sum insured optimizer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.productPlan.findMany as jest.Mock).mockImplementation((args: any) =>
+      Promise.resolve(
+        catalogue.filter(p => p.coverageAmount >= args.where.coverageAmount.gte)
+      )
+    );
+  });
+
+  it('recommends more cover for an older family with conditions in a metro', async () => {
+    const single = await recommendSumInsured(baseInput);
+    const family = await recommendSumInsured({
+      ...baseInput,
+      city: 'Mumbai',
+      hasMedicalConditions: true,
+      members: [
+        { relationship: 'SELF', age: 50, medicalConditions: ['diabetes'] },
+        { relationship: 'SPOUSE', age: 48 },
+        { relationship: 'CHILD', age: 15 },
+      ],
+    });
+
+    expect(single.recommendedCoverage).toBe(750000);
+    expect(family.recommendedCoverage).toBeGreaterThan(single.recommendedCoverage);
+    expect(family.reasons.length).toBeGreaterThan(single.reasons.length);
+  });
+
+  it('returns a premium curve with the marginal cost per lakh', async () => {
+    const result = await optimizeSumInsured(baseInput, [500000, 1000000, 2500000]);
+
+    expect(result.curve.map(p => p.coverageAmount)).toEqual([500000, 1000000, 2500000]);
+    expect(result.curve.map(p => p.cheapestPlan?.planId)).toEqual(['silver', 'gold', 'platinum']);
+    expect(result.curve[0].marginalCostPerLakh).toBeNull();
+
+    const [first, second] = result.curve;
+    expect(second.marginalCostPerLakh).toBe(Math.round((second.premium - first.premium) / 5));
+  });
+
+  it('prices the catalogue once so cover never gets cheaper at a higher level', async () => {
+    (prisma.productPlan.findMany as jest.Mock).mockResolvedValue([
+      ...catalogue,
+      plan('value', 1000000, 5000),
+    ]);
+
+    const curve = await optimizeSumInsured(baseInput, [500000, 1000000, 2500000]).then(r => r.curve);
+
+    expect(prisma.productPlan.findMany).toHaveBeenCalledTimes(1);
+    expect(curve.map(p => p.cheapestPlan?.planId)).toEqual(['value', 'value', 'platinum']);
+    expect(curve.map(p => p.planCount)).toEqual([4, 3, 1]);
+    expect(curve[1].marginalCostPerLakh).toBe(0);
+    expect(curve[2].marginalCostPerLakh).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { evaluateUnderwriting, DEFAULT_UNDERWRITING_RULES } from '@/lib/underwriting';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+const individual = { planType: 'INDIVIDUAL' as const, coverageAmount: 500000 };
+
+describe('evaluateUnderwriting', () => {
+  it('accepts a healthy adult within the limits', () => {
+    const result = evaluateUnderwriting([{ relationship: 'SELF', age: 30 }], individual, 1.1);
+
+    expect(result.decision).toBe('ACCEPT');
+    expect(result.reasons).toEqual([]);
+    expect(result.ruleSet.version).toBe(DEFAULT_UNDERWRITING_RULES.version);
+  });
+
+  it('declines cancer with heart disease at 70 instead of pricing it', () => {
+    const result = evaluateUnderwriting(
+      [{ relationship: 'SELF', age: 70, medicalConditions: ['cancer', 'heartDisease'] }],
+      individual,
+      5.4
+    );
+
+    expect(result.decision).toBe('DECLINE');
+    expect(result.reasons.map(r => r.rule)).toEqual(['CONDITION_COMBINATION', 'AGE_LIMIT', 'RISK_FACTOR']);
+    expect(result.reasons[0].message).toContain('Cancer with heart disease');
+  });
+
+  it('applies the age limits of the plan type', () => {
+    const senior = { planType: 'SENIOR' as const, coverageAmount: 500000 };
+
+    expect(evaluateUnderwriting([{ relationship: 'SELF', age: 55 }], senior, 1.3).decision).toBe('DECLINE');
+    expect(evaluateUnderwriting([{ relationship: 'SELF', age: 65 }], senior, 1.5).decision).toBe('ACCEPT');
+  });
+
+  it('refers a sum insured above the limit for the eldest member', () => {
+    const result = evaluateUnderwriting(
+      [
+        { relationship: 'SELF', age: 40 },
+        { relationship: 'PARENT', age: 62 },
+      ],
+      { planType: 'FAMILY', coverageAmount: 5000000 },
+      1.5
+    );
+
+    expect(result.decision).toBe('REFER');
+    expect(result.reasons).toEqual([
+      expect.objectContaining({ rule: 'SUM_INSURED', decision: 'REFER' }),
+    ]);
+  });
+});
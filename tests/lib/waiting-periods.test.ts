@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+import { WaitingPeriod } from '@prisma/client';
+import {
+  buildPolicyWaitingPeriods,
+  checkWaitingPeriods,
+  getDeclaredConditions,
+} from '@/lib/waiting-periods';
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+const planPeriod = (overrides: Partial<WaitingPeriod>): WaitingPeriod => ({
+  id: `wp-${overrides.type}`,
+  planId: 'plan-1',
+  benefitId: null,
+  type: 'INITIAL',
+  days: 30,
+  conditions: [],
+  description: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const effectiveDate = new Date('2024-01-01T00:00:00.000Z');
+const daysAfterStart = (days: number) => new Date(effectiveDate.getTime() + days * 24 * 60 * 60 * 1000);
+
+describe('waiting periods', () => {
+  const input = {
+    age: 40,
+    gender: 'MALE' as const,
+    city: 'Pune',
+    hasMedicalConditions: true,
+    coverageAmount: 500000,
+    members: [
+      { relationship: 'SELF' as const, age: 40, medicalConditions: ['diabetes'] },
+      { relationship: 'SPOUSE' as const, age: 38, medicalConditions: ['none'] },
+    ],
+  };
+
+  const periods = buildPolicyWaitingPeriods(
+    [
+      planPeriod({ type: 'INITIAL', days: 30 }),
+      planPeriod({ type: 'SPECIFIC_DISEASE', days: 365, conditions: ['cataract', 'hernia'] }),
+      planPeriod({ type: 'PRE_EXISTING', days: 730 }),
+    ],
+    getDeclaredConditions(input)
+  );
+
+  // As stored on the policy
+  const applied = periods.map(p => ({
+    type: p.type,
+    days: p.days,
+    condition: p.condition ?? null,
+    benefitId: p.benefitId ?? null,
+    memberRelationship: p.memberRelationship ?? null,
+  }));
+
+  it('links pre-existing periods to the conditions declared on the quote', () => {
+    expect(periods.map(p => [p.type, p.condition])).toEqual([
+      ['INITIAL', null],
+      ['SPECIFIC_DISEASE', 'cataract'],
+      ['SPECIFIC_DISEASE', 'hernia'],
+      ['PRE_EXISTING', 'diabetes'],
+    ]);
+    expect(periods[3].memberRelationship).toBe('SELF');
+  });
+
+  it('rejects illness in the initial period but not accidents', () => {
+    const illness = checkWaitingPeriods(effectiveDate, applied, { incidentDate: daysAfterStart(10) });
+    expect(illness).toHaveLength(1);
+    expect(illness[0]).toMatchObject({ type: 'INITIAL', claimableFrom: '2024-01-31' });
+    expect(illness[0].message).toContain('only accidents are covered');
+
+    expect(
+      checkWaitingPeriods(effectiveDate, applied, { incidentDate: daysAfterStart(10), isAccident: true })
+    ).toEqual([]);
+  });
+
+  it('explains pre-existing and specific-disease rejections until the periods end', () => {
+    const preExisting = checkWaitingPeriods(effectiveDate, applied, {
+      incidentDate: daysAfterStart(400),
+      condition: 'Diabetes',
+    });
+    expect(preExisting).toEqual([
+      expect.objectContaining({ type: 'PRE_EXISTING', condition: 'diabetes', claimableFrom: '2025-12-31' }),
+    ]);
+    expect(preExisting[0].message).toContain('pre-existing condition for self');
+
+    expect(
+      checkWaitingPeriods(effectiveDate, applied, { incidentDate: daysAfterStart(100), condition: 'cataract' })
+    ).toEqual([expect.objectContaining({ type: 'SPECIFIC_DISEASE' })]);
+    expect(
+      checkWaitingPeriods(effectiveDate, applied, { incidentDate: daysAfterStart(366), condition: 'cataract' })
+    ).toEqual([]);
+  });
+});